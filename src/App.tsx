@@ -1,7 +1,30 @@
-import { Outlet, Link } from 'react-router-dom'
-import { Car } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Outlet, Link, Navigate, useLocation } from 'react-router-dom'
+import { Car, LogOut } from 'lucide-react'
+import { startUploadQueue } from './lib/upload-queue'
+import { warmVinOcr } from './lib/vin-ocr'
+import { getCurrentInspector, subscribeToAuth } from './lib/auth'
+import { logout } from './lib/api'
 
 export default function App() {
+  useEffect(() => startUploadQueue(), [])
+  useEffect(() => warmVinOcr(), [])
+
+  const location = useLocation()
+  const [inspector, setInspector] = useState(getCurrentInspector)
+  const [sessionExpired, setSessionExpired] = useState(false)
+
+  useEffect(() => subscribeToAuth(event => {
+    setInspector(getCurrentInspector())
+    setSessionExpired(event.type === 'signed_out' && event.reason === 'expired')
+  }), [])
+
+  const onLoginPage = location.pathname === '/login'
+  if (!inspector && !onLoginPage) {
+    const next = encodeURIComponent(location.pathname + location.search)
+    return <Navigate to={`/login?next=${next}${sessionExpired ? '&reason=expired' : ''}`} replace />
+  }
+
   return (
     <div className="min-h-full max-w-md mx-auto">
       <header className="sticky top-0 z-10 bg-teal-600 text-white">
@@ -11,7 +34,16 @@ export default function App() {
             <div className="text-xs uppercase opacity-90">WesBank Intake</div>
             <div className="text-sm font-semibold">Capture & Checklist</div>
           </div>
-          <div className="ml-auto text-xs opacity-90"><Link to="/" className="underline">Home</Link></div>
+          <div className="ml-auto text-xs opacity-90 flex items-center gap-3">
+            {inspector && <span className="truncate max-w-[8rem]" title={inspector.email ?? inspector.name}>{inspector.name}</span>}
+            {!onLoginPage && <Link to="/" className="underline">Home</Link>}
+            {inspector && (
+              <button onClick={() => { void logout() }} className="inline-flex items-center gap-1 underline" aria-label="Sign out">
+                <LogOut className="w-3 h-3" />
+                Sign out
+              </button>
+            )}
+          </div>
         </div>
       </header>
       <main className="p-4 pb-24">
@@ -0,0 +1,38 @@
+import type { OcrHighlight } from '../lib/ocr-overlay'
+
+type Props = {
+  src: string
+  alt: string
+  highlights: OcrHighlight[]
+  // Applied to the photo; the outlines follow whatever size it ends up
+  imageClassName?: string
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`
+
+// The captured photo with outlines where the OCR read the chosen text (solid) and the alternatives (dashed)
+export default function OcrOverlay({ src, alt, highlights, imageClassName = 'w-full h-auto' }: Props) {
+  return (
+    <div className="relative mx-auto w-fit">
+      <img src={src} alt={alt} className={`block ${imageClassName}`} />
+      {highlights.map(highlight => (
+        <div
+          key={`${highlight.kind}-${highlight.text}`}
+          data-ocr-highlight={highlight.kind}
+          title={highlight.kind === 'chosen' ? `Read: ${highlight.text}` : `Also read: ${highlight.text}`}
+          className={`pointer-events-none absolute rounded-sm border-2 ${
+            highlight.kind === 'chosen'
+              ? 'border-emerald-400 bg-emerald-400/15'
+              : 'border-dashed border-amber-300 bg-amber-300/10'
+          }`}
+          style={{
+            left: percent(highlight.box.left),
+            top: percent(highlight.box.top),
+            width: percent(highlight.box.width),
+            height: percent(highlight.box.height),
+          }}
+        />
+      ))}
+    </div>
+  )
+}
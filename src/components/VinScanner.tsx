@@ -1,8 +1,19 @@
-import { useCallback, useEffect, useRef, useState } from 'react'
-import { BrowserMultiFormatReader } from '@zxing/browser'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { BarcodeFormat, BrowserMultiFormatReader } from '@zxing/browser'
 import type { IScannerControls } from '@zxing/browser'
-import { ocrVinFromImage, type OcrResult } from '../lib/api'
-import { formatVin, normalizeVin, isValidVin } from '../lib/vin'
+import { ApiError, ApiAbortError, type OcrResult } from '../lib/api'
+import { ocrVin } from '../lib/ocr'
+import { formatVin, normalizeVin, isValidVin, suggestVinCorrections, validateVin } from '../lib/vin'
+import { looksLikeLicenceDisc, parseLicenceDisc, type LicenceDisc } from '../lib/licence-disc'
+import { ocrHighlights } from '../lib/ocr-overlay'
+import { uncertainPositions } from '../lib/vin-consensus'
+import OcrOverlay from './OcrOverlay'
+
+// Why a VIN failed validation, for inline messages
+function invalidReason(vin: string): string {
+  const validation = validateVin(vin)
+  return validation.findings.find(finding => finding.severity === validation.severity)?.message ?? 'Failed validation check.'
+}
 
 // Helper function to get friendly error messages
 function getFriendlyError(error: Error, fallback: string): string {
@@ -27,6 +38,8 @@ type Props = {
   // New optional props for enhanced functionality
   showValidation?: boolean;
   allowInvalidVins?: boolean;
+  // Called instead of onResult when a licence disc barcode is scanned; without it the disc's VIN goes to onResult
+  onLicenceDisc?: (disc: LicenceDisc) => void;
 }
 
 type DecodeCallback = Parameters<BrowserMultiFormatReader['decodeFromVideoDevice']>[2];
@@ -41,11 +54,13 @@ export default function VinScanner({
   onResult, 
   onClose, 
   showValidation = true,
-  allowInvalidVins = false 
+  allowInvalidVins = false,
+  onLicenceDisc,
 }: Props) {
   const videoRef = useRef<HTMLVideoElement>(null)
   const readerRef = useRef<BrowserMultiFormatReader | null>(null)
   const controlsRef = useRef<IScannerControls | null>(null)
+  const ocrAbortRef = useRef<AbortController | null>(null)
 
   const [detected, setDetected] = useState('')
   const [scanning, setScanning] = useState(false)
@@ -54,19 +69,61 @@ export default function VinScanner({
   
   // Enhanced state for OCR results
   const [ocrResult, setOcrResult] = useState<OcrResult | null>(null)
+  // Photo read by on-device OCR because the server could not be used
+  const [readOffline, setReadOffline] = useState(false)
+  // The still photo last sent to OCR, shown with where each candidate was read
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null)
   const [ocrProgress, setOcrProgress] = useState<'validating' | 'compressing' | 'uploading' | 'processing' | null>(null)
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null)
   const [showCandidates, setShowCandidates] = useState(false)
   const framingReady = true // For now, assume framing is always ready
 
+  // Checksum-valid alternatives for a VIN that failed validation
+  const corrections = useMemo(
+    () => (detected && ocrResult && !ocrResult.vinValid ? suggestVinCorrections(detected) : []),
+    [detected, ocrResult]
+  )
+
+  const highlights = useMemo(
+    () => (ocrResult ? ocrHighlights(ocrResult.regions, detected || ocrResult.vin, ocrResult.candidates) : []),
+    [detected, ocrResult]
+  )
+
+  // Characters of the scanned VIN the reader was unsure of, for the inspector to check against the plate
+  const uncertain = useMemo(
+    () => new Set(detected && ocrResult ? uncertainPositions(detected, ocrResult.characters) : []),
+    [detected, ocrResult]
+  )
+
+  useEffect(() => () => {
+    if (photoUrl) URL.revokeObjectURL(photoUrl)
+  }, [photoUrl])
+
   const stop = useCallback(() => {
     controlsRef.current?.stop();
     setScanning(false);
   }, []);
 
   const handleDecoded = useCallback<DecodeCallback>((result) => {
-    const raw = result?.getText?.();
+    let raw = result?.getText?.();
     if (!raw) return;
 
+    // The reader's default formats include PDF417, which is what SA licence discs carry
+    if (result?.getBarcodeFormat() === BarcodeFormat.PDF_417 || looksLikeLicenceDisc(raw)) {
+      const disc = parseLicenceDisc(raw);
+      if (!disc) {
+        setErr('This licence disc barcode could not be read (newer discs may be encrypted). Scan the VIN plate instead.');
+        return;
+      }
+      if (onLicenceDisc) {
+        stop();
+        onLicenceDisc(disc);
+        onClose();
+        return;
+      }
+      raw = disc.vin;
+    }
+
     const vinCandidate = normalizeVin(raw);
     if (vinCandidate.length < 11) return;
 
@@ -74,6 +131,7 @@ export default function VinScanner({
     const valid = isValidVin(formatted);
 
     setDetected(formatted);
+    setPhotoUrl(null);
     setOcrResult({
       ok: true,
       vin: formatted,
@@ -85,6 +143,9 @@ export default function VinScanner({
       totalBlocks: 1,
       lineCount: 1,
       fromCache: false,
+      regions: [],
+      characters: [],
+      source: 'device',
     });
 
     if (valid || allowInvalidVins) {
@@ -92,7 +153,7 @@ export default function VinScanner({
       onResult(formatted);
       onClose();
     }
-  }, [allowInvalidVins, onClose, onResult, stop]);
+  }, [allowInvalidVins, onClose, onLicenceDisc, onResult, stop]);
 
   const startWithConstraints = useCallback(async (constraints?: MediaTrackConstraints) => {
     if (!readerRef.current) readerRef.current = new BrowserMultiFormatReader();
@@ -116,6 +177,7 @@ export default function VinScanner({
     setDetected('');
     setErr('');
     setOcrResult(null);
+    setPhotoUrl(null);
 
     const primaryConstraints: MediaTrackConstraints = {
       facingMode: { ideal: 'environment' },
@@ -187,16 +249,23 @@ export default function VinScanner({
     };
   }, [startScan, stop]);
 
+  useEffect(() => () => ocrAbortRef.current?.abort(), []);
+
   // Enhanced OCR with progress tracking and better error handling
   async function decodeFile(file: File) {
     try {
       setErr('')
       setDetected('')
       setOcrResult(null)
+      setPhotoUrl(URL.createObjectURL(file))
       setBusy(true)
       setOcrProgress('validating')
-      
-      const result = await ocrVinFromImage(file, {
+      setUploadPercent(null)
+
+      const controller = new AbortController()
+      ocrAbortRef.current = controller
+      setReadOffline(false)
+      const result = await ocrVin(file, {
         compress: true,
         compressionOptions: {
           maxWidth: 1600,
@@ -205,10 +274,13 @@ export default function VinScanner({
         },
         onProgress: (stage) => {
           setOcrProgress(stage)
-        }
+        },
+        onUploadProgress: (fraction) => setUploadPercent(Math.round(fraction * 100)),
+        signal: controller.signal,
       })
       
       setOcrResult(result)
+      setReadOffline(result.source === 'device')
       setOcrProgress(null)
       
       if (result.vin) {
@@ -224,7 +296,7 @@ export default function VinScanner({
         
         // Show validation warning but don't auto-close
         if (!result.vinValid && showValidation) {
-          setErr(`VIN "${formatted}" failed validation check. ${result.candidates.length > 1 ? 'Check other candidates below.' : 'Try a clearer photo.'}`)
+          setErr(`VIN "${formatted}": ${invalidReason(formatted)} ${result.candidates.length > 1 ? 'Check other candidates below.' : 'Try a clearer photo.'}`)
         }
       } else {
         // No VIN found - show helpful message and candidates if any
@@ -238,12 +310,18 @@ export default function VinScanner({
         }
       }
     } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : 'Failed to read VIN from photo';
+      // Cancelled from the top bar; the scanner is already closing
+      if (error instanceof ApiAbortError) return
+      const message = error instanceof ApiError
+        ? error.userMessage
+        : error instanceof Error ? error.message : 'Failed to read VIN from photo';
       setErr(message);
       setOcrResult(null);
     } finally {
+      ocrAbortRef.current = null
       setBusy(false)
       setOcrProgress(null)
+      setUploadPercent(null)
     }
   }
 
@@ -266,7 +344,7 @@ export default function VinScanner({
       onResult(formatted)
       onClose()
     } else if (showValidation) {
-      setErr(`VIN "${formatted}" failed validation check. You can still use it if needed.`)
+      setErr(`VIN "${formatted}": ${invalidReason(formatted)} You can still use it if needed.`)
     }
   }
 
@@ -282,14 +360,14 @@ export default function VinScanner({
   }
 
   // Validation status component
-  const ValidationStatus = ({ valid, confidence }: { valid: boolean; confidence: number }) => {
+  const ValidationStatus = ({ vin, valid, confidence }: { vin: string; valid: boolean; confidence: number }) => {
     if (!showValidation) return null
     
     return (
       <div className="mt-2 flex items-center gap-2 text-xs">
         <div className={`w-2 h-2 rounded-full ${valid ? 'bg-green-400' : 'bg-yellow-400'}`} />
         <span className={valid ? 'text-green-200' : 'text-yellow-200'}>
-          {valid ? 'Valid VIN' : 'Invalid check digit'} • {confidence.toFixed(1)}% confidence
+          {valid ? 'Valid VIN' : invalidReason(vin)} • {confidence.toFixed(1)}% confidence
         </span>
       </div>
     )
@@ -322,9 +400,8 @@ export default function VinScanner({
       {/* Top bar */}
       <div className="absolute top-0 left-0 right-0 p-4 pt-[calc(env(safe-area-inset-top,0)+1rem)] flex items-center justify-between">
         <button
-          onClick={() => { stop(); onClose() }}
+          onClick={() => { ocrAbortRef.current?.abort(); stop(); onClose() }}
           className="pointer-events-auto rounded-lg bg-white/90 px-3 py-2 text-sm font-medium hover:bg-white transition-colors"
-          disabled={busy}
         >
           Cancel
         </button>
@@ -346,7 +423,11 @@ export default function VinScanner({
             }`}
             aria-disabled={shutterDisabled}
           >
-            {busy ? (ocrProgress ? ocrProgress.charAt(0).toUpperCase() + ocrProgress.slice(1) + '...' : 'Reading...') : 'Take Photo'}
+            {busy
+              ? ocrProgress === 'uploading' && uploadPercent !== null
+                ? `Uploading ${uploadPercent}%...`
+                : ocrProgress ? ocrProgress.charAt(0).toUpperCase() + ocrProgress.slice(1) + '...' : 'Reading...'
+              : 'Take Photo'}
             <input
               type="file"
               accept="image/*"
@@ -365,17 +446,49 @@ export default function VinScanner({
 
       {/* Bottom panel */}
       <div className="absolute left-0 right-0 bottom-0 p-4 pb-[calc(env(safe-area-inset-bottom,0)+1rem)] space-y-3 max-h-[60vh] overflow-y-auto">
+        {/* Where on the photo the VIN and the other candidates were read */}
+        {photoUrl && highlights.length > 0 && (
+          <div className="rounded-xl bg-black/70 p-2">
+            <OcrOverlay src={photoUrl} alt="Scanned photo" highlights={highlights} imageClassName="max-h-40 w-auto rounded-lg" />
+            <div className="mt-1 text-[11px] text-white/80 text-center">
+              Solid outline: read as the VIN{highlights.length > 1 ? ' • Dashed: other candidates' : ''}
+            </div>
+          </div>
+        )}
+
         {detected ? (
           <>
             <div className="rounded-xl bg-black/70 text-white px-4 py-3">
               <div className="text-xs opacity-80">Scanned VIN</div>
-              <div className="font-mono text-lg tracking-wide break-all">{detected}</div>
+              <div className="font-mono text-lg tracking-wide break-all">
+                {detected.split('').map((char, idx) => (
+                  uncertain.has(idx) ? (
+                    <span
+                      key={idx}
+                      className="text-amber-300 underline decoration-dotted underline-offset-4"
+                      title={`Read with ${ocrResult?.characters[idx]?.confidence ?? 0}% confidence`}
+                    >
+                      {char}
+                    </span>
+                  ) : (
+                    <span key={idx}>{char}</span>
+                  )
+                ))}
+              </div>
+              {uncertain.size > 0 && (
+                <div className="mt-1 text-xs text-amber-300">
+                  Check the underlined {uncertain.size === 1 ? 'character' : 'characters'} against the plate — read with low confidence
+                </div>
+              )}
               {ocrResult && (
-                <ValidationStatus valid={ocrResult.vinValid} confidence={ocrResult.confidence} />
+                <ValidationStatus vin={detected} valid={ocrResult.vinValid} confidence={ocrResult.confidence} />
               )}
               {ocrResult?.fromCache && (
                 <div className="mt-1 text-xs text-blue-300">⚡ Cached result</div>
               )}
+              {readOffline && (
+                <div className="mt-1 text-xs text-amber-300">Read on this device — server OCR unavailable</div>
+              )}
             </div>
             
             <div className="flex gap-2">
@@ -430,6 +543,34 @@ export default function VinScanner({
           </>
         )}
 
+        {/* Checksum-valid corrections */}
+        {detected && corrections.length > 0 && (
+          <div className="rounded-xl bg-black/70 text-white px-4 py-3">
+            <div className="text-xs opacity-80 mb-3">Likely misreads (these pass the check digit):</div>
+            <div className="space-y-2">
+              {corrections.map(correction => {
+                const changed = new Set(correction.changes.map(change => change.position - 1))
+                return (
+                  <button
+                    key={correction.vin}
+                    onClick={() => selectCandidate(correction.vin)}
+                    className="w-full text-left rounded-lg bg-white/10 hover:bg-white/20 p-3 transition-colors"
+                  >
+                    <div className="font-mono text-sm">
+                      {correction.vin.split('').map((char, idx) => (
+                        <span key={idx} className={changed.has(idx) ? 'text-emerald-300 font-bold underline' : undefined}>{char}</span>
+                      ))}
+                    </div>
+                    <div className="text-xs opacity-70 mt-1">
+                      {correction.changes.map(change => `${change.from}→${change.to} at ${change.position}`).join(', ')}
+                    </div>
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Candidate selection */}
         {showCandidates && ocrResult?.candidates && (
           <div className="rounded-xl bg-black/70 text-white px-4 py-3">
@@ -448,7 +589,7 @@ export default function VinScanner({
                     <div className="flex items-center gap-2 mt-1">
                       <div className={`w-1.5 h-1.5 rounded-full ${valid ? 'bg-green-400' : 'bg-yellow-400'}`} />
                       <span className="text-xs opacity-70">
-                        {valid ? 'Valid' : 'Invalid check digit'}
+                        {valid ? 'Valid' : invalidReason(formatted)}
                       </span>
                     </div>
                   </button>
@@ -0,0 +1,258 @@
+// src/lib/api-errors.ts
+// Typed error model thrown by every exported function in api.ts
+
+export type ApiErrorKind =
+  | 'validation'
+  | 'unauthorized'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'invalid_response'
+  | 'unknown';
+
+// Error body shape returned by the backend on non-2xx responses
+export interface ApiErrorBody {
+  error?: string;
+  message?: string;
+  reasons?: unknown;
+  details?: string;
+  processingTime?: number;
+}
+
+export interface ApiErrorInit {
+  status?: number | null;
+  code?: string;
+  reasons?: string[];
+  retryable?: boolean;
+  userMessage?: string;
+  retryAfterMs?: number | null;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly code: string;
+  readonly reasons: string[];
+  readonly retryable: boolean;
+  readonly userMessage: string;
+  // Server-requested wait from a Retry-After header
+  readonly retryAfterMs: number | null;
+
+  constructor(kind: ApiErrorKind, message: string, init: ApiErrorInit = {}) {
+    super(message, init.cause !== undefined ? { cause: init.cause } : undefined);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = init.status ?? null;
+    this.code = init.code ?? kind;
+    this.reasons = init.reasons ?? [];
+    this.retryable = init.retryable ?? false;
+    this.userMessage = init.userMessage ?? message;
+    this.retryAfterMs = init.retryAfterMs ?? null;
+  }
+}
+
+// Input rejected on the device before any request was sent
+export class ApiValidationError extends ApiError {
+  constructor(userMessage: string, code = 'invalid_input') {
+    super('validation', userMessage, { code, userMessage });
+    this.name = 'ApiValidationError';
+  }
+}
+
+// Backend answered with a non-2xx status
+export class ApiHttpError extends ApiError {
+  constructor(kind: ApiErrorKind, message: string, init: ApiErrorInit & { status: number }) {
+    super(kind, message, init);
+    this.name = 'ApiHttpError';
+  }
+}
+
+export class ApiNetworkError extends ApiError {
+  constructor(cause?: unknown) {
+    super('network', 'Network request failed', {
+      code: 'network_error',
+      retryable: true,
+      userMessage: 'Network error. Please check your connection and try again.',
+      cause,
+    });
+    this.name = 'ApiNetworkError';
+  }
+}
+
+export class ApiTimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, cause?: unknown) {
+    super('timeout', `Request timed out after ${timeoutMs}ms`, {
+      code: 'timeout',
+      retryable: true,
+      userMessage: 'Request timed out. Please check your connection and try again.',
+      cause,
+    });
+    this.name = 'ApiTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Cancelled by the caller through an AbortSignal
+export class ApiAbortError extends ApiError {
+  constructor(cause?: unknown) {
+    super('aborted', 'Request was cancelled', {
+      code: 'aborted',
+      userMessage: 'Cancelled.',
+      cause,
+    });
+    this.name = 'ApiAbortError';
+  }
+}
+
+// Backend answered 2xx but the payload does not have the expected shape
+export class ApiResponseError extends ApiError {
+  constructor(detail: string, cause?: unknown) {
+    super('invalid_response', `Unexpected response from server: ${detail}`, {
+      code: 'invalid_response',
+      userMessage: 'The server sent an unexpected response. Please try again or contact support.',
+      cause,
+    });
+    this.name = 'ApiResponseError';
+  }
+}
+
+const KNOWN_CODES: Record<string, { kind: ApiErrorKind; retryable: boolean; message: string; preferServerMessage?: boolean }> = {
+  aws_not_configured: {
+    kind: 'unavailable',
+    retryable: false,
+    message: 'OCR service is not configured. Please contact support.',
+  },
+  invalid_image: {
+    kind: 'validation',
+    retryable: false,
+    message: 'Invalid image format or corrupted file. Please try a different photo.',
+  },
+  file_too_large: {
+    kind: 'validation',
+    retryable: false,
+    message: 'Image file is too large. Please use a smaller image.',
+    preferServerMessage: true,
+  },
+  invalid_credentials: {
+    kind: 'unauthorized',
+    retryable: false,
+    message: 'Incorrect username or password.',
+  },
+  rate_limit_exceeded: {
+    kind: 'rate_limited',
+    retryable: true,
+    message: 'Too many requests. Please wait a moment and try again.',
+  },
+  textract_failed: {
+    kind: 'server',
+    retryable: true,
+    message: 'OCR processing failed. Please try again with a clearer photo.',
+  },
+};
+
+function kindForStatus(status: number): ApiErrorKind {
+  if (status === 400 || status === 413 || status === 415 || status === 422) return 'validation';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status === 503) return 'unavailable';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+function messageForStatus(status: number): string | undefined {
+  if (status === 401) return 'Your session has expired. Please sign in again.';
+  if (status === 413) return 'Photo is too large. Please try taking a smaller photo.';
+  if (status === 415) return 'Photo format not supported. Please try again.';
+  if (status >= 500) return 'Server error. Please try again in a moment.';
+  return undefined;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.round(seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+async function readErrorBody(response: Response): Promise<ApiErrorBody | string | null> {
+  const contentType = response.headers.get('content-type') ?? '';
+  try {
+    if (contentType.includes('application/json')) {
+      const body: unknown = await response.json();
+      return typeof body === 'object' && body !== null ? body as ApiErrorBody : null;
+    }
+    const text = await response.text();
+    return text.trim().length > 0 ? text : null;
+  } catch (_error) {
+    void _error;
+    return null;
+  }
+}
+
+export async function apiErrorFromResponse(response: Response): Promise<ApiHttpError> {
+  const { status } = response;
+  const body = await readErrorBody(response);
+  const details = typeof body === 'object' && body !== null ? body : undefined;
+
+  const code = details?.error ?? `http_${status}`;
+  const reasons = Array.isArray(details?.reasons) ? details.reasons.map(String) : [];
+  const known = details?.error ? KNOWN_CODES[details.error] : undefined;
+
+  const technical = details
+    ? `${status} ${details.error ?? response.statusText}${reasons.length ? `: ${reasons.join(',')}` : ''}`
+    : typeof body === 'string' ? body : `${status} ${response.statusText}`;
+
+  let userMessage: string;
+  if (known) {
+    userMessage = known.preferServerMessage && details?.message ? details.message : known.message;
+  } else {
+    userMessage = details?.message ?? messageForStatus(status) ?? technical;
+  }
+
+  return new ApiHttpError(known?.kind ?? kindForStatus(status), technical, {
+    status,
+    code,
+    reasons,
+    retryable: known?.retryable ?? isRetryableStatus(status),
+    userMessage,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  });
+}
+
+// DOMException is not an Error subclass in every runtime, so match on the name
+function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+export function apiErrorFromFetchFailure(
+  error: unknown,
+  options: { timeoutMs?: number; cancelled?: boolean } = {}
+): ApiError {
+  if (error instanceof ApiError) return error;
+  if (isAbortError(error)) {
+    return options.cancelled || !options.timeoutMs
+      ? new ApiAbortError(error)
+      : new ApiTimeoutError(options.timeoutMs, error);
+  }
+  return new ApiNetworkError(error);
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
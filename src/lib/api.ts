@@ -1,14 +1,82 @@
 // src/lib/api.ts
-import type { Checklist, ImageRole } from '../types';
+import type {
+  AuthTokenResponse,
+  ChassisIdentification,
+  Checklist,
+  DraftPatch,
+  ImageRole,
+  InitDraftResponse,
+  LicenceDiscRecord,
+  Passport,
+  PatchDraftResponse,
+  SealResponse,
+  VehicleDetails,
+} from '../types';
 import { logger, serializeError } from './logger';
+import {
+  ApiAbortError,
+  ApiError,
+  ApiNetworkError,
+  ApiResponseError,
+  ApiTimeoutError,
+  ApiValidationError,
+  apiErrorFromFetchFailure,
+  apiErrorFromResponse,
+} from './api-errors';
+import { backoffDelay, createIdempotencyKey, withRetry, type RetryPolicy } from './retry';
+import { cachedQuery, clearQueryCache, invalidateQueries, setQueryData, type QueryOptions } from './query-cache';
+import {
+  clearSession,
+  getCurrentInspector,
+  getSession,
+  isSessionExpiring,
+  setSession,
+  type AuthSession,
+  type Inspector,
+} from './auth';
+import {
+  DecodeError,
+  decodeAuthTokenResponse,
+  decodeChecklist,
+  decodeInitDraftResponse,
+  decodePassport,
+  decodePatchDraftResponse,
+  decodeSealResponse,
+  decodeStreamTicketResponse,
+  type Decoder,
+} from './decoders';
+import { normalizeEngineNumber } from './engine-number';
+import { isValidPlate, normalizePlate, parsePlate } from './plates';
+import type { VinCharacter } from './vin-consensus';
 import { normalizeVin as normalizeVinInternal, formatVin as formatVinInternal, isValidVin as isValidVinInternal } from './vin';
 
 const BASE = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/+$/, '');
-const API_KEY = import.meta.env.VITE_API_KEY as string | undefined;
 
 const log = logger.withContext({ scope: 'api' });
 
 
+// Where text sits on the submitted image, as fractions (0-1) of its width and height, as Textract reports it
+export interface OcrBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// A line or word the OCR read, with where it read it
+export interface OcrTextRegion {
+  text: string;
+  box: OcrBox;
+  confidence: number;
+  level: 'line' | 'word';
+}
+
+// Older servers do not send regions; callers always get an array
+type ServerOcrResponse<T extends { regions: OcrTextRegion[] }> = Omit<T, 'regions'> & { regions?: OcrTextRegion[] };
+
+// Where a VIN was read: by the server OCR, or by Tesseract on the device when the server could not help
+export type OcrSource = 'server' | 'device';
+
 // Enhanced OCR result type matching your backend response
 export interface OcrResult {
   ok: boolean;
@@ -21,6 +89,10 @@ export interface OcrResult {
   totalBlocks: number;
   lineCount: number;
   fromCache: boolean;
+  regions: OcrTextRegion[];
+  // Confidence in each character of `vin`, where the reader reports it; empty otherwise
+  characters: VinCharacter[];
+  source: OcrSource;
 }
 
 
@@ -35,16 +107,37 @@ export interface ocrOdoResult {
   totalBlocks: number;
   lineCount: number;
   fromCache: boolean;
+  regions: OcrTextRegion[];
+}
+
+export interface EngineNumberOcrResult {
+  ok: boolean;
+  engineNumber: string | null;
+  rawText: string;
+  candidates: string[];
+  confidence: number;
+  processingTime: number;
+  textExtracted: boolean;
+  totalBlocks: number;
+  lineCount: number;
+  fromCache: boolean;
 }
 
-// OCR error types for better error handling
-export interface OcrError {
-  error: string;
-  message: string;
-  processingTime?: number;
-  details?: string;
+export interface PlateOcrResult {
+  ok: boolean;
+  plate: string | null;
+  candidates: string[];
+  confidence: number;
+  processingTime: number;
+  textExtracted: boolean;
+  totalBlocks: number;
+  lineCount: number;
+  fromCache: boolean;
 }
 
+// OCR error body as returned by the backend; thrown to callers as an ApiError
+export type { ApiErrorBody as OcrError } from './api-errors';
+
 // Image compression options for mobile optimization
 export interface ImageCompressionOptions {
   maxWidth?: number;
@@ -57,42 +150,281 @@ export interface UploadPhotoOptions {
   onProgress?: (p: number) => void;
   context?: Record<string, string | number | boolean>;
   originalFile?: File;
+  signal?: AbortSignal;
+  // Reuse a key to make replays of the same photo (e.g. from the offline queue) collapse server-side
+  idempotencyKey?: string;
+  // Who took the photo; defaults to whoever is signed in, which for a replayed photo may be someone else
+  inspector?: Inspector;
+}
+
+export interface OcrRequestOptions {
+  compress?: boolean;
+  compressionOptions?: ImageCompressionOptions;
+  onProgress?: (stage: 'validating' | 'compressing' | 'uploading' | 'processing') => void;
+  // Fraction (0-1) of the image bytes sent so far
+  onUploadProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
 }
 
-async function j<T>(url: string, init?: RequestInit): Promise<T> {
-  const initialHeaders: HeadersInit | undefined = init?.headers;
-  const headers = new Headers(initialHeaders);
-  if (API_KEY) headers.set('X-Api-Key', API_KEY);
+// Abort an upload when no bytes have moved for this long; slow links keep going as long as they progress
+const UPLOAD_STALL_TIMEOUT_MS = 30000;
 
-  const response = await fetch(url, { ...init, headers });
-  if (!response.ok) {
-    const contentType = response.headers.get('content-type') ?? '';
-    let message = `${response.status} ${response.statusText}`;
+let refreshing: Promise<AuthSession | null> | null = null;
+
+function sessionFromTokens(tokens: AuthTokenResponse): AuthSession {
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: Date.now() + tokens.expires_in * 1000,
+    inspector: tokens.inspector,
+  };
+}
+
+// Concurrent callers share one refresh; a rejected refresh token ends the session
+export function refreshSession(): Promise<AuthSession | null> {
+  const current = getSession();
+  if (!current) return Promise.resolve(null);
+  if (refreshing) return refreshing;
+
+  refreshing = j<unknown>(`${BASE}/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refresh_token: current.refreshToken }),
+  }, { auth: false })
+    .then(decodeWith(decodeAuthTokenResponse, 'auth'))
+    .then(tokens => {
+      const next = sessionFromTokens(tokens);
+      setSession(next, 'refreshed');
+      return next;
+    })
+    .catch((error: unknown) => {
+      if (error instanceof ApiError && (error.kind === 'unauthorized' || error.kind === 'validation')) {
+        clearSession('expired');
+        return null;
+      }
+      throw error;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+
+  return refreshing;
+}
+
+async function getAccessToken(): Promise<string | null> {
+  const current = getSession();
+  if (!current) return null;
+  if (!isSessionExpiring(current)) return current.accessToken;
+  return (await refreshSession())?.accessToken ?? null;
+}
+
+// Sends a request with the inspector's bearer token, refreshing and resending once on 401
+async function sendAuthorized(
+  send: (headers: Headers) => Promise<Response>,
+  baseHeaders: HeadersInit | undefined,
+  auth: boolean
+): Promise<Response> {
+  const withToken = async () => {
+    const headers = new Headers(baseHeaders);
+    const token = auth ? await getAccessToken() : null;
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    return send(headers);
+  };
+
+  const response = await withToken();
+  if (response.status !== 401 || !auth || !getSession()) return response;
 
+  log.info('Access token rejected, refreshing session');
+  return (await refreshSession()) ? withToken() : response;
+}
+
+async function j<T>(url: string, init?: RequestInit, options: { auth?: boolean } = {}): Promise<T> {
+  const response = await sendAuthorized(async (headers) => {
     try {
-      const body = contentType.includes('application/json')
-        ? await response.json()
-        : await response.text();
-
-      if (typeof body === 'object' && body !== null && 'error' in body) {
-        const details = body as { error?: string; reasons?: unknown };
-        const reasons = Array.isArray(details.reasons) ? details.reasons.join(',') : undefined;
-        const errorText = details.error ?? response.statusText;
-        message = `${response.status} ${errorText}${reasons ? `: ${reasons}` : ''}`;
-      } else if (typeof body === 'string' && body.trim().length > 0) {
-        message = body;
+      return await fetch(url, { ...init, headers });
+    } catch (error: unknown) {
+      throw apiErrorFromFetchFailure(error, { cancelled: init?.signal?.aborted });
+    }
+  }, init?.headers, options.auth ?? true);
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse(response);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+// Resolves with the response whatever its status; rejects only when no response arrived
+function sendXhr(
+  url: string,
+  body: FormData,
+  headers: Headers,
+  signal: AbortSignal | undefined,
+  onUploadProgress: (fraction: number) => void
+): Promise<Response> {
+  return new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let stallTimer: ReturnType<typeof setTimeout> | undefined;
+    let stalled = false;
+
+    const armStallTimer = () => {
+      clearTimeout(stallTimer);
+      stallTimer = setTimeout(() => {
+        stalled = true;
+        xhr.abort();
+      }, UPLOAD_STALL_TIMEOUT_MS);
+    };
+    const onAbortSignal = () => xhr.abort();
+    const cleanup = () => {
+      clearTimeout(stallTimer);
+      signal?.removeEventListener('abort', onAbortSignal);
+    };
+
+    xhr.open('POST', url);
+    headers.forEach((value, name) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      armStallTimer();
+      if (event.lengthComputable && event.total > 0) {
+        onUploadProgress(event.loaded / event.total);
       }
-    } catch (_error) {
-      void _error;
-      /* ignore parse errors */
+    };
+    xhr.onprogress = armStallTimer;
+
+    xhr.onload = () => {
+      cleanup();
+      resolve(new Response(xhr.responseText || null, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+      }));
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new ApiNetworkError());
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(stalled ? new ApiTimeoutError(UPLOAD_STALL_TIMEOUT_MS) : new ApiAbortError());
+    };
+
+    if (signal?.aborted) {
+      cleanup();
+      reject(new ApiAbortError());
+      return;
     }
+    signal?.addEventListener('abort', onAbortSignal, { once: true });
+    armStallTimer();
+    xhr.send(body);
+  });
+}
 
-    throw new Error(message);
+// Without progress events a stall cannot be told from a slow link, so the whole request gets the stall budget
+async function postFormWithTimeout<T>(
+  url: string,
+  body: FormData,
+  signal: AbortSignal | undefined,
+  headers: Record<string, string>
+): Promise<T> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, UPLOAD_STALL_TIMEOUT_MS);
+
+  try {
+    return await j<T>(url, { method: 'POST', body, signal: controller.signal, headers });
+  } catch (error: unknown) {
+    if (timedOut && error instanceof ApiAbortError) throw new ApiTimeoutError(UPLOAD_STALL_TIMEOUT_MS, error);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
   }
+}
 
+// fetch() cannot report request-body progress, so uploads that want it go through XHR
+async function postForm<T>(
+  url: string,
+  body: FormData,
+  options: { signal?: AbortSignal; onUploadProgress?: (fraction: number) => void; headers?: Record<string, string> } = {}
+): Promise<T> {
+  const { signal, onUploadProgress, headers = {} } = options;
+  if (signal?.aborted) throw new ApiAbortError();
+  if (!onUploadProgress || typeof XMLHttpRequest === 'undefined') {
+    return postFormWithTimeout<T>(url, body, signal, headers);
+  }
+
+  const response = await sendAuthorized(
+    (authorized) => sendXhr(url, body, authorized, signal, onUploadProgress),
+    headers,
+    true
+  );
+  if (!response.ok) {
+    throw await apiErrorFromResponse(response);
+  }
   return response.json() as Promise<T>;
 }
 
+// Validates a 2xx payload so shape mismatches fail here rather than as undefined fields in the UI
+function decodeWith<T>(decoder: Decoder<T>, label: string) {
+  return (value: unknown): T => {
+    try {
+      return decoder(value, label);
+    } catch (error: unknown) {
+      if (!(error instanceof DecodeError)) throw error;
+      log.error('Unexpected response shape', { label, path: error.path, expected: error.expected });
+      throw new ApiResponseError(error.message, error);
+    }
+  };
+}
+
+function logRetry(url: string) {
+  return ({ attempt, delayMs, error }: { attempt: number; delayMs: number; error: unknown }) => {
+    log.warn('Retrying request', { url, attempt, delayMs, error: serializeError(error) });
+  };
+}
+
+export const checklistQueryKey = (vin: string) => `checklist:${vin}`;
+export const passportQueryKey = (vin: string) => `passport:${vin}`;
+
+// Any write for a VIN can change both its checklist and its passport
+function invalidateVin(vin: string) {
+  invalidateQueries(key => key === checklistQueryKey(vin) || key === passportQueryKey(vin));
+}
+
+// Writes carry one Idempotency-Key per logical operation, reused by every retry of it.
+// Cached reads for the VIN are dropped once the write settles, even on failure, since it may have landed.
+function writeJson<T>(
+  url: string,
+  body: { vin: string; [field: string]: unknown },
+  method: 'POST' | 'PATCH' = 'POST'
+): Promise<T> {
+  const idempotencyKey = createIdempotencyKey();
+  return withRetry(
+    () => j<T>(url, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+      body: JSON.stringify(body),
+    }),
+    { onRetry: logRetry(url) }
+  ).finally(() => invalidateVin(body.vin));
+}
 
 export function serverOrigin() {
   try {
@@ -189,13 +521,9 @@ export function validateImageFile(file: File): { valid: boolean; error?: string
 // Enhanced OCR function with better error handling and progress
 export async function ocrOdoFromImage(
   file: File,
-  options: {
-    compress?: boolean;
-    compressionOptions?: ImageCompressionOptions;
-    onProgress?: (stage: 'validating' | 'compressing' | 'uploading' | 'processing') => void;
-  } = {}
+  options: OcrRequestOptions = {}
 ): Promise<ocrOdoResult> {
-  const { compress = true, compressionOptions, onProgress } = options;
+  const { compress = true, compressionOptions, onProgress, onUploadProgress, signal } = options;
 
   try {
     onProgress?.('validating');
@@ -203,7 +531,7 @@ export async function ocrOdoFromImage(
     // Validate the image file
     const validation = validateImageFile(file);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw new ApiValidationError(validation.error ?? 'Invalid image file', 'invalid_image');
     }
 
     let processedFile = file;
@@ -222,55 +550,13 @@ export async function ocrOdoFromImage(
 
     const form = new FormData();
     form.append("file", processedFile);
-    const url = `${BASE}/ocr/odometer`;
-    const headers: Record<string, string> = {};
-    if (API_KEY) headers["X-Api-Key"] = API_KEY;
 
     const startTime = Date.now();
-    const res = await fetch(url, { 
-      method: "POST", 
-      headers, 
-      body: form 
-    });
-
-    if (!res.ok) {
-      let errorMessage = `OCR failed (${res.status})`;
-      
-      try {
-        const errorBody = await res.json() as OcrError;
-        
-        // Provide user-friendly error messages
-        switch (errorBody.error) {
-          case 'aws_not_configured':
-            errorMessage = 'OCR service is not configured. Please contact support.';
-            break;
-          case 'invalid_image':
-            errorMessage = 'Invalid image format or corrupted file. Please try a different photo.';
-            break;
-          case 'file_too_large':
-            errorMessage = errorBody.message || 'Image file is too large. Please use a smaller image.';
-            break;
-          case 'rate_limit_exceeded':
-            errorMessage = 'Too many requests. Please wait a moment and try again.';
-            break;
-          case 'textract_failed':
-            errorMessage = 'OCR processing failed. Please try again with a clearer photo.';
-            break;
-          default:
-            errorMessage = errorBody.message || errorMessage;
-        }
-      } catch (_error) {
-        void _error;
-        // Fallback to status text if JSON parsing fails
-        errorMessage = await res.text().catch(() => `${res.status} ${res.statusText}`);
-      }
-
-      throw new Error(errorMessage);
-    }
+    const response = await postForm<ServerOcrResponse<ocrOdoResult>>(`${BASE}/ocr/odometer`, form, { signal, onUploadProgress });
+    const result: ocrOdoResult = { ...response, regions: response.regions ?? [] };
 
     onProgress?.('processing');
 
-    const result = await res.json() as ocrOdoResult;
     const totalTime = Date.now() - startTime;
 
     log.info('Odometer OCR completed', {
@@ -294,13 +580,9 @@ export async function ocrOdoFromImage(
 // Enhanced OCR function with better error handling and progress
 export async function ocrVinFromImage(
   file: File,
-  options: {
-    compress?: boolean;
-    compressionOptions?: ImageCompressionOptions;
-    onProgress?: (stage: 'validating' | 'compressing' | 'uploading' | 'processing') => void;
-  } = {}
+  options: OcrRequestOptions = {}
 ): Promise<OcrResult> {
-  const { compress = true, compressionOptions, onProgress } = options;
+  const { compress = true, compressionOptions, onProgress, onUploadProgress, signal } = options;
 
   try {
     onProgress?.('validating');
@@ -308,7 +590,7 @@ export async function ocrVinFromImage(
     // Validate the image file
     const validation = validateImageFile(file);
     if (!validation.valid) {
-      throw new Error(validation.error);
+      throw new ApiValidationError(validation.error ?? 'Invalid image file', 'invalid_image');
     }
 
     let processedFile = file;
@@ -327,55 +609,17 @@ export async function ocrVinFromImage(
 
     const form = new FormData();
     form.append("file", processedFile);
-    const url = `${BASE}/ocr/vin`;
-    const headers: Record<string, string> = {};
-    if (API_KEY) headers["X-Api-Key"] = API_KEY;
 
     const startTime = Date.now();
-    const res = await fetch(url, { 
-      method: "POST", 
-      headers, 
-      body: form 
-    });
-
-    if (!res.ok) {
-      let errorMessage = `OCR failed (${res.status})`;
-      
-      try {
-        const errorBody = await res.json() as OcrError;
-        
-        // Provide user-friendly error messages
-        switch (errorBody.error) {
-          case 'aws_not_configured':
-            errorMessage = 'OCR service is not configured. Please contact support.';
-            break;
-          case 'invalid_image':
-            errorMessage = 'Invalid image format or corrupted file. Please try a different photo.';
-            break;
-          case 'file_too_large':
-            errorMessage = errorBody.message || 'Image file is too large. Please use a smaller image.';
-            break;
-          case 'rate_limit_exceeded':
-            errorMessage = 'Too many requests. Please wait a moment and try again.';
-            break;
-          case 'textract_failed':
-            errorMessage = 'OCR processing failed. Please try again with a clearer photo.';
-            break;
-          default:
-            errorMessage = errorBody.message || errorMessage;
-        }
-      } catch (_error) {
-        void _error;
-        // Fallback to status text if JSON parsing fails
-        errorMessage = await res.text().catch(() => `${res.status} ${res.statusText}`);
-      }
-
-      throw new Error(errorMessage);
-    }
+    const response = await postForm<ServerOcrResponse<Omit<OcrResult, 'source' | 'characters'>> & { characters?: VinCharacter[] }>(
+      `${BASE}/ocr/vin`,
+      form,
+      { signal, onUploadProgress }
+    );
+    const result: OcrResult = { ...response, regions: response.regions ?? [], characters: response.characters ?? [], source: 'server' };
 
     onProgress?.('processing');
 
-    const result = await res.json() as OcrResult;
     const totalTime = Date.now() - startTime;
 
     log.info('VIN OCR completed', {
@@ -396,6 +640,124 @@ export async function ocrVinFromImage(
   }
 }
 
+// Reads the stamped engine number from an engine-bay photo; values come back normalised
+export async function ocrEngineNumberFromImage(
+  file: File,
+  options: OcrRequestOptions = {}
+): Promise<EngineNumberOcrResult> {
+  const { compress = true, compressionOptions, onProgress, onUploadProgress, signal } = options;
+
+  try {
+    onProgress?.('validating');
+
+    const validation = validateImageFile(file);
+    if (!validation.valid) {
+      throw new ApiValidationError(validation.error ?? 'Invalid image file', 'invalid_image');
+    }
+
+    let processedFile = file;
+
+    if (compress) {
+      onProgress?.('compressing');
+      processedFile = await compressImage(file, compressionOptions);
+      log.debug('Compressed engine number image', {
+        originalSize: file.size,
+        processedSize: processedFile.size,
+      });
+    }
+
+    onProgress?.('uploading');
+
+    const form = new FormData();
+    form.append("file", processedFile);
+
+    const startTime = Date.now();
+    const result = await postForm<EngineNumberOcrResult>(`${BASE}/ocr/engine-number`, form, { signal, onUploadProgress });
+
+    onProgress?.('processing');
+
+    const engineNumber = result.engineNumber ? normalizeEngineNumber(result.engineNumber) : '';
+    const candidates = Array.from(new Set((result.candidates ?? []).map(normalizeEngineNumber).filter(Boolean)));
+
+    log.info('Engine number OCR completed', {
+      engineNumber,
+      confidence: result.confidence,
+      candidates: candidates.length,
+      processingTime: result.processingTime,
+      totalTime: Date.now() - startTime,
+      fromCache: result.fromCache,
+    });
+
+    return { ...result, engineNumber: engineNumber || null, candidates };
+
+  } catch (error: unknown) {
+    log.error('Engine number OCR failed', { error: serializeError(error) });
+    throw error;
+  }
+}
+
+// Reads the registration plate from an exterior photo. Candidates come back in printed form,
+// recognised SA formats first; plate is the best of them, or null when none is a recognised format.
+export async function ocrPlateFromImage(
+  file: File,
+  options: OcrRequestOptions = {}
+): Promise<PlateOcrResult> {
+  const { compress = true, compressionOptions, onProgress, onUploadProgress, signal } = options;
+
+  try {
+    onProgress?.('validating');
+
+    const validation = validateImageFile(file);
+    if (!validation.valid) {
+      throw new ApiValidationError(validation.error ?? 'Invalid image file', 'invalid_image');
+    }
+
+    let processedFile = file;
+
+    if (compress) {
+      onProgress?.('compressing');
+      processedFile = await compressImage(file, compressionOptions);
+      log.debug('Compressed plate image', {
+        originalSize: file.size,
+        processedSize: processedFile.size,
+      });
+    }
+
+    onProgress?.('uploading');
+
+    const form = new FormData();
+    form.append("file", processedFile);
+
+    const startTime = Date.now();
+    const result = await postForm<PlateOcrResult>(`${BASE}/ocr/plate`, form, { signal, onUploadProgress });
+
+    onProgress?.('processing');
+
+    const read = [result.plate, ...(result.candidates ?? [])].filter((value): value is string => !!value && !!normalizePlate(value));
+    const unique = Array.from(new Map(read.map(value => [normalizePlate(value), value])).values());
+    const candidates = [
+      ...unique.filter(isValidPlate).map(value => parsePlate(value)!.formatted),
+      ...unique.filter(value => !isValidPlate(value)).map(normalizePlate),
+    ];
+    const plate = unique.some(isValidPlate) ? candidates[0] : null;
+
+    log.info('Plate OCR completed', {
+      plate,
+      confidence: result.confidence,
+      candidates: candidates.length,
+      processingTime: result.processingTime,
+      totalTime: Date.now() - startTime,
+      fromCache: result.fromCache,
+    });
+
+    return { ...result, plate, candidates };
+
+  } catch (error: unknown) {
+    log.error('Plate OCR failed', { error: serializeError(error) });
+    throw error;
+  }
+}
+
 // Legacy function for backward compatibility
 export async function ocrVinServer(file: File): Promise<string | null> {
   try {
@@ -411,6 +773,54 @@ export const normalizeVin = normalizeVinInternal;
 export const formatVin = formatVinInternal;
 export const isValidVin = isValidVinInternal;
 
+export {
+  ApiError,
+  ApiAbortError,
+  ApiHttpError,
+  ApiNetworkError,
+  ApiResponseError,
+  ApiTimeoutError,
+  ApiValidationError,
+  isApiError,
+} from './api-errors';
+export type { ApiErrorKind } from './api-errors';
+export { subscribeToQuery } from './query-cache';
+export type { QueryOptions } from './query-cache';
+
+export async function login(username: string, password: string): Promise<AuthSession> {
+  if (!username.trim() || !password) throw new ApiValidationError('Enter your username and password');
+
+  const tokens = await j<unknown>(`${BASE}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: username.trim(), password }),
+  }, { auth: false }).then(decodeWith(decodeAuthTokenResponse, 'auth'));
+
+  // Cached reads belong to whoever was signed in before
+  clearQueryCache();
+  const session = sessionFromTokens(tokens);
+  setSession(session);
+  return session;
+}
+
+export async function logout(): Promise<void> {
+  const current = getSession();
+  if (!current) return;
+  try {
+    await j(`${BASE}/auth/logout`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: current.refreshToken }),
+    }, { auth: false });
+  } catch (error: unknown) {
+    // The local session ends regardless; the refresh token simply expires server-side
+    log.warn('Logout request failed', { error: serializeError(error) });
+  } finally {
+    clearQueryCache();
+    clearSession('logout');
+  }
+}
+
 // Get OCR processing statistics
 export async function getOcrMetrics() {
   return j<{
@@ -444,8 +854,19 @@ export async function getHealthStatus() {
 }
 
 // Existing functions remain unchanged
-export async function getChecklist(vin: string) {
-  return j<Checklist>(`${BASE}/intake/checklist/${encodeURIComponent(vin)}`);
+export async function getChecklist(vin: string, options?: QueryOptions): Promise<Checklist> {
+  return cachedQuery(
+    checklistQueryKey(vin),
+    () => j<unknown>(`${BASE}/intake/checklist/${encodeURIComponent(vin)}`).then(decodeWith(decodeChecklist, 'checklist')),
+    options
+  );
+}
+
+// Warms the VIN page's first reads so it joins these requests instead of starting its own;
+// a failure here is ignored and resurfaces on the real read
+export function prefetchIntake(vin: string) {
+  getChecklist(vin).catch(() => undefined);
+  getPassport(vin).catch(() => undefined);
 }
 
 export async function seedRequiredPhotos(vin: string, lotId: string, roles: ImageRole[]) {
@@ -453,7 +874,7 @@ export async function seedRequiredPhotos(vin: string, lotId: string, roles: Imag
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ vin, lot_id: lotId, required_photos: roles })
-  });
+  }).finally(() => invalidateVin(vin));
 }
 
 // Enhanced uploadPhotoDev function for src/lib/api.ts
@@ -467,22 +888,25 @@ export async function uploadPhotoDev(
 ) {
   // Validate file before upload
   if (!file || file.size === 0) {
-    throw new Error('Invalid file: No file data')
+    throw new ApiValidationError('Invalid file: No file data', 'invalid_image')
   }
 
   // PWA Camera File Validation
   if (file.size > 15 * 1024 * 1024) { // 15MB limit
-    throw new Error('File too large: Please compress the image or take a new photo')
+    throw new ApiValidationError('File too large: Please compress the image or take a new photo', 'file_too_large')
   }
 
   // Validate file type
   if (!file.type.startsWith('image/')) {
-    throw new Error('Invalid file type: Only images are allowed')
+    throw new ApiValidationError('Invalid file type: Only images are allowed', 'invalid_image')
   }
 
   let onProgress: ((p: number) => void) | undefined
   let context: Record<string, string | number | boolean> | undefined
   let originalFile: File | undefined
+  let signal: AbortSignal | undefined
+  let idempotencyKey: string | undefined
+  let inspector = getCurrentInspector()
 
   if (typeof onProgressOrOptions === 'function') {
     onProgress = onProgressOrOptions
@@ -490,6 +914,9 @@ export async function uploadPhotoDev(
     onProgress = onProgressOrOptions.onProgress
     context = onProgressOrOptions.context
     originalFile = onProgressOrOptions.originalFile
+    signal = onProgressOrOptions.signal
+    idempotencyKey = onProgressOrOptions.idempotencyKey
+    inspector = onProgressOrOptions.inspector ?? inspector
   }
 
   const form = new FormData()
@@ -504,138 +931,286 @@ export async function uploadPhotoDev(
       form.append(`meta_${key}`, String(value))
     }
   }
+  if (inspector) {
+    form.append('inspector_id', inspector.id)
+    form.append('inspector_name', inspector.name)
+  }
 
-  const headers: Record<string, string> = {}
-  if (API_KEY) headers['X-Api-Key'] = API_KEY
-
-  // Enhanced fetch with better error handling for PWA
   try {
-    onProgress?.(10) // Starting upload
+    onProgress?.(0) // Starting upload
 
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
-
-    const response = await fetch(`${BASE}/intake/photos/upload`, { 
-      method: 'POST', 
-      headers, 
-      body: form,
-      signal: controller.signal
-    })
-
-    clearTimeout(timeoutId)
-    onProgress?.(90) // Upload complete, processing
-
-    if (!response.ok) {
-      let errorMessage = `Upload failed (${response.status})`
-      
-      try {
-        const errorText = await response.text()
-        if (errorText) {
-          // Try to parse JSON error
-          try {
-            const parsed: unknown = JSON.parse(errorText)
-            if (typeof parsed === 'object' && parsed !== null) {
-              const parsedError = parsed as { error?: string; message?: string }
-              errorMessage = parsedError.error ?? parsedError.message ?? errorMessage
-            } else {
-              errorMessage = errorText
-            }
-          } catch (_error) {
-            void _error;
-            // Use raw text if not JSON
-            errorMessage = errorText
-          }
-        }
-      } catch (_error) {
-        void _error;
-        // Use status-based error message
-        if (response.status === 413) {
-          errorMessage = 'Photo is too large. Please try taking a smaller photo.'
-        } else if (response.status === 415) {
-          errorMessage = 'Photo format not supported. Please try again.'
-        } else if (response.status >= 500) {
-          errorMessage = 'Server error. Please try again in a moment.'
-        }
-      }
+    const url = `${BASE}/intake/photos/upload`
+    const headers = { 'Idempotency-Key': idempotencyKey ?? createIdempotencyKey() }
 
-      throw new Error(errorMessage)
-    }
+    // Bytes on the wire map to 0-90; the rest is the server storing the photo
+    const result = await withRetry(
+      () => postForm(url, form, {
+        signal,
+        headers,
+        onUploadProgress: onProgress && (fraction => onProgress(Math.round(fraction * 90))),
+      }),
+      { signal, onRetry: logRetry(url) }
+    )
 
-    const result = await response.json()
     onProgress?.(100) // Complete
 
     return result
 
   } catch (error: unknown) {
+    if (error instanceof ApiAbortError) {
+      log.info('Photo upload cancelled', { vin, role })
+      throw error
+    }
     log.error('Photo upload failed', {
       error: serializeError(error),
       vin,
       role,
       fileSize: file.size,
     });
+    throw error
+  } finally {
+    invalidateVin(vin)
+  }
+}
 
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new Error('Upload timed out. Please check your connection and try again.')
-      }
+export async function getPassport(vin: string, options?: QueryOptions): Promise<Passport> {
+  return cachedQuery(
+    passportQueryKey(vin),
+    () => j<unknown>(`${BASE}/passports/${encodeURIComponent(vin)}`).then(decodeWith(decodePassport, 'passport')),
+    options
+  );
+}
 
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        throw new Error('Network error. Please check your connection and try again.')
-      }
+// EventSource cannot send headers, and a bearer token in the URL would end up in proxy and server logs, so
+// each connection is opened with a short-lived, single-use ticket issued against the token instead
+async function streamTicket(vin: string): Promise<string | null> {
+  if (!getSession()) return null;
+  const response = await j<unknown>(
+    `${BASE}/passports/${encodeURIComponent(vin)}/events/ticket`,
+    { method: 'POST' }
+  ).then(decodeWith(decodeStreamTicketResponse, 'stream ticket'));
+  return response.ticket;
+}
 
-      if (error.name === 'TypeError' && error.message.includes('NetworkError')) {
-        throw new Error('Network connection failed. Please try again.')
-      }
+export type PassportEvent =
+  | { type: 'checklist'; checklist: Checklist }
+  | { type: 'passport'; passport: Passport };
+
+export type PassportStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface PassportSubscriptionOptions {
+  onStatus?: (status: PassportStreamStatus) => void;
+  policy?: RetryPolicy;
+}
+
+// Streams never give up; attempts only grow the backoff until the next successful open
+const STREAM_RECONNECT_POLICY: RetryPolicy = {
+  maxAttempts: Infinity,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 0,
+};
+
+// Live checklist/passport changes made by anyone working the same VIN. Updates are written into the
+// query cache as well, so every cached reader sees them. Returns an unsubscribe function.
+export function subscribeToPassport(
+  vin: string,
+  handler: (event: PassportEvent) => void,
+  options: PassportSubscriptionOptions = {}
+): () => void {
+  if (typeof EventSource === 'undefined') {
+    log.warn('Live updates unavailable: EventSource is not supported', { vin });
+    return () => undefined;
+  }
+
+  const policy = options.policy ?? STREAM_RECONNECT_POLICY;
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let hasOpened = false;
+  let closed = false;
+
+  function receive<T>(message: MessageEvent, decoder: Decoder<T>, key: string, toEvent: (value: T) => PassportEvent) {
+    let value: T;
+    try {
+      value = decodeWith(decoder, `${message.type} event`)(JSON.parse(String(message.data)));
+    } catch (error: unknown) {
+      log.warn('Ignoring malformed passport event', { vin, type: message.type, error: serializeError(error) });
+      return;
     }
+    setQueryData(key, value);
+    handler(toEvent(value));
+  }
 
-    // Re-throw with original message if it's already a handled error
-    throw error
+  // Changes made while disconnected are not replayed, so a reconnect re-reads both resources
+  function resync() {
+    getChecklist(vin, { fresh: true }).catch(error => log.warn('Resync after reconnect failed', { vin, error: serializeError(error) }));
+    getPassport(vin, { fresh: true }).catch(error => log.warn('Resync after reconnect failed', { vin, error: serializeError(error) }));
+  }
+
+  function scheduleReconnect() {
+    attempt++;
+    const delayMs = backoffDelay(attempt, policy);
+    log.info('Passport stream disconnected; reconnecting', { vin, attempt, delayMs });
+    options.onStatus?.('reconnecting');
+    reconnectTimer = setTimeout(() => { void connect(); }, delayMs);
+  }
+
+  async function connect() {
+    options.onStatus?.(hasOpened ? 'reconnecting' : 'connecting');
+    let ticket: string | null;
+    try {
+      ticket = await streamTicket(vin);
+    } catch (error: unknown) {
+      if (closed) return;
+      log.warn('Could not get a passport stream ticket', { vin, error: serializeError(error) });
+      scheduleReconnect();
+      return;
+    }
+    if (closed) return;
+
+    const url = `${BASE}/passports/${encodeURIComponent(vin)}/events${ticket ? `?ticket=${encodeURIComponent(ticket)}` : ''}`;
+    const stream = new EventSource(url);
+    source = stream;
+
+    stream.onopen = () => {
+      if (hasOpened) resync();
+      hasOpened = true;
+      attempt = 0;
+      options.onStatus?.('open');
+    };
+    // Reconnection is handled here rather than by the browser so each attempt picks up a fresh ticket
+    stream.onerror = () => {
+      stream.close();
+      if (closed || source !== stream) return;
+      source = null;
+      scheduleReconnect();
+    };
+    stream.addEventListener('checklist', message => {
+      receive(message, decodeChecklist, checklistQueryKey(vin), checklist => ({ type: 'checklist', checklist }));
+    });
+    stream.addEventListener('passport', message => {
+      receive(message, decodePassport, passportQueryKey(vin), passport => ({ type: 'passport', passport }));
+    });
   }
-}
 
-export async function getPassport(vin: string) {
-  return j(`${BASE}/passports/${encodeURIComponent(vin)}`);
+  void connect();
+
+  return () => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(reconnectTimer);
+    source?.close();
+    source = null;
+    options.onStatus?.('closed');
+  };
 }
 
-export async function sealStrict(vin: string, opts?: { force?: boolean }) {
+export async function sealStrict(vin: string, opts?: { force?: boolean }): Promise<SealResponse> {
   const url = `${BASE}/passports/seal/strict${opts?.force ? '?force=1' : ''}`;
-  return j(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ vin }),
-  });
+  const inspector = getCurrentInspector();
+  return writeJson<unknown>(url, {
+    vin,
+    ...(inspector ? { inspector: { id: inspector.id, name: inspector.name } } : {}),
+  }).then(decodeWith(decodeSealResponse, 'seal'));
+}
+
+export interface InitDraftOptions {
+  // Identify the vehicle by a chassis number that is not a 17-character VIN; `vin` is then used exactly as read
+  nonStandardChassis?: { justification: string };
+  vehicle?: VehicleDetails;
+  // Present when the licence disc was scanned; the server keeps it for later cross-checks
+  licenceDisc?: LicenceDiscRecord;
 }
 
-export async function initDraft(vin: string, lotId: string, roles?: ImageRole[]) {
+export async function initDraft(
+  vin: string,
+  lotId: string,
+  roles?: ImageRole[],
+  options: InitDraftOptions = {}
+): Promise<InitDraftResponse> {
+  const chassis = options.nonStandardChassis;
+  if (chassis) {
+    if (!vin.trim()) throw new ApiValidationError('Chassis number required');
+    if (!chassis.justification.trim()) {
+      throw new ApiValidationError('Explain why this vehicle has no standard VIN');
+    }
+  }
+
+  // A non-standard chassis always needs a photo of its plate, since nothing else can vouch for the number
+  const requiredPhotos = chassis ? Array.from(new Set<ImageRole>([...(roles ?? []), 'chassis_plate'])) : roles;
   const body = {
     vin,
     lot_id: lotId,
-    ...(roles?.length ? { required_photos: roles } : {}),
+    ...(requiredPhotos?.length ? { required_photos: requiredPhotos } : {}),
+    ...(chassis
+      ? {
+          identification: {
+            type: 'non_standard_chassis',
+            raw_chassis: vin,
+            justification: chassis.justification.trim(),
+            checksum_enforced: false,
+          } satisfies ChassisIdentification,
+        }
+      : {}),
+    ...(options.vehicle && Object.values(options.vehicle).some(Boolean) ? { vehicle: options.vehicle } : {}),
+    ...(options.licenceDisc ? { licence_disc: options.licenceDisc } : {}),
   };
 
-  return j(`${BASE}/intake/init`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  });
+  return writeJson<unknown>(`${BASE}/intake/init`, body)
+    .then(decodeWith(decodeInitDraftResponse, 'initDraft'));
 }
 
+const validTyreDepth = (val: number | null) => val === null || (typeof val === 'number' && val >= 0 && val <= 12);
+
+// Saves several draft fields in one atomic request and returns the resulting checklist
+export async function patchDraft(vin: string, patch: DraftPatch): Promise<PatchDraftResponse> {
+  if (!vin) throw new ApiValidationError('VIN required');
+  if (!patch.dekra && !patch.odometer && !patch.tyres_mm && patch.notes === undefined && !patch.vehicle) {
+    throw new ApiValidationError('Nothing to save');
+  }
+  if (patch.dekra && !/^https:\/\//i.test(patch.dekra.url)) {
+    throw new ApiValidationError('Please enter a valid https:// DEKRA link');
+  }
+  if (patch.odometer && (!Number.isFinite(patch.odometer.km) || patch.odometer.km < 0)) {
+    throw new ApiValidationError('Enter a valid odometer (km)');
+  }
+  if (patch.tyres_mm && !Object.values(patch.tyres_mm).every(validTyreDepth)) {
+    throw new ApiValidationError('Invalid tyre measurements (must be 0-12mm or null)');
+  }
+  const engineNumber = patch.vehicle?.engine_number;
+  if (engineNumber !== undefined && !normalizeEngineNumber(engineNumber)) {
+    throw new ApiValidationError('Enter a valid engine number');
+  }
+  if (patch.vehicle?.registration !== undefined && !normalizePlate(patch.vehicle.registration)) {
+    throw new ApiValidationError('Enter a valid registration number');
+  }
+
+  const body = {
+    ...patch,
+    ...(patch.odometer ? { odometer: { ...patch.odometer, km: Math.floor(patch.odometer.km) } } : {}),
+    ...(patch.vehicle && engineNumber !== undefined
+      ? { vehicle: { ...patch.vehicle, engine_number: normalizeEngineNumber(engineNumber) } }
+      : {}),
+  };
+
+  const result = await writeJson<unknown>(`${BASE}/intake/draft/${encodeURIComponent(vin)}`, { vin, ...body }, 'PATCH')
+    .then(decodeWith(decodePatchDraftResponse, 'patchDraft'));
+
+  // The write invalidated this VIN; the returned checklist is already current
+  setQueryData(checklistQueryKey(vin), result.checklist);
+  return result;
+}
+
+// Prefer patchDraft when saving more than one field
 export async function setDekraUrl(vin: string, dekraUrl: string) {
-  if (!/^https:\/\//i.test(dekraUrl)) throw new Error('Please enter a valid https:// DEKRA link');
-  return j(`${BASE}/intake/init`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ vin, dekra_url: dekraUrl }),
-  });
+  if (!/^https:\/\//i.test(dekraUrl)) throw new ApiValidationError('Please enter a valid https:// DEKRA link');
+  return writeJson(`${BASE}/intake/init`, { vin, dekra_url: dekraUrl });
 }
 
 export async function setOdometer(vin: string, km: number, source: 'manual' | 'dekra' = 'manual') {
-  if (!Number.isFinite(km) || km < 0) throw new Error('Enter a valid odometer (km)');
-  return j(`${BASE}/intake/init`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ vin, odometer_km: Math.floor(km), odometer_source: source }),
-  });
+  if (!Number.isFinite(km) || km < 0) throw new ApiValidationError('Enter a valid odometer (km)');
+  return writeJson(`${BASE}/intake/init`, { vin, odometer_km: Math.floor(km), odometer_source: source });
 }
 
 export async function setTyreDepths(vin: string, depths: {
@@ -644,22 +1219,12 @@ export async function setTyreDepths(vin: string, depths: {
   rl: number | null;
   rr: number | null;
 }) {
-  if (!vin) throw new Error('VIN required');
+  if (!vin) throw new ApiValidationError('VIN required');
   
   // Validate measurements
-  const validDepth = (val: number | null) => val === null || (typeof val === 'number' && val >= 0 && val <= 12);
-  if (!validDepth(depths.fl) || !validDepth(depths.fr) || !validDepth(depths.rl) || !validDepth(depths.rr)) {
-    throw new Error('Invalid tyre measurements (must be 0-12mm or null)');
+  if (!validTyreDepth(depths.fl) || !validTyreDepth(depths.fr) || !validTyreDepth(depths.rl) || !validTyreDepth(depths.rr)) {
+    throw new ApiValidationError('Invalid tyre measurements (must be 0-12mm or null)');
   }
 
-  return j(`${BASE}/intake/tyres`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ vin, tyres_mm: depths }),
-  });
+  return writeJson(`${BASE}/intake/tyres`, { vin, tyres_mm: depths });
 }
-
-
-
-
-
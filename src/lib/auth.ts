@@ -0,0 +1,101 @@
+// src/lib/auth.ts
+// Inspector session store: holds the bearer/refresh token pair and who is signed in
+import { logger } from './logger';
+
+const log = logger.withContext({ scope: 'auth' });
+
+const STORAGE_KEY = 'wb-intake.session';
+
+// Refresh this long before the access token actually expires so requests never race the deadline
+const EXPIRY_MARGIN_MS = 30000;
+
+export interface Inspector {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds
+  expiresAt: number;
+  inspector: Inspector;
+}
+
+export type AuthEvent =
+  | { type: 'signed_in'; session: AuthSession }
+  | { type: 'refreshed'; session: AuthSession }
+  | { type: 'signed_out'; reason: 'logout' | 'expired' };
+
+type Listener = (event: AuthEvent) => void;
+
+const listeners = new Set<Listener>();
+
+function readStoredSession(): AuthSession | null {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<AuthSession>;
+    if (typeof parsed.accessToken !== 'string' || typeof parsed.refreshToken !== 'string' || !parsed.inspector) {
+      return null;
+    }
+    return parsed as AuthSession;
+  } catch (_error) {
+    void _error;
+    return null;
+  }
+}
+
+function writeStoredSession(value: AuthSession | null) {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    if (value) localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (_error) {
+    void _error;
+  }
+}
+
+let session: AuthSession | null = readStoredSession();
+
+function emit(event: AuthEvent) {
+  for (const listener of listeners) {
+    listener(event);
+  }
+}
+
+export function getSession(): AuthSession | null {
+  return session;
+}
+
+export function getCurrentInspector(): Inspector | null {
+  return session?.inspector ?? null;
+}
+
+export function isSessionExpiring(value: AuthSession, now = Date.now()): boolean {
+  return value.expiresAt - EXPIRY_MARGIN_MS <= now;
+}
+
+export function setSession(next: AuthSession, reason: 'signed_in' | 'refreshed' = 'signed_in') {
+  session = next;
+  writeStoredSession(next);
+  if (reason === 'signed_in') log.info('Inspector signed in', { inspectorId: next.inspector.id });
+  emit({ type: reason, session: next });
+}
+
+export function clearSession(reason: 'logout' | 'expired' = 'logout') {
+  if (!session) return;
+  const inspectorId = session.inspector.id;
+  session = null;
+  writeStoredSession(null);
+  log.info('Inspector signed out', { inspectorId, reason });
+  emit({ type: 'signed_out', reason });
+}
+
+export function subscribeToAuth(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
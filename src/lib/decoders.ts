@@ -0,0 +1,311 @@
+// src/lib/decoders.ts
+// Runtime decoders for backend payloads; a mismatch throws DecodeError with the path of the offending field
+
+import type {
+  AuthTokenResponse,
+  ChassisIdentification,
+  Checklist,
+  DekraInfo,
+  ImageRole,
+  InitDraftResponse,
+  LicenceDiscRecord,
+  OdometerInfo,
+  OdometerOcrMetadata,
+  Passport,
+  PassportDraft,
+  PassportImage,
+  PatchDraftResponse,
+  SealMetadata,
+  SealResponse,
+  SealedPassport,
+  StreamTicketResponse,
+  VehicleDetails,
+  TyreDepthsMm,
+} from '../types';
+
+export class DecodeError extends Error {
+  readonly path: string;
+  readonly expected: string;
+
+  constructor(path: string, expected: string, actual: unknown) {
+    super(`${path}: expected ${expected}, got ${describe(actual)}`);
+    this.name = 'DecodeError';
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+const IMAGE_ROLES: readonly ImageRole[] = [
+  'exterior_front_34', 'exterior_rear_34', 'left_side', 'right_side',
+  'interior_front', 'interior_rear', 'dash_odo', 'engine_bay',
+  'tyre_fl', 'tyre_fr', 'tyre_rl', 'tyre_rr', 'chassis_plate',
+];
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function record(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new DecodeError(path, 'object', value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new DecodeError(path, 'string', value);
+  return value;
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new DecodeError(path, 'number', value);
+  return value;
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') throw new DecodeError(path, 'boolean', value);
+  return value;
+}
+
+function oneOf<T extends string>(options: readonly T[]): Decoder<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      throw new DecodeError(path, options.map(option => `'${option}'`).join(' | '), value);
+    }
+    return value as T;
+  };
+}
+
+function array<T>(item: Decoder<T>): Decoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new DecodeError(path, 'array', value);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+// Absent or null fields decode to null
+function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path) => (value === undefined || value === null ? null : decoder(value, path));
+}
+
+// Absent fields stay absent; null is treated as absent
+function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : decoder(value, path));
+}
+
+const imageRole = oneOf(IMAGE_ROLES);
+
+const passportImage: Decoder<PassportImage> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    role: imageRole(raw.role, `${path}.role`),
+    url: optional(string)(raw.url, `${path}.url`),
+    object_key: optional(string)(raw.object_key, `${path}.object_key`),
+    captured_ts: optional(string)(raw.captured_ts, `${path}.captured_ts`),
+  };
+};
+
+const tyreDepths: Decoder<TyreDepthsMm> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    fl: nullable(number)(raw.fl, `${path}.fl`),
+    fr: nullable(number)(raw.fr, `${path}.fr`),
+    rl: nullable(number)(raw.rl, `${path}.rl`),
+    rr: nullable(number)(raw.rr, `${path}.rr`),
+  };
+};
+
+const dekraInfo: Decoder<DekraInfo> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    url: nullable(string)(raw.url, `${path}.url`),
+    inspection_ts: nullable(string)(raw.inspection_ts, `${path}.inspection_ts`),
+    site: nullable(string)(raw.site, `${path}.site`),
+  };
+};
+
+const odometerOcrMetadata: Decoder<OdometerOcrMetadata> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    confidence: number(raw.confidence, `${path}.confidence`),
+    raw_text: optional(string)(raw.raw_text, `${path}.raw_text`),
+    extracted_km: nullable(number)(raw.extracted_km, `${path}.extracted_km`),
+    adjusted: optional(boolean)(raw.adjusted, `${path}.adjusted`),
+    adjustment_reason: optional(string)(raw.adjustment_reason, `${path}.adjustment_reason`),
+  };
+};
+
+const odometerInfo: Decoder<OdometerInfo> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    km: nullable(number)(raw.km, `${path}.km`),
+    source: nullable(oneOf(['manual', 'dekra', 'ocr'] as const))(raw.source, `${path}.source`),
+    ocr: optional(odometerOcrMetadata)(raw.ocr, `${path}.ocr`),
+  };
+};
+
+const sealMetadata: Decoder<SealMetadata> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    sealed_ts: string(raw.sealed_ts, `${path}.sealed_ts`),
+    hash: optional(string)(raw.hash, `${path}.hash`),
+    signature: optional(string)(raw.signature, `${path}.signature`),
+    key_id: optional(string)(raw.key_id, `${path}.key_id`),
+  };
+};
+
+const chassisIdentification: Decoder<ChassisIdentification> = (value, path) => {
+  const raw = record(value, path);
+  const type = oneOf(['vin', 'non_standard_chassis'] as const)(raw.type, `${path}.type`);
+  if (type === 'vin') return { type };
+  return {
+    type,
+    raw_chassis: string(raw.raw_chassis, `${path}.raw_chassis`),
+    justification: string(raw.justification, `${path}.justification`),
+    checksum_enforced: false,
+  };
+};
+
+const vehicleDetails: Decoder<VehicleDetails> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    registration: optional(string)(raw.registration, `${path}.registration`),
+    engine_number: optional(string)(raw.engine_number, `${path}.engine_number`),
+    engine_number_source: optional(oneOf(['manual', 'ocr', 'licence_disc'] as const))(
+      raw.engine_number_source,
+      `${path}.engine_number_source`
+    ),
+    description: optional(string)(raw.description, `${path}.description`),
+  };
+};
+
+const licenceDiscRecord: Decoder<LicenceDiscRecord> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    disc_number: string(raw.disc_number, `${path}.disc_number`),
+    registration: string(raw.registration, `${path}.registration`),
+    vehicle_register_number: string(raw.vehicle_register_number, `${path}.vehicle_register_number`),
+    description: string(raw.description, `${path}.description`),
+    make: string(raw.make, `${path}.make`),
+    model: string(raw.model, `${path}.model`),
+    colour: string(raw.colour, `${path}.colour`),
+    vin: string(raw.vin, `${path}.vin`),
+    engine_number: string(raw.engine_number, `${path}.engine_number`),
+    expiry: nullable(string)(raw.expiry, `${path}.expiry`),
+  };
+};
+
+function draftFields(raw: Record<string, unknown>, path: string): PassportDraft {
+  const images = raw.images === undefined || raw.images === null
+    ? { items: [] }
+    : { items: array(passportImage)(record(raw.images, `${path}.images`).items ?? [], `${path}.images.items`) };
+
+  return {
+    vin: optional(string)(raw.vin, `${path}.vin`),
+    lot_id: optional(string)(raw.lot_id, `${path}.lot_id`),
+    images,
+    tyres_mm: nullable(tyreDepths)(raw.tyres_mm, `${path}.tyres_mm`),
+    dekra: nullable(dekraInfo)(raw.dekra, `${path}.dekra`),
+    odometer: nullable(odometerInfo)(raw.odometer, `${path}.odometer`),
+    notes: optional(string)(raw.notes, `${path}.notes`),
+    identification: optional(chassisIdentification)(raw.identification, `${path}.identification`),
+    vehicle: optional(vehicleDetails)(raw.vehicle, `${path}.vehicle`),
+    licence_disc: optional(licenceDiscRecord)(raw.licence_disc, `${path}.licence_disc`),
+    updated_ts: optional(string)(raw.updated_ts, `${path}.updated_ts`),
+  };
+}
+
+const passportDraft: Decoder<PassportDraft> = (value, path) => draftFields(record(value, path), path);
+
+const sealedPassport: Decoder<SealedPassport> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    ...draftFields(raw, path),
+    seal: nullable(sealMetadata)(raw.seal, `${path}.seal`),
+  };
+};
+
+export const decodePassport: Decoder<Passport> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    vin: string(raw.vin, `${path}.vin`),
+    draft: nullable(passportDraft)(raw.draft, `${path}.draft`),
+    sealed: nullable(sealedPassport)(raw.sealed, `${path}.sealed`),
+  };
+};
+
+export const decodeChecklist: Decoder<Checklist> = (value, path) => {
+  const raw = record(value, path);
+  const summary = record(raw.checklist, `${path}.checklist`);
+  const inner = `${path}.checklist`;
+  return {
+    vin: string(raw.vin, `${path}.vin`),
+    lot_id: optional(string)(raw.lot_id, `${path}.lot_id`),
+    checklist: {
+      hasDekra: boolean(summary.hasDekra, `${inner}.hasDekra`),
+      hasOdo: boolean(summary.hasOdo, `${inner}.hasOdo`),
+      photosOk: boolean(summary.photosOk, `${inner}.photosOk`),
+      // Older backends omit the DTC summary
+      dtcStatus: summary.dtcStatus === undefined
+        ? 'n/a'
+        : oneOf(['green', 'amber', 'red', 'n/a'] as const)(summary.dtcStatus, `${inner}.dtcStatus`),
+      requiredCount: number(summary.requiredCount, `${inner}.requiredCount`),
+      presentCount: number(summary.presentCount, `${inner}.presentCount`),
+      missing: array(imageRole)(summary.missing, `${inner}.missing`),
+    },
+    ready: boolean(raw.ready, `${path}.ready`),
+  };
+};
+
+export const decodePatchDraftResponse: Decoder<PatchDraftResponse> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    ok: boolean(raw.ok, `${path}.ok`),
+    checklist: decodeChecklist(raw.checklist, `${path}.checklist`),
+    draft: optional(passportDraft)(raw.draft, `${path}.draft`),
+  };
+};
+
+export const decodeInitDraftResponse: Decoder<InitDraftResponse> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    ok: boolean(raw.ok, `${path}.ok`),
+    vin: optional(string)(raw.vin, `${path}.vin`),
+    draft: optional(passportDraft)(raw.draft, `${path}.draft`),
+  };
+};
+
+export const decodeSealResponse: Decoder<SealResponse> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    ok: boolean(raw.ok, `${path}.ok`),
+    sealed: optional(sealedPassport)(raw.sealed, `${path}.sealed`),
+  };
+};
+
+export const decodeStreamTicketResponse: Decoder<StreamTicketResponse> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    ticket: string(raw.ticket, `${path}.ticket`),
+    expires_in: number(raw.expires_in, `${path}.expires_in`),
+  };
+};
+
+export const decodeAuthTokenResponse: Decoder<AuthTokenResponse> = (value, path) => {
+  const raw = record(value, path);
+  const inspector = record(raw.inspector, `${path}.inspector`);
+  return {
+    access_token: string(raw.access_token, `${path}.access_token`),
+    refresh_token: string(raw.refresh_token, `${path}.refresh_token`),
+    expires_in: number(raw.expires_in, `${path}.expires_in`),
+    inspector: {
+      id: string(inspector.id, `${path}.inspector.id`),
+      name: string(inspector.name, `${path}.inspector.name`),
+      email: optional(string)(inspector.email, `${path}.inspector.email`),
+    },
+  };
+};
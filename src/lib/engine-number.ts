@@ -0,0 +1,68 @@
+// src/lib/engine-number.ts
+// Engine number cleanup and the cross-check against identity documents captured at intake
+import type { PassportDraft } from '../types';
+
+export const ENGINE_NUMBER_MAX_LENGTH = 20;
+
+// "ENGINE NO: CBZ 123456", "ENG. NR 2GD1234567", "MOTOR: ..."; a bare "ENG" prefix is left alone
+const LABEL_PATTERN = /\b(?:ENGINE|ENG|MOTOR)\.?\s*(?:(?:NUMBER|NO|NR)\.?\s*:?|:)\s*([A-Z0-9][A-Z0-9 ./-]*)/;
+
+// Stamped and OCR'd engine numbers mix these freely, so they never count as a difference
+const LOOKALIKES: Record<string, string> = { O: '0', Q: '0', I: '1' };
+
+export function normalizeEngineNumber(raw: string): string {
+  let upper = (raw || '').toUpperCase();
+
+  const labelled = upper.match(LABEL_PATTERN);
+  if (labelled?.[1]) upper = labelled[1];
+
+  // Unlike VINs, engine numbers may legitimately contain I, O and Q
+  upper = upper.replace(/[^A-Z0-9]/g, '');
+
+  return upper.slice(0, ENGINE_NUMBER_MAX_LENGTH);
+}
+
+function comparable(value: string): string {
+  return normalizeEngineNumber(value).replace(/[OQI]/g, c => LOOKALIKES[c]);
+}
+
+export function engineNumbersMatch(a: string, b: string): boolean {
+  return comparable(a) === comparable(b);
+}
+
+// A document the engine number can be checked against
+export interface EngineNumberReference {
+  label: string;
+  engineNumber: string;
+}
+
+export interface EngineNumberMismatch {
+  label: string;
+  expected: string;
+  actual: string;
+}
+
+export function engineNumberReferences(draft: PassportDraft | null | undefined): EngineNumberReference[] {
+  const references: EngineNumberReference[] = [];
+  if (draft?.licence_disc?.engine_number) {
+    references.push({ label: 'licence disc', engineNumber: draft.licence_disc.engine_number });
+  }
+  return references;
+}
+
+// Empty values on either side are not a mismatch; there is nothing to compare yet
+export function crossCheckEngineNumber(
+  engineNumber: string,
+  references: EngineNumberReference[]
+): EngineNumberMismatch[] {
+  const actual = normalizeEngineNumber(engineNumber);
+  if (!actual) return [];
+
+  return references
+    .filter(reference => normalizeEngineNumber(reference.engineNumber) && !engineNumbersMatch(actual, reference.engineNumber))
+    .map(reference => ({
+      label: reference.label,
+      expected: normalizeEngineNumber(reference.engineNumber),
+      actual,
+    }));
+}
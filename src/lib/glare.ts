@@ -0,0 +1,87 @@
+// src/lib/glare.ts
+// Finds blown-out reflections in a photo and measures how much of the text they cover
+import { resize } from './image-pipeline';
+import type { Bounds } from './text-region';
+
+export interface GlareReport {
+  // Share of the text area lost under glare (0-100)
+  score: number;
+  // Share of the whole photo under glare (0-100)
+  area: number;
+  blobs: number;
+}
+
+// Detection runs on a small copy; the text bounds are scaled down to match
+const ANALYSIS_SIZE = 320;
+// Every channel this bright is clipped white; coloured lights and displays stay below it in at least one
+const CLIPPED_LEVEL = 245;
+// Specks smaller than this share of the photo are shiny edges or white print, not glare
+const MIN_BLOB_AREA = 0.0015;
+// Clipping across more than this share is overexposure, which the brightness check reports
+const MAX_BLOB_AREA = 0.4;
+
+export function detectGlare(image: ImageData, text: Bounds): GlareReport {
+  const small = resize(image, ANALYSIS_SIZE);
+  const { width, height, data } = small;
+  const total = width * height;
+
+  const clipped = new Uint8Array(total);
+  for (let i = 0; i < total; i++) {
+    clipped[i] = Math.min(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) >= CLIPPED_LEVEL ? 1 : 0;
+  }
+
+  const scaleX = width / image.width;
+  const scaleY = height / image.height;
+  const textX0 = Math.floor(text.x * scaleX);
+  const textY0 = Math.floor(text.y * scaleY);
+  const textX1 = Math.max(textX0 + 1, Math.ceil((text.x + text.width) * scaleX));
+  const textY1 = Math.max(textY0 + 1, Math.ceil((text.y + text.height) * scaleY));
+  const inText = (x: number, y: number) => x >= textX0 && x < textX1 && y >= textY0 && y < textY1;
+
+  // 8-connected blobs of clipped pixels
+  const seen = new Uint8Array(total);
+  const stack = new Int32Array(total);
+  let glarePixels = 0;
+  let overText = 0;
+  let blobs = 0;
+  for (let start = 0; start < total; start++) {
+    if (seen[start] || !clipped[start]) continue;
+
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    let size = 0;
+    let covering = 0;
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      size++;
+      if (inText(x, y)) covering++;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const next = ny * width + nx;
+          if (!seen[next] && clipped[next]) {
+            seen[next] = 1;
+            stack[top++] = next;
+          }
+        }
+      }
+    }
+
+    if (size < total * MIN_BLOB_AREA || size > total * MAX_BLOB_AREA) continue;
+    glarePixels += size;
+    overText += covering;
+    blobs++;
+  }
+
+  const textArea = (Math.min(width, textX1) - Math.max(0, textX0)) * (Math.min(height, textY1) - Math.max(0, textY0));
+  return {
+    score: textArea > 0 ? (overText / textArea) * 100 : 0,
+    area: total ? (glarePixels / total) * 100 : 0,
+    blobs,
+  };
+}
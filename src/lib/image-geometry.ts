@@ -0,0 +1,334 @@
+// src/lib/image-geometry.ts
+// Finds the plate or disc in a photo, warps it flat and levels the text before OCR or upload
+import {
+  createImageData,
+  estimateSkew,
+  luminance,
+  otsuLevel,
+  resize,
+  rotate,
+  sampleBilinear,
+  type SkewOptions,
+} from './image-pipeline';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Clockwise from top-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface ImageTransform {
+  // Corners of the plate or disc in the original photo when it was warped flat, otherwise null
+  perspective: Quad | null;
+  // Degrees the image was then rotated clockwise to level the text
+  rotation: number;
+  applied: boolean;
+}
+
+export const NO_TRANSFORM: ImageTransform = { perspective: null, rotation: 0, applied: false };
+
+export type Triangle = [Point, Point, Point];
+
+// Canvas setTransform() arguments: x' = a·x + c·y + e, y' = b·x + d·y + f
+export type AffineMatrix = [number, number, number, number, number, number];
+
+export interface MeshTriangle {
+  // In the warped output
+  target: Triangle;
+  // Draws the photo so its matching triangle lands on `target`
+  matrix: AffineMatrix;
+}
+
+// Detection runs on a small copy; corners are scaled back to the full image
+const ANALYSIS_SIZE = 320;
+// The plate or disc has to fill at least this much of the frame to be trusted as the subject
+const MIN_QUAD_AREA = 0.12;
+// Corners further than this from square mean the shot was taken at an angle
+const MIN_KEYSTONE_DEGREES = 4;
+// Smaller tilts are left alone; resampling costs more sharpness than they cost accuracy
+const MIN_ROTATION_DEGREES = 0.5;
+// Cells per side of the triangle mesh a canvas draws a perspective warp with; each cell is near enough affine
+const MESH_DIVISIONS = 12;
+
+interface Component {
+  size: number;
+  touchesBorder: boolean;
+  corners: Quad;
+}
+
+// Connected regions of one class in the binarised image, with their extreme corners
+function components(mask: Uint8Array, width: number, height: number, value: number): Component[] {
+  const seen = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  const found: Component[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (seen[start] || mask[start] !== value) continue;
+
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    let size = 0;
+    let touchesBorder = false;
+    // Extremes of x + y and x - y give the corners of a convex blob
+    const corners: Quad = [{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }];
+    let minSum = Infinity;
+    let maxSum = -Infinity;
+    let minDiff = Infinity;
+    let maxDiff = -Infinity;
+
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      size++;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true;
+      if (x + y < minSum) { minSum = x + y; corners[0] = { x, y }; }
+      if (x - y > maxDiff) { maxDiff = x - y; corners[1] = { x, y }; }
+      if (x + y > maxSum) { maxSum = x + y; corners[2] = { x, y }; }
+      if (x - y < minDiff) { minDiff = x - y; corners[3] = { x, y }; }
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && !seen[next] && mask[next] === value) {
+          seen[next] = 1;
+          stack[top++] = next;
+        }
+      }
+    }
+
+    found.push({ size, touchesBorder, corners });
+  }
+  return found;
+}
+
+function quadArea(quad: Quad): number {
+  let twice = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    twice += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(twice) / 2;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Interior angles in degrees, or null when the quad is not convex
+function cornerAngles(quad: Quad): number[] | null {
+  const angles: number[] = [];
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const previous = quad[(i + 3) % 4];
+    const corner = quad[i];
+    const next = quad[(i + 1) % 4];
+    const ax = previous.x - corner.x;
+    const ay = previous.y - corner.y;
+    const bx = next.x - corner.x;
+    const by = next.y - corner.y;
+    const cross = ax * by - ay * bx;
+    if (cross === 0 || (sign && Math.sign(cross) !== sign)) return null;
+    sign = Math.sign(cross);
+    angles.push((Math.acos((ax * bx + ay * by) / (Math.hypot(ax, ay) * Math.hypot(bx, by))) * 180) / Math.PI);
+  }
+  return angles;
+}
+
+// The largest light or dark region that sits wholly inside the frame and fills its own corners, e.g. a
+// VIN plate against the body or a licence disc against the windscreen
+export function detectQuadrilateral(image: ImageData): Quad | null {
+  const small = resize(image, ANALYSIS_SIZE);
+  const { width, height, data } = small;
+  const level = otsuLevel(small);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) > level ? 1 : 0;
+
+  const minSize = width * height * MIN_QUAD_AREA;
+  const candidates = [...components(mask, width, height, 0), ...components(mask, width, height, 1)]
+    .filter(component => !component.touchesBorder && component.size >= minSize)
+    .filter(component => {
+      // Characters inside the plate leave holes, so the region need not fill its quad completely
+      const fill = component.size / Math.max(1, quadArea(component.corners));
+      return fill > 0.6 && fill < 1.2 && cornerAngles(component.corners) !== null;
+    })
+    .sort((a, b) => b.size - a.size);
+  if (!candidates.length) return null;
+
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  // Pixel centres, so the corners land on the outer edge of the region at full size
+  return candidates[0].corners.map(({ x, y }) => ({ x: (x + 0.5) * scaleX, y: (y + 0.5) * scaleY })) as Quad;
+}
+
+// A rectangle seen head-on, even if rotated, needs no warp; deskew handles the rotation
+export function isKeystoned(quad: Quad): boolean {
+  const angles = cornerAngles(quad);
+  return angles !== null && angles.some(angle => Math.abs(angle - 90) > MIN_KEYSTONE_DEGREES);
+}
+
+// Solves the 3x3 homography (h33 = 1) that maps each `from` point onto the matching `to` point
+function homography(from: Quad, to: Quad): number[] {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    if (Math.abs(rows[col][col]) < 1e-12) throw new Error('Degenerate quadrilateral');
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+}
+
+function project(h: number[], { x, y }: Point): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+}
+
+// The upright rectangle a quad is warped onto, sized from its longer edges
+function warpSize([topLeft, topRight, bottomRight, bottomLeft]: Quad): Size {
+  return {
+    width: Math.max(1, Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)))),
+    height: Math.max(1, Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)))),
+  };
+}
+
+const rectangle = ({ width, height }: Size): Quad => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height },
+];
+
+// Maps `quad` in the source onto an upright rectangle
+export function warpPerspective(image: ImageData, quad: Quad): ImageData {
+  const size = warpSize(quad);
+  // Output pixels are pulled from the source, so solve for the output → source direction
+  const h = homography(rectangle(size), quad);
+  const out = createImageData(size.width, size.height);
+
+  for (let y = 0; y < size.height; y++) {
+    for (let x = 0; x < size.width; x++) {
+      const source = project(h, { x: x + 0.5, y: y + 0.5 });
+      const idx = (y * size.width + x) * 4;
+      for (let c = 0; c < 4; c++) out.data[idx + c] = sampleBilinear(image, source.x - 0.5, source.y - 0.5, c);
+    }
+  }
+  return out;
+}
+
+// Flattens an angled plate or disc when one is found, then levels the text lines
+export function correctGeometry(image: ImageData, options: SkewOptions = {}): { image: ImageData; transform: ImageTransform } {
+  const quad = detectQuadrilateral(image);
+  const perspective = quad && isKeystoned(quad) ? quad : null;
+  const flat = perspective ? warpPerspective(image, perspective) : image;
+
+  const tilt = estimateSkew(resize(flat, ANALYSIS_SIZE), options);
+  const rotation = Math.abs(tilt) < MIN_ROTATION_DEGREES ? 0 : -tilt;
+  const corrected = rotation ? rotate(flat, rotation) : flat;
+
+  return {
+    image: corrected,
+    transform: { perspective, rotation, applied: perspective !== null || rotation !== 0 },
+  };
+}
+
+// Measures the correction on a small copy without applying it, with the corners scaled to `photo`; the caller
+// applies it to the full-size photo on a canvas rather than resampling every pixel in script
+export function measureGeometry(image: ImageData, photo: Size = image, options: SkewOptions = {}): ImageTransform {
+  const small = resize(image, ANALYSIS_SIZE);
+  const { transform } = correctGeometry(small, options);
+  if (!transform.perspective) return transform;
+
+  const scaleX = photo.width / small.width;
+  const scaleY = photo.height / small.height;
+  return {
+    ...transform,
+    perspective: transform.perspective.map(({ x, y }) => ({ x: x * scaleX, y: y * scaleY })) as Quad,
+  };
+}
+
+// The affine map that takes triangle `from` onto triangle `to`
+export function affineBetween(from: Triangle, to: Triangle): AffineMatrix {
+  const [s0, s1, s2] = from;
+  const [d0, d1, d2] = to;
+  const u1x = s1.x - s0.x;
+  const u1y = s1.y - s0.y;
+  const u2x = s2.x - s0.x;
+  const u2y = s2.y - s0.y;
+  const v1x = d1.x - d0.x;
+  const v1y = d1.y - d0.y;
+  const v2x = d2.x - d0.x;
+  const v2y = d2.y - d0.y;
+  const det = u1x * u2y - u2x * u1y;
+  if (Math.abs(det) < 1e-12) throw new Error('Degenerate triangle');
+
+  const a = (v1x * u2y - v2x * u1y) / det;
+  const b = (v1y * u2y - v2y * u1y) / det;
+  const c = (v2x * u1x - v1x * u2x) / det;
+  const d = (v2y * u1x - v1y * u2x) / det;
+  return [a, b, c, d, d0.x - (a * s0.x + c * s0.y), d0.y - (b * s0.x + d * s0.y)];
+}
+
+// The perspective warp of `quad` onto an upright rectangle, split into triangles small enough to draw as affine maps
+export function perspectiveMesh(quad: Quad, divisions = MESH_DIVISIONS): { size: Size; triangles: MeshTriangle[] } {
+  const size = warpSize(quad);
+  const h = homography(rectangle(size), quad);
+  const grid = (col: number, row: number): Point => ({ x: (col * size.width) / divisions, y: (row * size.height) / divisions });
+
+  const triangles: MeshTriangle[] = [];
+  for (let row = 0; row < divisions; row++) {
+    for (let col = 0; col < divisions; col++) {
+      const corners = [grid(col, row), grid(col + 1, row), grid(col + 1, row + 1), grid(col, row + 1)];
+      for (const target of [[corners[0], corners[1], corners[2]], [corners[0], corners[2], corners[3]]] as Triangle[]) {
+        const source = target.map(point => project(h, point)) as Triangle;
+        triangles.push({ target, matrix: affineBetween(source, target) });
+      }
+    }
+  }
+  return { size, triangles };
+}
+
+// Where a point in the corrected image lies in the photo it was corrected from, both in pixels
+export function toSourcePoint(point: Point, transform: ImageTransform, source: Size, corrected: Size): Point {
+  const flat = transform.perspective ? warpSize(transform.perspective) : source;
+  let { x, y } = point;
+
+  if (transform.rotation) {
+    // Inverse of rotate(): back about the centre into the flattened image
+    const radians = (transform.rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const dx = x - corrected.width / 2;
+    const dy = y - corrected.height / 2;
+    x = dx * cos + dy * sin + flat.width / 2;
+    y = -dx * sin + dy * cos + flat.height / 2;
+  }
+
+  return transform.perspective ? project(homography(rectangle(flat), transform.perspective), { x, y }) : { x, y };
+}
@@ -0,0 +1,475 @@
+// src/lib/image-pipeline.ts
+// Pure ImageData → ImageData preprocessing operators and per-target presets; no DOM needed, so they run in workers and Node
+
+export type ImageOperator = (image: ImageData) => ImageData;
+
+export type PreprocessingTarget = 'vin_plate' | 'licence_disc' | 'odometer_lcd';
+
+export interface PreprocessingPreset {
+  // Applied once to the photo before the variants
+  prepare: ImageOperator;
+  // Each variant yields one image for OCR; readers vote across them, so they should fail in different ways
+  variants: ImageOperator[];
+}
+
+export interface SauvolaOptions {
+  // Side of the square neighbourhood in pixels
+  windowSize?: number;
+  // How far below the local mean a pixel must be to count as ink
+  k?: number;
+}
+
+export interface ClaheOptions {
+  // Tiles per side
+  tiles?: number;
+  // Histogram bins are clipped at this multiple of the mean bin height
+  clipLimit?: number;
+}
+
+export interface UnsharpOptions {
+  radius?: number;
+  amount?: number;
+}
+
+export interface SkewOptions {
+  // Largest tilt considered either way, in degrees
+  maxAngle?: number;
+  step?: number;
+}
+
+// Rec. 709 luma, the weighting the capture quality metrics use
+export function luminance(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// ImageData is not defined in Node; the plain object has the same shape and is accepted everywhere we read it
+export function createImageData(width: number, height: number): ImageData {
+  if (typeof ImageData !== 'undefined') return new ImageData(width, height);
+  return { width, height, data: new Uint8ClampedArray(width * height * 4), colorSpace: 'srgb' } as ImageData;
+}
+
+function lumaOf(image: ImageData): Float32Array {
+  const { data } = image;
+  const luma = new Float32Array(image.width * image.height);
+  for (let i = 0; i < luma.length; i++) luma[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  return luma;
+}
+
+// Writes one grey value per pixel, keeping alpha
+function fromLuma(image: ImageData, value: (luma: number, index: number) => number): ImageData {
+  const luma = lumaOf(image);
+  const out = createImageData(image.width, image.height);
+  for (let i = 0; i < luma.length; i++) {
+    const grey = value(luma[i], i);
+    out.data[i * 4] = out.data[i * 4 + 1] = out.data[i * 4 + 2] = grey;
+    out.data[i * 4 + 3] = image.data[i * 4 + 3];
+  }
+  return out;
+}
+
+function mapChannels(image: ImageData, lookup: Uint8ClampedArray): ImageData {
+  const out = createImageData(image.width, image.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    out.data[i] = lookup[image.data[i]];
+    out.data[i + 1] = lookup[image.data[i + 1]];
+    out.data[i + 2] = lookup[image.data[i + 2]];
+    out.data[i + 3] = image.data[i + 3];
+  }
+  return out;
+}
+
+// Bilinear sample of one channel at fractional coordinates; outside the image reads as white
+export function sampleBilinear(image: ImageData, x: number, y: number, channel: number): number {
+  const { width, height, data } = image;
+  const at = (px: number, py: number) =>
+    px < 0 || py < 0 || px >= width || py >= height ? 255 : data[(py * width + px) * 4 + channel];
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+  const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+  const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+export function pipeline(...operators: ImageOperator[]): ImageOperator {
+  return image => operators.reduce((result, operator) => operator(result), image);
+}
+
+export function grayscale(image: ImageData): ImageData {
+  return fromLuma(image, luma => luma);
+}
+
+export function threshold(image: ImageData, level: number): ImageData {
+  return fromLuma(image, luma => (luma > level ? 255 : 0));
+}
+
+// Otsu's method: the grey level that best separates the histogram into two classes
+export function otsuLevel(image: ImageData): number {
+  const histogram = new Array<number>(256).fill(0);
+  const luma = lumaOf(image);
+  for (const value of luma) histogram[Math.round(value)]++;
+
+  const total = luma.length;
+  const weightedTotal = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let background = 0;
+  let weightedBackground = 0;
+  let best = 0;
+  let level = 127;
+
+  for (let t = 0; t < 256; t++) {
+    background += histogram[t];
+    if (!background) continue;
+    const foreground = total - background;
+    if (!foreground) break;
+    weightedBackground += t * histogram[t];
+    const meanBackground = weightedBackground / background;
+    const meanForeground = (weightedTotal - weightedBackground) / foreground;
+    const between = background * foreground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      level = t;
+    }
+  }
+  return level;
+}
+
+export function otsuThreshold(image: ImageData): ImageData {
+  return threshold(image, otsuLevel(image));
+}
+
+// Sauvola's local threshold copes with shadows and gradients across the plate that defeat a single level
+export function sauvolaThreshold(image: ImageData, options: SauvolaOptions = {}): ImageData {
+  const { windowSize = 31, k = 0.2 } = options;
+  const { width, height } = image;
+  const luma = lumaOf(image);
+  const stride = width + 1;
+  const sum = new Float64Array(stride * (height + 1));
+  const sumSq = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSumSq = 0;
+    for (let x = 0; x < width; x++) {
+      const value = luma[y * width + x];
+      rowSum += value;
+      rowSumSq += value * value;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSq[(y + 1) * stride + x + 1] = sumSq[y * stride + x + 1] + rowSumSq;
+    }
+  }
+
+  const half = Math.floor(windowSize / 2);
+  const boxOf = (table: Float64Array, x0: number, y0: number, x1: number, y1: number) =>
+    table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0];
+
+  return fromLuma(image, (value, index) => {
+    const x = index % width;
+    const y = Math.floor(index / width);
+    const x0 = Math.max(0, x - half);
+    const y0 = Math.max(0, y - half);
+    const x1 = Math.min(width, x + half + 1);
+    const y1 = Math.min(height, y + half + 1);
+    const count = (x1 - x0) * (y1 - y0);
+    const mean = boxOf(sum, x0, y0, x1, y1) / count;
+    const deviation = Math.sqrt(Math.max(0, boxOf(sumSq, x0, y0, x1, y1) / count - mean * mean));
+    return value > mean * (1 + k * (deviation / 128 - 1)) ? 255 : 0;
+  });
+}
+
+export function gamma(image: ImageData, value: number): ImageData {
+  const exponent = 1 / Math.max(0.01, value);
+  const lookup = new Uint8ClampedArray(256);
+  for (let level = 0; level < 256; level++) lookup[level] = 255 * Math.pow(level / 255, exponent);
+  return mapChannels(image, lookup);
+}
+
+export function invert(image: ImageData): ImageData {
+  const lookup = new Uint8ClampedArray(256);
+  for (let level = 0; level < 256; level++) lookup[level] = 255 - level;
+  return mapChannels(image, lookup);
+}
+
+// Contrast-limited adaptive histogram equalisation on the grey image, interpolated between tile centres
+export function clahe(image: ImageData, options: ClaheOptions = {}): ImageData {
+  const { width, height } = image;
+  const tilesX = Math.max(1, Math.min(options.tiles ?? 8, width));
+  const tilesY = Math.max(1, Math.min(options.tiles ?? 8, height));
+  const clipLimit = options.clipLimit ?? 2;
+  const luma = lumaOf(image);
+  const tileWidth = width / tilesX;
+  const tileHeight = height / tilesY;
+
+  const lookups: Uint8ClampedArray[] = [];
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = Math.floor(tx * tileWidth);
+      const x1 = Math.floor((tx + 1) * tileWidth);
+      const y0 = Math.floor(ty * tileHeight);
+      const y1 = Math.floor((ty + 1) * tileHeight);
+      const histogram = new Array<number>(256).fill(0);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) histogram[Math.round(luma[y * width + x])]++;
+      }
+
+      const pixels = Math.max(1, (x1 - x0) * (y1 - y0));
+      const limit = Math.max(1, (clipLimit * pixels) / 256);
+      let excess = 0;
+      for (let level = 0; level < 256; level++) {
+        if (histogram[level] > limit) {
+          excess += histogram[level] - limit;
+          histogram[level] = limit;
+        }
+      }
+
+      const lookup = new Uint8ClampedArray(256);
+      let cumulative = 0;
+      for (let level = 0; level < 256; level++) {
+        cumulative += histogram[level] + excess / 256;
+        lookup[level] = Math.round((cumulative / pixels) * 255);
+      }
+      lookups.push(lookup);
+    }
+  }
+
+  return fromLuma(image, (value, index) => {
+    const level = Math.round(value);
+    // Position relative to the tile centres, clamped at the borders
+    const gx = Math.min(Math.max((index % width) / tileWidth - 0.5, 0), tilesX - 1);
+    const gy = Math.min(Math.max(Math.floor(index / width) / tileHeight - 0.5, 0), tilesY - 1);
+    const tx0 = Math.floor(gx);
+    const ty0 = Math.floor(gy);
+    const tx1 = Math.min(tx0 + 1, tilesX - 1);
+    const ty1 = Math.min(ty0 + 1, tilesY - 1);
+    const fx = gx - tx0;
+    const fy = gy - ty0;
+    const at = (tx: number, ty: number) => lookups[ty * tilesX + tx][level];
+    const top = at(tx0, ty0) * (1 - fx) + at(tx1, ty0) * fx;
+    const bottom = at(tx0, ty1) * (1 - fx) + at(tx1, ty1) * fx;
+    return top * (1 - fy) + bottom * fy;
+  });
+}
+
+function boxBlur(image: ImageData, radius: number): ImageData {
+  const { width, height } = image;
+  const pass = (source: Uint8ClampedArray, horizontal: boolean) => {
+    const out = new Uint8ClampedArray(source.length);
+    const [outer, inner] = horizontal ? [height, width] : [width, height];
+    for (let o = 0; o < outer; o++) {
+      for (let i = 0; i < inner; i++) {
+        const acc = [0, 0, 0];
+        let count = 0;
+        for (let d = Math.max(0, i - radius); d <= Math.min(inner - 1, i + radius); d++) {
+          const idx = (horizontal ? o * width + d : d * width + o) * 4;
+          acc[0] += source[idx];
+          acc[1] += source[idx + 1];
+          acc[2] += source[idx + 2];
+          count++;
+        }
+        const idx = (horizontal ? o * width + i : i * width + o) * 4;
+        out[idx] = acc[0] / count;
+        out[idx + 1] = acc[1] / count;
+        out[idx + 2] = acc[2] / count;
+        out[idx + 3] = source[idx + 3];
+      }
+    }
+    return out;
+  };
+
+  const blurred = createImageData(width, height);
+  blurred.data.set(pass(pass(image.data, true), false));
+  return blurred;
+}
+
+export function unsharpMask(image: ImageData, options: UnsharpOptions = {}): ImageData {
+  const { radius = 1, amount = 1 } = options;
+  const blurred = boxBlur(image, Math.max(1, Math.round(radius)));
+  const out = createImageData(image.width, image.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const value = image.data[i + c];
+      out.data[i + c] = value + amount * (value - blurred.data[i + c]);
+    }
+    out.data[i + 3] = image.data[i + 3];
+  }
+  return out;
+}
+
+// Snap so quarter turns land exactly on source pixels
+const snap = (value: number) => (Math.abs(value - Math.round(value)) < 1e-6 ? Math.round(value) : value);
+
+// Size of the canvas rotate() draws into, large enough to keep every corner
+export function rotatedSize(width: number, height: number, degrees: number): { width: number; height: number } {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    width: Math.max(1, Math.round(snap(Math.abs(width * cos) + Math.abs(height * sin)))),
+    height: Math.max(1, Math.round(snap(Math.abs(width * sin) + Math.abs(height * cos)))),
+  };
+}
+
+// Rotates clockwise by `degrees` about the centre; the output grows to fit and uncovered corners are white
+export function rotate(image: ImageData, degrees: number): ImageData {
+  const { width, height } = image;
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const { width: outWidth, height: outHeight } = rotatedSize(width, height, degrees);
+  const out = createImageData(outWidth, outHeight);
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const dx = x + 0.5 - outWidth / 2;
+      const dy = y + 0.5 - outHeight / 2;
+      const sx = snap(dx * cos + dy * sin + width / 2 - 0.5);
+      const sy = snap(-dx * sin + dy * cos + height / 2 - 0.5);
+      const idx = (y * outWidth + x) * 4;
+      for (let c = 0; c < 4; c++) out.data[idx + c] = sampleBilinear(image, sx, sy, c);
+    }
+  }
+  return out;
+}
+
+// Area-averaged downscale so the longer side is at most `maxSide`; smaller images come back untouched
+export function resize(image: ImageData, maxSide: number): ImageData {
+  const { width, height, data } = image;
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  if (scale === 1) return image;
+
+  const outWidth = Math.max(1, Math.round(width * scale));
+  const outHeight = Math.max(1, Math.round(height * scale));
+  const out = createImageData(outWidth, outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    const y0 = Math.floor((y * height) / outHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * height) / outHeight));
+    for (let x = 0; x < outWidth; x++) {
+      const x0 = Math.floor((x * width) / outWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * width) / outWidth));
+      const acc = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const idx = (sy * width + sx) * 4;
+          for (let c = 0; c < 4; c++) acc[c] += data[idx + c];
+        }
+      }
+      const count = (x1 - x0) * (y1 - y0);
+      const idx = (y * outWidth + x) * 4;
+      for (let c = 0; c < 4; c++) out.data[idx + c] = acc[c] / count;
+    }
+  }
+  return out;
+}
+
+// Clockwise tilt of the text in degrees, found by shearing the ink pixels until the row profile is sharpest
+export function estimateSkew(image: ImageData, options: SkewOptions = {}): number {
+  const { maxAngle = 15, step = 0.5 } = options;
+  const { width, height } = image;
+  const level = otsuLevel(image);
+  const luma = lumaOf(image);
+
+  // Ink is whichever class is in the minority, so light-on-dark stamping works too
+  const dark = luma.reduce((count, value) => count + (value <= level ? 1 : 0), 0);
+  const inkIsDark = dark <= luma.length / 2;
+  const stride = Math.max(1, Math.ceil(Math.sqrt(luma.length / 20000)));
+  const points: [number, number][] = [];
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      if ((luma[y * width + x] <= level) === inkIsDark) points.push([x, y]);
+    }
+  }
+  if (points.length < 2) return 0;
+
+  const sharpness = (degrees: number) => {
+    const tan = Math.tan((degrees * Math.PI) / 180);
+    const rows = new Map<number, number>();
+    for (const [x, y] of points) {
+      const row = Math.round((y - x * tan) / stride);
+      rows.set(row, (rows.get(row) ?? 0) + 1);
+    }
+    let score = 0;
+    for (const count of rows.values()) score += count * count;
+    return score;
+  };
+
+  // Level wins ties so noise does not tilt a straight photo
+  let best = 0;
+  let bestScore = sharpness(0);
+  for (let angle = -maxAngle; angle <= maxAngle; angle += step) {
+    const score = sharpness(angle);
+    if (score > bestScore * 1.001) {
+      best = angle;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Returns the input untouched when it is already level
+export function deskew(image: ImageData, options: SkewOptions = {}): ImageData {
+  const angle = estimateSkew(image, options);
+  return Math.abs(angle) < 0.25 ? image : rotate(image, -angle);
+}
+
+// Photos are expected to be flattened and levelled first (see correctGeometry in image-geometry.ts);
+// the presets only fix tone
+export const PREPROCESSING_PRESETS: Record<PreprocessingTarget, PreprocessingPreset> = {
+  // Stamped or printed chassis plates: uneven lighting, sometimes light characters on dark metal
+  vin_plate: {
+    prepare: grayscale,
+    variants: [
+      image => image,
+      otsuThreshold,
+      image => sauvolaThreshold(image),
+      image => threshold(image, 185),
+      pipeline(otsuThreshold, invert),
+      image => gamma(image, 1.35),
+      pipeline(image => clahe(image), image => unsharpMask(image)),
+    ],
+  },
+  // Printed text over the disc's coloured security background
+  licence_disc: {
+    prepare: grayscale,
+    variants: [
+      image => clahe(image, { clipLimit: 3 }),
+      image => sauvolaThreshold(image, { windowSize: 41, k: 0.3 }),
+      otsuThreshold,
+    ],
+  },
+  // Segment digits behind glass: low contrast, reflections, and backlit displays that read light on dark
+  odometer_lcd: {
+    prepare: grayscale,
+    variants: [
+      pipeline(image => clahe(image, { clipLimit: 3 }), otsuThreshold),
+      pipeline(image => clahe(image, { clipLimit: 3 }), otsuThreshold, invert),
+      image => sauvolaThreshold(image, { windowSize: 51, k: 0.15 }),
+      image => gamma(image, 0.8),
+    ],
+  },
+};
+
+export function preprocess(image: ImageData, target: PreprocessingTarget): ImageData[] {
+  const preset = PREPROCESSING_PRESETS[target];
+  const prepared = preset.prepare(image);
+  return preset.variants.map(variant => variant(prepared));
+}
+
+// ---------- canvas bridges ----------
+// The operators themselves never touch a canvas; these move pixels in and out where one exists
+
+export function readImageData(canvas: HTMLCanvasElement | OffscreenCanvas): ImageData {
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// An OffscreenCanvas where the platform has one (always in workers), otherwise a detached <canvas>
+export function toCanvas(image: ImageData): HTMLCanvasElement | OffscreenCanvas {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(image.width, image.height)
+    : Object.assign(document.createElement('canvas'), { width: image.width, height: image.height });
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
@@ -1,14 +1,28 @@
+import { detectGlare } from './glare';
+import { measureGeometry, perspectiveMesh, type ImageTransform, type Point } from './image-geometry';
+import { luminance, readImageData, rotatedSize } from './image-pipeline';
+import { detectTextRegion, MIN_TEXT_REGION_CONFIDENCE, type Bounds } from './text-region';
+
 export interface ImageAnalysis {
   brightness: number;
   contrast: number;
   sharpness: number;
+  // Contrast of the text region and of the rest of the photo, or of the centre and edge bands when no region was found
   centerContrast: number;
   edgeContrast: number;
   framingScore: number;
+  // Share of the text region, or of the centre when none was found, washed out by reflections (0-100)
+  glareScore: number;
   cropApplied: boolean;
-  cropBounds: { x: number; y: number; width: number; height: number };
+  cropBounds: Bounds;
+  // Whether the crop followed the detected text or trimmed a fixed margin
+  cropMethod: 'text_region' | 'margin';
+  // How sure the text-region detector was, 0 when it found nothing (0-1)
+  textRegionConfidence: number;
   originalDimensions: { width: number; height: number };
   processedDimensions: { width: number; height: number };
+  // Perspective warp and rotation applied before cropping
+  transform: ImageTransform;
   shouldRetake: boolean;
   issues: string[];
 }
@@ -33,6 +47,9 @@ const DEFAULT_MARGIN: Record<AnalyzeOptions['target'], number> = {
 
 const JPEG_MIME = 'image/jpeg';
 
+// Per-pixel analysis runs on a copy no larger than this, the size on-device OCR reads at
+const ANALYSIS_MAX_SIDE = 1200;
+
 const TARGET_THRESHOLDS = {
   vin: {
     brightnessMin: 45,
@@ -40,6 +57,7 @@ const TARGET_THRESHOLDS = {
     contrastMin: 22,
     sharpnessMin: 13,
     framingScoreMin: 6,
+    glareScoreMax: 8,
   },
   odometer: {
     brightnessMin: 55,
@@ -47,6 +65,8 @@ const TARGET_THRESHOLDS = {
     contrastMin: 26,
     sharpnessMin: 15,
     framingScoreMin: 5,
+    // LCD digits are thin, so a smaller hot spot is enough to hide one
+    glareScoreMax: 5,
   },
 } as const;
 
@@ -77,10 +97,7 @@ function computeMetrics(imageData: ImageData) {
 
   const at = (x: number, y: number) => {
     const idx = (y * width + x) * 4;
-    const r = data[idx];
-    const g = data[idx + 1];
-    const b = data[idx + 2];
-    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    return luminance(data[idx], data[idx + 1], data[idx + 2]);
   };
 
   for (let y = 0; y < height; y += step) {
@@ -130,10 +147,37 @@ function computeRegionStats(
   for (let y = y0; y < y1; y++) {
     for (let x = x0; x < x1; x++) {
       const idx = (y * width + x) * 4;
-      const r = data[idx];
-      const g = data[idx + 1];
-      const b = data[idx + 2];
-      const lum = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      const lum = luminance(data[idx], data[idx + 1], data[idx + 2]);
+      sum += lum;
+      sumSq += lum * lum;
+      count++;
+    }
+  }
+
+  if (!count) {
+    return { brightness: 0, contrast: 0 };
+  }
+
+  const brightness = sum / count;
+  const variance = sumSq / count - brightness * brightness;
+  return {
+    brightness,
+    contrast: variance > 0 ? Math.sqrt(variance) : 0,
+  };
+}
+
+// Stats of everything outside `bounds`
+function computeSurroundStats(data: Uint8ClampedArray, width: number, height: number, bounds: Bounds) {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+
+  for (let y = 0; y < height; y++) {
+    const insideRow = y >= bounds.y && y < bounds.y + bounds.height;
+    for (let x = 0; x < width; x++) {
+      if (insideRow && x >= bounds.x && x < bounds.x + bounds.width) continue;
+      const idx = (y * width + x) * 4;
+      const lum = luminance(data[idx], data[idx + 1], data[idx + 2]);
       sum += lum;
       sumSq += lum * lum;
       count++;
@@ -165,6 +209,94 @@ function computeEdgeStats(data: Uint8ClampedArray, width: number, height: number
   return { brightness, contrast };
 }
 
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return { canvas, ctx };
+}
+
+// A copy with the longer side at most `maxSide`, scaled by the browser; smaller canvases come back as they are
+function scaledCanvas(source: HTMLCanvasElement, maxSide: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  if (scale === 1) return source;
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Nudges each corner away from the centre so neighbouring triangles overlap instead of leaving antialiased seams
+function widen(triangle: Point[], by = 0.75): Point[] {
+  const cx = (triangle[0].x + triangle[1].x + triangle[2].x) / 3;
+  const cy = (triangle[0].y + triangle[1].y + triangle[2].y) / 3;
+  return triangle.map(({ x, y }) => {
+    const length = Math.hypot(x - cx, y - cy) || 1;
+    return { x: x + ((x - cx) / length) * by, y: y + ((y - cy) / length) * by };
+  });
+}
+
+// Applies a measured correction to the full-size photo with canvas transforms, which the browser does natively.
+// Matches warpPerspective and rotate in output size and orientation.
+function transformCanvas(source: HTMLCanvasElement, transform: ImageTransform): HTMLCanvasElement {
+  let current = source;
+
+  if (transform.perspective) {
+    const { size, triangles } = perspectiveMesh(transform.perspective);
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    for (const { target, matrix } of triangles) {
+      const [a, b, c] = widen(target);
+      ctx.save();
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.lineTo(c.x, c.y);
+      ctx.closePath();
+      ctx.clip();
+      ctx.setTransform(...matrix);
+      ctx.drawImage(current, 0, 0);
+      ctx.restore();
+    }
+    current = canvas;
+  }
+
+  if (transform.rotation) {
+    const size = rotatedSize(current.width, current.height, transform.rotation);
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, size.width, size.height);
+    ctx.translate(size.width / 2, size.height / 2);
+    ctx.rotate((transform.rotation * Math.PI) / 180);
+    ctx.drawImage(current, -current.width / 2, -current.height / 2);
+    current = canvas;
+  }
+
+  return current;
+}
+
+// Bounds found on the analysis copy, in pixels of the full-size canvas
+function scaleBounds(bounds: Bounds, scale: number, limit: { width: number; height: number }): Bounds {
+  const x = Math.max(0, Math.floor(bounds.x * scale));
+  const y = Math.max(0, Math.floor(bounds.y * scale));
+  return {
+    x,
+    y,
+    width: Math.min(limit.width, Math.ceil((bounds.x + bounds.width) * scale)) - x,
+    height: Math.min(limit.height, Math.ceil((bounds.y + bounds.height) * scale)) - y,
+  };
+}
+
+// Upload context describing the geometry correction; empty when the photo was used as taken
+export function transformContext(transform: ImageTransform): Record<string, string> {
+  if (!transform.applied) return {};
+  const context: Record<string, string> = { rotation: transform.rotation.toFixed(1) };
+  if (transform.perspective) {
+    context.perspective = transform.perspective.map(({ x, y }) => `${Math.round(x)},${Math.round(y)}`).join(' ');
+  }
+  return context;
+}
+
 function canvasToFile(canvas: HTMLCanvasElement, original: File, mime: string, quality = 0.95): Promise<File> {
   return new Promise((resolve) => {
     canvas.toBlob((blob) => {
@@ -191,27 +323,49 @@ export async function analyzeAndCropImage(file: File, options: AnalyzeOptions):
     : DEFAULT_MARGIN[options.target];
   const preferredMime = options.preferredMimeType ?? (file.type === JPEG_MIME ? JPEG_MIME : file.type);
 
-  const baseCanvas = await loadImage(file);
-  const baseCtx = baseCanvas.getContext('2d');
-  if (!baseCtx) throw new Error('Canvas 2D context unavailable');
-
-  const baseImageData = baseCtx.getImageData(0, 0, baseCanvas.width, baseCanvas.height);
-
-  const { canvas: croppedCanvas, bounds, applied } = await cropCanvas(baseCanvas, marginRatio);
+  const photoCanvas = await loadImage(file);
+
+  // Angled shots are flattened and levelled first so the crop and metrics see the plate head-on. The correction
+  // is measured on a small copy and drawn onto the full-size photo by the canvas, keeping the UI responsive.
+  const photoCopy = readImageData(scaledCanvas(photoCanvas, ANALYSIS_MAX_SIDE));
+  const transform = measureGeometry(photoCopy, photoCanvas);
+  const baseCanvas = transform.applied ? transformCanvas(photoCanvas, transform) : photoCanvas;
+  const baseImageData = transform.applied ? readImageData(scaledCanvas(baseCanvas, ANALYSIS_MAX_SIDE)) : photoCopy;
+  const analysisScale = baseCanvas.width / baseImageData.width;
+
+  // Crop tight around the text when it stands out from the rest of the photo, otherwise trim a fixed margin
+  const textRegion = detectTextRegion(baseImageData);
+  const region = textRegion && textRegion.confidence >= MIN_TEXT_REGION_CONFIDENCE ? textRegion.bounds : null;
+  const { canvas: croppedCanvas, bounds, applied } = await cropCanvas(
+    baseCanvas,
+    region ? scaleBounds(region, analysisScale, baseCanvas) : marginBounds(baseCanvas.width, baseCanvas.height, marginRatio),
+  );
   const croppedCtx = croppedCanvas.getContext('2d');
   if (!croppedCtx) throw new Error('Canvas 2D context unavailable');
   const croppedMetrics = computeMetrics(croppedCtx.getImageData(0, 0, croppedCanvas.width, croppedCanvas.height));
 
-  const centerStats = computeRegionStats(
-    baseImageData.data,
-    baseCanvas.width,
-    baseCanvas.height,
-    0.25,
-    0.75,
-    0.25,
-    0.75,
-  );
-  const edgeStats = computeEdgeStats(baseImageData.data, baseCanvas.width, baseCanvas.height);
+  const { width: baseWidth, height: baseHeight } = baseImageData;
+  const centerStats = region
+    ? computeRegionStats(
+      baseImageData.data,
+      baseWidth,
+      baseHeight,
+      region.x / baseWidth,
+      (region.x + region.width) / baseWidth,
+      region.y / baseHeight,
+      (region.y + region.height) / baseHeight,
+    )
+    : computeRegionStats(baseImageData.data, baseWidth, baseHeight, 0.25, 0.75, 0.25, 0.75);
+  const edgeStats = region
+    ? computeSurroundStats(baseImageData.data, baseWidth, baseHeight, region)
+    : computeEdgeStats(baseImageData.data, baseWidth, baseHeight);
+
+  const glare = detectGlare(baseImageData, region ?? {
+    x: Math.floor(baseWidth * 0.25),
+    y: Math.floor(baseHeight * 0.25),
+    width: Math.ceil(baseWidth * 0.5),
+    height: Math.ceil(baseHeight * 0.5),
+  });
   const framingScore = centerStats.contrast - edgeStats.contrast;
 
   const issues: string[] = [];
@@ -235,7 +389,11 @@ export async function analyzeAndCropImage(file: File, options: AnalyzeOptions):
     issues.push(options.target === 'vin' ? 'VIN not centered in framing guide' : 'Odometer cluster not centered');
   }
 
-  const processedFile = applied
+  if (glare.score > thresholds.glareScoreMax) {
+    issues.push('Glare over text — tilt the phone');
+  }
+
+  const processedFile = applied || transform.applied
     ? await canvasToFile(croppedCanvas, file, preferredMime)
     : file;
 
@@ -246,10 +404,14 @@ export async function analyzeAndCropImage(file: File, options: AnalyzeOptions):
     centerContrast: centerStats.contrast,
     edgeContrast: edgeStats.contrast,
     framingScore,
+    glareScore: glare.score,
     cropApplied: applied,
     cropBounds: bounds,
-    originalDimensions: { width: baseCanvas.width, height: baseCanvas.height },
+    cropMethod: region ? 'text_region' : 'margin',
+    textRegionConfidence: textRegion?.confidence ?? 0,
+    originalDimensions: { width: photoCanvas.width, height: photoCanvas.height },
     processedDimensions: { width: croppedCanvas.width, height: croppedCanvas.height },
+    transform,
     shouldRetake: issues.length > 0,
     issues,
   };
@@ -262,21 +424,20 @@ export async function analyzeAndCropImage(file: File, options: AnalyzeOptions):
   };
 }
 
-async function cropCanvas(source: HTMLCanvasElement, marginRatio: number) {
-  if (marginRatio <= 0) {
-    return {
-      canvas: source,
-      bounds: { x: 0, y: 0, width: source.width, height: source.height },
-      applied: false,
-    };
-  }
+function marginBounds(width: number, height: number, marginRatio: number): Bounds {
+  const marginX = Math.round(width * marginRatio);
+  const marginY = Math.round(height * marginRatio);
+  const cropWidth = width - marginX * 2;
+  const cropHeight = height - marginY * 2;
 
-  const marginX = Math.round(source.width * marginRatio);
-  const marginY = Math.round(source.height * marginRatio);
-  const cropWidth = source.width - marginX * 2;
-  const cropHeight = source.height - marginY * 2;
+  if (marginRatio <= 0 || cropWidth <= 0 || cropHeight <= 0) {
+    return { x: 0, y: 0, width, height };
+  }
+  return { x: marginX, y: marginY, width: cropWidth, height: cropHeight };
+}
 
-  if (cropWidth <= 0 || cropHeight <= 0) {
+async function cropCanvas(source: HTMLCanvasElement, bounds: Bounds) {
+  if (bounds.width === source.width && bounds.height === source.height) {
     return {
       canvas: source,
       bounds: { x: 0, y: 0, width: source.width, height: source.height },
@@ -285,17 +446,13 @@ async function cropCanvas(source: HTMLCanvasElement, marginRatio: number) {
   }
 
   const canvas = document.createElement('canvas');
-  canvas.width = cropWidth;
-  canvas.height = cropHeight;
+  canvas.width = bounds.width;
+  canvas.height = bounds.height;
   const ctx = canvas.getContext('2d');
   const srcCtx = source.getContext('2d');
   if (!ctx || !srcCtx) throw new Error('Canvas 2D context unavailable');
-  const imageData = srcCtx.getImageData(marginX, marginY, cropWidth, cropHeight);
+  const imageData = srcCtx.getImageData(bounds.x, bounds.y, bounds.width, bounds.height);
   ctx.putImageData(imageData, 0, 0);
 
-  return {
-    canvas,
-    bounds: { x: marginX, y: marginY, width: cropWidth, height: cropHeight },
-    applied: marginX > 0 || marginY > 0,
-  };
-}
\ No newline at end of file
+  return { canvas, bounds, applied: true };
+}
@@ -0,0 +1,104 @@
+// src/lib/licence-disc.ts
+// Parser for the PDF417 barcode on South African vehicle licence discs
+import type { LicenceDiscRecord } from '../types';
+
+export interface LicenceDisc {
+  discNumber: string;
+  // Licence number, as shown on the number plate
+  registration: string;
+  vehicleRegisterNumber: string;
+  description: string;
+  make: string;
+  model: string;
+  colour: string;
+  // As printed; not normalised, so pre-1981 chassis numbers survive intact
+  vin: string;
+  engineNumber: string;
+  // ISO date (YYYY-MM-DD); null when missing or unreadable
+  expiry: string | null;
+}
+
+// Field positions after the "MVL1.." header, e.g. %MVL1CC39%0129%4024T0BH%1%40240281B0ZZ%KYK567EC%...
+const FIELDS = {
+  discNumber: 4,
+  registration: 5,
+  vehicleRegisterNumber: 6,
+  description: 7,
+  make: 8,
+  model: 9,
+  colour: 10,
+  vin: 11,
+  engineNumber: 12,
+  expiry: 13,
+} as const;
+
+const HEADER = /^MVL\d/i;
+
+// Descriptions and colours are bilingual ("White / Wit"); keep the English half
+function english(value: string): string {
+  return value.split(' / ')[0].trim();
+}
+
+function parseExpiry(value: string): string | null {
+  const trimmed = value.trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return null;
+  const date = new Date(`${trimmed}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== trimmed ? null : trimmed;
+}
+
+export function looksLikeLicenceDisc(text: string): boolean {
+  return HEADER.test(text.trim().replace(/^%/, ''));
+}
+
+// Returns null for anything that is not a plain-text licence disc payload,
+// including the encrypted barcodes on some newer discs
+export function parseLicenceDisc(text: string): LicenceDisc | null {
+  const fields = text.trim().replace(/^%/, '').replace(/%$/, '').split('%');
+  if (!HEADER.test(fields[0] ?? '') || fields.length <= FIELDS.expiry) return null;
+
+  const field = (index: number) => (fields[index] ?? '').trim();
+  const vin = field(FIELDS.vin).toUpperCase();
+  const registration = field(FIELDS.registration).toUpperCase();
+  if (!vin || !registration) return null;
+
+  return {
+    discNumber: field(FIELDS.discNumber),
+    registration,
+    vehicleRegisterNumber: field(FIELDS.vehicleRegisterNumber).toUpperCase(),
+    description: english(field(FIELDS.description)),
+    make: field(FIELDS.make),
+    model: field(FIELDS.model),
+    colour: english(field(FIELDS.colour)),
+    vin,
+    engineNumber: field(FIELDS.engineNumber).toUpperCase(),
+    expiry: parseExpiry(field(FIELDS.expiry)),
+  };
+}
+
+// A disc is valid through the whole of its expiry date
+export function isLicenceDiscExpired(disc: LicenceDisc, now: Date = new Date()): boolean {
+  if (!disc.expiry) return false;
+  return now.toISOString().slice(0, 10) > disc.expiry;
+}
+
+// One-line summary for the vehicle description field, e.g. "VOLKSWAGEN POLO, White (Hatch back)"
+export function describeLicenceDiscVehicle(disc: LicenceDisc): string {
+  const name = [disc.make, disc.model].filter(Boolean).join(' ');
+  const detail = [name, disc.colour].filter(Boolean).join(', ');
+  return disc.description ? `${detail} (${disc.description})` : detail;
+}
+
+export function toLicenceDiscRecord(disc: LicenceDisc): LicenceDiscRecord {
+  return {
+    disc_number: disc.discNumber,
+    registration: disc.registration,
+    vehicle_register_number: disc.vehicleRegisterNumber,
+    description: disc.description,
+    make: disc.make,
+    model: disc.model,
+    colour: disc.colour,
+    vin: disc.vin,
+    engine_number: disc.engineNumber,
+    expiry: disc.expiry,
+  };
+}
@@ -0,0 +1,68 @@
+// src/lib/ocr-overlay.ts
+// Works out where on the photo the chosen OCR candidate and its alternatives were read
+import type { OcrBox, OcrTextRegion } from './api';
+
+export type OcrHighlightKind = 'chosen' | 'alternative';
+
+export interface OcrHighlight {
+  text: string;
+  box: OcrBox;
+  kind: OcrHighlightKind;
+}
+
+// VIN candidates never contain I, O or Q, so the read text is compared without them
+export const compactVinText = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/[IOQ]/g, '');
+
+export const digitsOnly = (text: string) => text.replace(/\D/g, '');
+
+const area = (box: OcrBox) => box.width * box.height;
+
+function union(boxes: OcrBox[]): OcrBox {
+  const left = Math.min(...boxes.map(box => box.left));
+  const top = Math.min(...boxes.map(box => box.top));
+  const right = Math.max(...boxes.map(box => box.left + box.width));
+  const bottom = Math.max(...boxes.map(box => box.top + box.height));
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// The tightest region containing the candidate; failing that, the words the candidate was pieced together from
+function locate(candidate: string, regions: OcrTextRegion[], normalize: (text: string) => string): OcrBox | null {
+  const target = normalize(candidate);
+  if (!target) return null;
+
+  const containing = regions
+    .filter(region => normalize(region.text).includes(target))
+    .sort((a, b) => area(a.box) - area(b.box));
+  if (containing.length) return containing[0].box;
+
+  const pieces = regions.filter(region => {
+    const text = normalize(region.text);
+    return region.level === 'word' && text.length >= 3 && target.includes(text);
+  });
+  return pieces.length ? union(pieces.map(piece => piece.box)) : null;
+}
+
+export function ocrHighlights(
+  regions: OcrTextRegion[],
+  chosen: string | null,
+  alternatives: string[],
+  normalize: (text: string) => string = compactVinText
+): OcrHighlight[] {
+  const highlights: OcrHighlight[] = [];
+  const seen = new Set<string>();
+  const add = (text: string, kind: OcrHighlightKind) => {
+    const box = locate(text, regions, normalize);
+    if (!box) return;
+    // Misreads of the chosen string usually sit in the same place; one outline is enough
+    const key = [box.left, box.top, box.width, box.height].map(value => value.toFixed(3)).join(',');
+    if (seen.has(key)) return;
+    seen.add(key);
+    highlights.push({ text, box, kind });
+  };
+
+  if (chosen) add(chosen, 'chosen');
+  for (const alternative of alternatives) {
+    if (!chosen || normalize(alternative) !== normalize(chosen)) add(alternative, 'alternative');
+  }
+  return highlights;
+}
@@ -0,0 +1,106 @@
+// src/lib/ocr.ts
+// VIN OCR that prefers the server and reads on the device when the server cannot help
+import { getHealthStatus, ocrVinFromImage, type OcrRequestOptions, type OcrResult } from './api';
+import { ApiAbortError, ApiError, ApiTimeoutError } from './api-errors';
+import { logger, serializeError } from './logger';
+import { isValidVin } from './vin';
+import { readVinFromImage } from './vin-ocr';
+
+const log = logger.withContext({ scope: 'ocr' });
+
+// Past this the on-device read is likely to finish sooner than the server will
+const SERVER_OCR_TIMEOUT_MS = 20000;
+// How long a health answer is trusted before asking again
+const HEALTH_TTL_MS = 60000;
+
+export interface VinOcrRequestOptions extends OcrRequestOptions {
+  serverTimeoutMs?: number;
+}
+
+let health: { checkedAt: number; textractAvailable: boolean } | null = null;
+
+export function clearOcrHealth() {
+  health = null;
+}
+
+// The server OCR is worth trying unless we are offline or it says Textract is down
+async function serverOcrAvailable(): Promise<boolean> {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+  if (health && Date.now() - health.checkedAt < HEALTH_TTL_MS) return health.textractAvailable;
+
+  try {
+    const status = await getHealthStatus();
+    health = { checkedAt: Date.now(), textractAvailable: status.aws.textractAvailable };
+  } catch (error: unknown) {
+    // A health endpoint that answers badly says nothing about OCR; only an unreachable server rules it out
+    const reachable = !(error instanceof ApiError && error.kind === 'network');
+    health = { checkedAt: Date.now(), textractAvailable: reachable };
+  }
+  return health.textractAvailable;
+}
+
+function shouldReadOnDevice(error: unknown): boolean {
+  return error instanceof ApiError && (error.kind === 'network' || error.kind === 'timeout' || error.kind === 'unavailable');
+}
+
+async function ocrOnServer(file: File, options: VinOcrRequestOptions): Promise<OcrResult> {
+  const { serverTimeoutMs = SERVER_OCR_TIMEOUT_MS, signal, ...rest } = options;
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, serverTimeoutMs);
+
+  try {
+    return await ocrVinFromImage(file, { ...rest, signal: controller.signal });
+  } catch (error: unknown) {
+    if (timedOut && error instanceof ApiAbortError) throw new ApiTimeoutError(serverTimeoutMs, error);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+async function ocrOnDevice(file: File, options: VinOcrRequestOptions): Promise<OcrResult> {
+  const started = Date.now();
+  options.onProgress?.('processing');
+  const reading = await readVinFromImage(file, { signal: options.signal });
+
+  return {
+    ok: reading !== null,
+    vin: reading?.vin ?? null,
+    vinValid: reading ? isValidVin(reading.vin) : false,
+    candidates: reading ? reading.candidates.map(candidate => candidate.vin) : [],
+    confidence: reading?.confidence ?? 0,
+    processingTime: Date.now() - started,
+    textExtracted: reading !== null,
+    totalBlocks: 0,
+    lineCount: reading?.regions.filter(region => region.level === 'line').length ?? 0,
+    fromCache: false,
+    regions: reading?.regions ?? [],
+    characters: reading?.characters ?? [],
+    source: 'device',
+  };
+}
+
+// Same contract as ocrVinFromImage; `source` on the result says which reader produced it
+export async function ocrVin(file: File, options: VinOcrRequestOptions = {}): Promise<OcrResult> {
+  if (await serverOcrAvailable()) {
+    try {
+      return await ocrOnServer(file, options);
+    } catch (error: unknown) {
+      if (!shouldReadOnDevice(error)) throw error;
+      log.warn('Server VIN OCR unavailable, reading on device', { error: serializeError(error) });
+    }
+  } else {
+    log.info('Reading VIN on device', { online: typeof navigator === 'undefined' || navigator.onLine !== false });
+  }
+
+  if (options.signal?.aborted) throw new ApiAbortError();
+  return ocrOnDevice(file, options);
+}
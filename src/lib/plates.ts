@@ -0,0 +1,110 @@
+// src/lib/plates.ts
+// South African registration plate formats, per province, including personalised plates
+
+export type PlateProvince = 'GP' | 'WC' | 'KZN' | 'EC' | 'FS' | 'LP' | 'MP' | 'NW' | 'NC';
+
+export type PlateFormat = 'standard' | 'personalised';
+
+export const PROVINCE_NAMES: Record<PlateProvince, string> = {
+  GP: 'Gauteng',
+  WC: 'Western Cape',
+  KZN: 'KwaZulu-Natal',
+  EC: 'Eastern Cape',
+  FS: 'Free State',
+  LP: 'Limpopo',
+  MP: 'Mpumalanga',
+  NW: 'North West',
+  NC: 'Northern Cape',
+};
+
+export interface PlateMatch {
+  // Letters and digits only, e.g. "CA123456"
+  plate: string;
+  // As printed, e.g. "CA 123-456"
+  formatted: string;
+  province: PlateProvince;
+  format: PlateFormat;
+}
+
+interface PlatePattern {
+  province: PlateProvince;
+  pattern: RegExp;
+  format: (match: RegExpMatchArray) => string;
+}
+
+// Town-code plates split long serials as "123-456"
+const serial = (digits: string) => (digits.length > 3 ? `${digits.slice(0, -3)}-${digits.slice(-3)}` : digits);
+
+// Matched against the plate with separators removed; order matters where patterns overlap
+const STANDARD_PATTERNS: PlatePattern[] = [
+  // Current Gauteng series: BC 12 DE GP
+  { province: 'GP', pattern: /^([A-Z]{2})(\d{2})([A-Z]{2})GP$/, format: m => `${m[1]} ${m[2]} ${m[3]} GP` },
+  // Older Gauteng series: ABC 123 GP
+  { province: 'GP', pattern: /^([A-Z]{3})(\d{3})GP$/, format: m => `${m[1]} ${m[2]} GP` },
+  // Western Cape town codes: CA 123-456, CY 12345, CAW 1234
+  { province: 'WC', pattern: /^(C[A-Z]{1,2})(\d{1,6})$/, format: m => `${m[1]} ${serial(m[2])}` },
+  // KwaZulu-Natal town codes: ND 123-456, NP 1234
+  { province: 'KZN', pattern: /^(N[A-Z]{1,2})(\d{1,6})$/, format: m => `${m[1]} ${serial(m[2])}` },
+  { province: 'EC', pattern: /^([A-Z]{3})(\d{3})EC$/, format: m => `${m[1]} ${m[2]} EC` },
+  { province: 'FS', pattern: /^([A-Z]{3})(\d{3})FS$/, format: m => `${m[1]} ${m[2]} FS` },
+  { province: 'LP', pattern: /^([A-Z]{3})(\d{3})L$/, format: m => `${m[1]} ${m[2]} L` },
+  { province: 'MP', pattern: /^([A-Z]{3})(\d{3})MP$/, format: m => `${m[1]} ${m[2]} MP` },
+  { province: 'NW', pattern: /^([A-Z]{3})(\d{3})NW$/, format: m => `${m[1]} ${m[2]} NW` },
+  { province: 'NC', pattern: /^([A-Z]{3})(\d{3})NC$/, format: m => `${m[1]} ${m[2]} NC` },
+];
+
+// Personalised plates carry up to seven characters of the owner's choice before the province suffix
+const PERSONALISED_SUFFIXES: [string, PlateProvince][] = [
+  ['GP', 'GP'],
+  ['WP', 'WC'],
+  ['ZN', 'KZN'],
+  ['EC', 'EC'],
+  ['FS', 'FS'],
+  ['MP', 'MP'],
+  ['NW', 'NW'],
+  ['NC', 'NC'],
+  ['L', 'LP'],
+];
+
+const PERSONALISED_MAX_LENGTH = 7;
+
+export function normalizePlate(raw: string): string {
+  return (raw || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function parsePlate(raw: string): PlateMatch | null {
+  const plate = normalizePlate(raw);
+  if (!plate) return null;
+
+  for (const { province, pattern, format } of STANDARD_PATTERNS) {
+    const match = plate.match(pattern);
+    if (match) return { plate, formatted: format(match), province, format: 'standard' };
+  }
+
+  // Personalised plates may contain a space; keep the owner's spacing when we have it
+  const printed = (raw || '').toUpperCase().replace(/[^A-Z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+  for (const [suffix, province] of PERSONALISED_SUFFIXES) {
+    if (!plate.endsWith(suffix)) continue;
+    const choice = plate.slice(0, -suffix.length);
+    if (!choice || choice.length > PERSONALISED_MAX_LENGTH) continue;
+    const printedChoice = printed.slice(0, -suffix.length).trim();
+    const formatted = `${normalizePlate(printedChoice) === choice ? printedChoice : choice} ${suffix}`;
+    return { plate, formatted, province, format: 'personalised' };
+  }
+
+  return null;
+}
+
+export function isValidPlate(raw: string): boolean {
+  return parsePlate(raw) !== null;
+}
+
+// Valid plates in their printed form; anything else is only cleaned up so nothing the inspector typed is lost
+export function formatPlate(raw: string): string {
+  return parsePlate(raw)?.formatted ?? (raw || '').toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+export function describePlate(match: PlateMatch): string {
+  const province = PROVINCE_NAMES[match.province];
+  return match.format === 'personalised' ? `Personalised ${province} plate` : `${province} plate`;
+}
@@ -0,0 +1,124 @@
+// src/lib/query-cache.ts
+// Read cache for GET endpoints: coalesces identical in-flight requests and serves stale data while revalidating
+import { logger, serializeError } from './logger';
+
+const log = logger.withContext({ scope: 'query-cache' });
+
+const DEFAULT_STALE_AFTER_MS = 10000;
+
+export interface QueryOptions {
+  // Skip any cached value and wait for the network (still joins a request already in flight)
+  fresh?: boolean;
+  staleAfterMs?: number;
+}
+
+interface Entry {
+  value: unknown;
+  hasValue: boolean;
+  updatedAt: number;
+  inflight?: Promise<unknown>;
+  // Bumped on invalidation so responses to requests sent before a write are discarded
+  generation: number;
+}
+
+type Listener = (value: unknown) => void;
+
+const entries = new Map<string, Entry>();
+const listeners = new Map<string, Set<Listener>>();
+
+function entryFor(key: string): Entry {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { value: undefined, hasValue: false, updatedAt: 0, generation: 0 };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+function notify(key: string, value: unknown) {
+  for (const listener of listeners.get(key) ?? []) {
+    listener(value);
+  }
+}
+
+function fetchInto<T>(key: string, entry: Entry, fetcher: () => Promise<T>): Promise<T> {
+  if (entry.inflight) return entry.inflight as Promise<T>;
+
+  const generation = entry.generation;
+  const request: Promise<T> = fetcher()
+    .then(value => {
+      if (entry.generation === generation) {
+        entry.value = value;
+        entry.hasValue = true;
+        entry.updatedAt = Date.now();
+        notify(key, value);
+      }
+      return value;
+    })
+    .finally(() => {
+      if (entry.inflight === request) entry.inflight = undefined;
+    });
+
+  entry.inflight = request;
+  return request;
+}
+
+export function cachedQuery<T>(key: string, fetcher: () => Promise<T>, options: QueryOptions = {}): Promise<T> {
+  const entry = entryFor(key);
+  if (!entry.hasValue || options.fresh) {
+    return fetchInto(key, entry, fetcher);
+  }
+
+  const staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+  if (Date.now() - entry.updatedAt >= staleAfterMs) {
+    fetchInto(key, entry, fetcher).catch(error => {
+      log.warn('Background revalidation failed', { key, error: serializeError(error) });
+    });
+  }
+  return Promise.resolve(entry.value as T);
+}
+
+export function getQueryData<T>(key: string): T | undefined {
+  const entry = entries.get(key);
+  return entry?.hasValue ? entry.value as T : undefined;
+}
+
+// Seeds a value the caller already has, e.g. one returned by a write
+export function setQueryData<T>(key: string, value: T) {
+  const entry = entryFor(key);
+  entry.value = value;
+  entry.hasValue = true;
+  entry.updatedAt = Date.now();
+  notify(key, value);
+}
+
+// Drops cached values so the next read goes to the network
+export function invalidateQueries(match: string | ((key: string) => boolean)) {
+  const matches = typeof match === 'string' ? (key: string) => key === match : match;
+  for (const [key, entry] of entries) {
+    if (!matches(key)) continue;
+    entry.value = undefined;
+    entry.hasValue = false;
+    entry.inflight = undefined;
+    entry.generation++;
+  }
+}
+
+export function clearQueryCache() {
+  entries.clear();
+}
+
+// Called with every value the cache stores for `key`, including background revalidations
+export function subscribeToQuery<T>(key: string, listener: (value: T) => void): () => void {
+  let keyListeners = listeners.get(key);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(key, keyListeners);
+  }
+  const wrapped: Listener = value => listener(value as T);
+  keyListeners.add(wrapped);
+  return () => {
+    keyListeners.delete(wrapped);
+    if (!keyListeners.size) listeners.delete(key);
+  };
+}
@@ -0,0 +1,92 @@
+// src/lib/retry.ts
+// Retry policy for mutating API calls: exponential backoff with full jitter, honouring Retry-After
+
+import { ApiAbortError, ApiError } from './api-errors';
+
+export interface RetryPolicy {
+  // Total tries including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A Retry-After longer than this is not worth waiting for; the error is surfaced instead
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+};
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  signal?: AbortSignal;
+  onRetry?: (info: { attempt: number; delayMs: number; error: ApiError }) => void;
+  // Overridable for tests
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+}
+
+export function backoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+// Delay before the next attempt, or null when the error should not be retried
+export function retryDelayFor(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number | null {
+  if (!(error instanceof ApiError) || !error.retryable) return null;
+  if (attempt >= policy.maxAttempts) return null;
+
+  if (error.kind === 'rate_limited' && error.retryAfterMs !== null) {
+    return error.retryAfterMs <= policy.maxRetryAfterMs ? error.retryAfterMs : null;
+  }
+  return backoffDelay(attempt, policy, random);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  const wait = options.sleep ?? sleep;
+  const random = options.random ?? Math.random;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error: unknown) {
+      const delayMs = retryDelayFor(error, attempt, policy, random);
+      if (delayMs === null) throw error;
+      options.onRetry?.({ attempt, delayMs, error: error as ApiError });
+      await wait(delayMs, options.signal);
+    }
+  }
+}
+
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
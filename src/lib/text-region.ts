@@ -0,0 +1,173 @@
+// src/lib/text-region.ts
+// Finds where the text sits in a photo from the density of edges, so the crop can follow it
+import { luminance, resize } from './image-pipeline';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextRegion {
+  // Padded, in pixels of the image that was analysed
+  bounds: Bounds;
+  // Share of the photo's edge detail inside the region (0-1); 0 when the region is too large to be a crop
+  confidence: number;
+}
+
+// Below this the region is not trusted and callers should crop by margin instead
+export const MIN_TEXT_REGION_CONFIDENCE = 0.55;
+
+// Detection runs on a small copy; bounds are scaled back to the full image
+const ANALYSIS_SIZE = 320;
+// Side of the square cells edge density is measured over, in pixels of the small copy
+const CELL_SIZE = 8;
+// Share of a cell's pixels that must be edges for it to count as text
+const MIN_CELL_DENSITY = 0.08;
+// Text cells this many cells apart still belong to the same block, e.g. the lines of a VIN plate
+const JOIN_GAP_CELLS = 2;
+// Blocks with less than this share of the strongest block's edges are clutter, not more text
+const MIN_JOIN_SHARE = 0.1;
+// A region covering more of the photo than this tells us nothing about where the text is
+const MAX_REGION_AREA = 0.8;
+// Padding around the region, as a share of its height, and at least a share of the photo's shorter side
+const PADDING_RATIO = 0.35;
+const MIN_PADDING_RATIO = 0.02;
+
+interface CellBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface Block {
+  box: CellBox;
+  edges: number;
+}
+
+// Grows `box` to take in every block close enough to it, nearest first
+function joinNearby(box: CellBox, blocks: Block[], minEdges: number): CellBox {
+  const joined = { ...box };
+  const remaining = blocks.filter(block => block.edges >= minEdges);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (let i = remaining.length - 1; i >= 0; i--) {
+      const { box: other } = remaining[i];
+      const gapX = Math.max(other.x0 - joined.x1, joined.x0 - other.x1) - 1;
+      const gapY = Math.max(other.y0 - joined.y1, joined.y0 - other.y1) - 1;
+      if (gapX > JOIN_GAP_CELLS || gapY > JOIN_GAP_CELLS) continue;
+      joined.x0 = Math.min(joined.x0, other.x0);
+      joined.y0 = Math.min(joined.y0, other.y0);
+      joined.x1 = Math.max(joined.x1, other.x1);
+      joined.y1 = Math.max(joined.y1, other.y1);
+      remaining.splice(i, 1);
+      grew = true;
+    }
+  }
+  return joined;
+}
+
+export function detectTextRegion(image: ImageData): TextRegion | null {
+  const small = resize(image, ANALYSIS_SIZE);
+  const { width, height, data } = small;
+  if (width < 2 || height < 2) return null;
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) luma[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+
+  const gradients = new Float32Array(width * height);
+  let gradientSum = 0;
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const index = y * width + x;
+      const gradient = Math.abs(luma[index + 1] - luma[index]) + Math.abs(luma[index + width] - luma[index]);
+      gradients[index] = gradient;
+      gradientSum += gradient;
+    }
+  }
+  // Edges stand well clear of the photo's usual texture; the floor keeps smooth photos from turning noise into text
+  const edgeLevel = Math.max(24, (2.5 * gradientSum) / ((width - 1) * (height - 1)));
+
+  const cols = Math.ceil(width / CELL_SIZE);
+  const rows = Math.ceil(height / CELL_SIZE);
+  const cellEdges = new Float64Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gradients[y * width + x] > edgeLevel) cellEdges[Math.floor(y / CELL_SIZE) * cols + Math.floor(x / CELL_SIZE)]++;
+    }
+  }
+
+  const cellArea = (cx: number, cy: number) =>
+    (Math.min(width, (cx + 1) * CELL_SIZE) - cx * CELL_SIZE) * (Math.min(height, (cy + 1) * CELL_SIZE) - cy * CELL_SIZE);
+  const isText = (cell: number) => cellEdges[cell] / cellArea(cell % cols, Math.floor(cell / cols)) >= MIN_CELL_DENSITY;
+
+  // 8-connected blocks of text cells
+  const blocks: Block[] = [];
+  const seen = new Uint8Array(cols * rows);
+  for (let start = 0; start < cols * rows; start++) {
+    if (seen[start] || !isText(start)) continue;
+    const stack = [start];
+    seen[start] = 1;
+    const box: CellBox = { x0: cols, y0: rows, x1: -1, y1: -1 };
+    let edges = 0;
+    while (stack.length) {
+      const cell = stack.pop()!;
+      const cx = cell % cols;
+      const cy = Math.floor(cell / cols);
+      edges += cellEdges[cell];
+      box.x0 = Math.min(box.x0, cx);
+      box.y0 = Math.min(box.y0, cy);
+      box.x1 = Math.max(box.x1, cx);
+      box.y1 = Math.max(box.y1, cy);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+          const next = ny * cols + nx;
+          if (!seen[next] && isText(next)) {
+            seen[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+    blocks.push({ box, edges });
+  }
+  if (!blocks.length) return null;
+
+  blocks.sort((a, b) => b.edges - a.edges);
+  const region = joinNearby(blocks[0].box, blocks.slice(1), blocks[0].edges * MIN_JOIN_SHARE);
+
+  let inside = 0;
+  let total = 0;
+  for (let cell = 0; cell < cols * rows; cell++) {
+    const cx = cell % cols;
+    const cy = Math.floor(cell / cols);
+    total += cellEdges[cell];
+    if (cx >= region.x0 && cx <= region.x1 && cy >= region.y0 && cy <= region.y1) inside += cellEdges[cell];
+  }
+  const area = ((region.x1 - region.x0 + 1) * (region.y1 - region.y0 + 1)) / (cols * rows);
+  const confidence = area > MAX_REGION_AREA || !total ? 0 : inside / total;
+
+  // Back to full-size pixels, padded so the outer characters are not clipped
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  const x0 = region.x0 * CELL_SIZE * scaleX;
+  const y0 = region.y0 * CELL_SIZE * scaleY;
+  const x1 = Math.min(width, (region.x1 + 1) * CELL_SIZE) * scaleX;
+  const y1 = Math.min(height, (region.y1 + 1) * CELL_SIZE) * scaleY;
+  const padding = Math.max((y1 - y0) * PADDING_RATIO, Math.min(image.width, image.height) * MIN_PADDING_RATIO);
+  const left = Math.max(0, Math.floor(x0 - padding));
+  const top = Math.max(0, Math.floor(y0 - padding));
+  const right = Math.min(image.width, Math.ceil(x1 + padding));
+  const bottom = Math.min(image.height, Math.ceil(y1 + padding));
+
+  return {
+    bounds: { x: left, y: top, width: right - left, height: bottom - top },
+    confidence,
+  };
+}
@@ -0,0 +1,286 @@
+// src/lib/upload-queue.ts
+// Offline photo upload queue: persists uploads in IndexedDB and replays them when connectivity returns
+import type { ImageRole } from '../types';
+import { uploadPhotoDev } from './api';
+import { ApiError } from './api-errors';
+import { getCurrentInspector, subscribeToAuth, type Inspector } from './auth';
+import { logger, serializeError } from './logger';
+
+const log = logger.withContext({ scope: 'upload-queue' });
+
+const DB_NAME = 'wb-intake';
+const DB_VERSION = 1;
+const STORE_NAME = 'photo-uploads';
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const POLL_INTERVAL_MS = 15000;
+
+export type QueuedUploadStatus = 'pending' | 'failed';
+
+export interface QueuedUpload {
+  id: string;
+  vin: string;
+  role: ImageRole;
+  file: File;
+  originalFile?: File;
+  context?: Record<string, string | number | boolean>;
+  // Signed in when the photo was taken; the replay is credited to them, not to whoever is signed in at sync time.
+  // Missing on entries queued before this was recorded.
+  inspector?: Inspector;
+  status: QueuedUploadStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+export type UploadQueueEvent =
+  | { type: 'updated'; entries: QueuedUpload[] }
+  | { type: 'synced'; entry: QueuedUpload; entries: QueuedUpload[] };
+
+type Listener = (event: UploadQueueEvent) => void;
+
+interface QueueStore {
+  all(): Promise<QueuedUpload[]>;
+  put(entry: QueuedUpload): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbStore(factory: IDBFactory): QueueStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return requestToPromise(run(store));
+  };
+
+  return {
+    all: () => withStore('readonly', store => store.getAll() as IDBRequest<QueuedUpload[]>),
+    put: async (entry) => { await withStore('readwrite', store => store.put(entry)); },
+    delete: async (id) => { await withStore('readwrite', store => store.delete(id)); },
+  };
+}
+
+// Used where IndexedDB is unavailable (private browsing, tests); entries survive until reload only
+function createMemoryStore(): QueueStore {
+  const entries = new Map<string, QueuedUpload>();
+  return {
+    all: async () => [...entries.values()],
+    put: async (entry) => { entries.set(entry.id, entry); },
+    delete: async (id) => { entries.delete(id); },
+  };
+}
+
+const store: QueueStore = typeof indexedDB !== 'undefined'
+  ? createIndexedDbStore(indexedDB)
+  : createMemoryStore();
+
+const listeners = new Set<Listener>();
+let processing: Promise<void> | null = null;
+
+function createId() {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function backoffFor(attempts: number) {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+function errorText(error: unknown) {
+  if (error instanceof ApiError) return error.userMessage;
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+async function sortedEntries() {
+  const entries = await store.all();
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+async function emit(event: { type: 'updated' } | { type: 'synced'; entry: QueuedUpload }) {
+  if (!listeners.size) return;
+  const entries = await sortedEntries();
+  for (const listener of listeners) {
+    listener({ ...event, entries });
+  }
+}
+
+export async function listQueuedUploads(vin?: string): Promise<QueuedUpload[]> {
+  const entries = await sortedEntries();
+  return vin ? entries.filter(entry => entry.vin === vin) : entries;
+}
+
+export async function enqueueUpload(input: {
+  vin: string;
+  role: ImageRole;
+  file: File;
+  originalFile?: File;
+  context?: Record<string, string | number | boolean>;
+  lastError?: string;
+}): Promise<QueuedUpload> {
+  // A newer photo for the same role supersedes anything still waiting
+  const existing = await store.all();
+  for (const entry of existing) {
+    if (entry.vin === input.vin && entry.role === input.role) {
+      await store.delete(entry.id);
+    }
+  }
+
+  const entry: QueuedUpload = {
+    id: createId(),
+    vin: input.vin,
+    role: input.role,
+    file: input.file,
+    originalFile: input.originalFile,
+    context: input.context,
+    inspector: getCurrentInspector() ?? undefined,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: input.lastError,
+    createdAt: Date.now(),
+  };
+
+  await store.put(entry);
+  log.info('Photo queued for sync', { vin: entry.vin, role: entry.role, fileSize: entry.file.size });
+  await emit({ type: 'updated' });
+  return entry;
+}
+
+async function attempt(entry: QueuedUpload) {
+  try {
+    await uploadPhotoDev(entry.vin, entry.role, entry.file, {
+      originalFile: entry.originalFile,
+      context: { ...entry.context, queued_sync: '1', queued_attempts: entry.attempts + 1 },
+      // Every replay of this entry is the same logical upload
+      idempotencyKey: entry.id,
+      inspector: entry.inspector,
+    });
+    await store.delete(entry.id);
+    log.info('Queued photo synced', { vin: entry.vin, role: entry.role, attempts: entry.attempts + 1 });
+    await emit({ type: 'synced', entry });
+  } catch (error: unknown) {
+    // Signed out or session expired: not the photo's fault, so wait for the next sign-in without using up an attempt
+    if (error instanceof ApiError && error.kind === 'unauthorized') {
+      log.info('Queued photo waiting for sign-in', { vin: entry.vin, role: entry.role });
+      throw error;
+    }
+
+    const attempts = entry.attempts + 1;
+    const retryable = !(error instanceof ApiError) || error.retryable;
+    const failed = !retryable || attempts >= MAX_ATTEMPTS;
+
+    await store.put({
+      ...entry,
+      attempts,
+      status: failed ? 'failed' : 'pending',
+      nextAttemptAt: Date.now() + backoffFor(attempts),
+      lastError: errorText(error),
+    });
+    log.warn('Queued photo sync failed', {
+      vin: entry.vin,
+      role: entry.role,
+      attempts,
+      failed,
+      error: serializeError(error),
+    });
+    await emit({ type: 'updated' });
+
+    // Network is gone again; leave the rest for the next 'online' event
+    if (error instanceof ApiError && error.kind === 'network') throw error;
+  }
+}
+
+export function processUploadQueue(): Promise<void> {
+  if (processing) return processing;
+
+  processing = (async () => {
+    try {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+      const due = (await sortedEntries()).filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= Date.now());
+      for (const entry of due) {
+        await attempt(entry);
+      }
+    } catch (error: unknown) {
+      if (error instanceof ApiError && (error.kind === 'network' || error.kind === 'unauthorized')) {
+        log.info('Upload queue paused', { reason: error.kind, error: serializeError(error) });
+      } else {
+        log.warn('Upload queue run failed', { error: serializeError(error) });
+      }
+    } finally {
+      processing = null;
+    }
+  })();
+
+  return processing;
+}
+
+export async function retryQueuedUpload(id: string): Promise<void> {
+  const entry = (await store.all()).find(item => item.id === id);
+  if (!entry) return;
+  await store.put({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+  await emit({ type: 'updated' });
+  // A run already in progress read its due list before this reset; start a fresh one after it
+  if (processing) await processing;
+  await processUploadQueue();
+}
+
+export async function discardQueuedUpload(id: string): Promise<void> {
+  await store.delete(id);
+  await emit({ type: 'updated' });
+}
+
+export function subscribeToUploadQueue(listener: Listener): () => void {
+  listeners.add(listener);
+  sortedEntries()
+    .then(entries => {
+      if (listeners.has(listener)) listener({ type: 'updated', entries });
+    })
+    .catch(error => log.warn('Failed to read upload queue', { error: serializeError(error) }));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Replays queued uploads on reconnect, sign-in and a slow timer; returns a stop function
+export function startUploadQueue(): () => void {
+  const onOnline = () => { void processUploadQueue(); };
+  window.addEventListener('online', onOnline);
+  const intervalId = setInterval(onOnline, POLL_INTERVAL_MS);
+  const unsubscribeAuth = subscribeToAuth(event => {
+    if (event.type === 'signed_in') onOnline();
+  });
+  onOnline();
+
+  return () => {
+    window.removeEventListener('online', onOnline);
+    clearInterval(intervalId);
+    unsubscribeAuth();
+  };
+}
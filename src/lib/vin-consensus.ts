@@ -0,0 +1,135 @@
+// src/lib/vin-consensus.ts
+// Votes on VIN reads from several OCR passes, character by character, weighted by per-symbol confidence
+import { computeCheckDigit } from './vin';
+
+// Below this a character is worth pointing out to the inspector before they accept the read
+export const UNCERTAIN_CHARACTER_CONFIDENCE = 60;
+
+export interface VinObservation {
+  text: string;
+  // Tesseract's confidence (0-100) in each character of `text`
+  confidences: number[];
+}
+
+export interface VinCharacter {
+  char: string;
+  // Summed confidence of the passes that read this character here, over the number of passes (0-100)
+  confidence: number;
+}
+
+export interface VinCandidate {
+  vin: string;
+  // Mean of the character confidences
+  confidence: number;
+  checkDigitValid: boolean;
+  characters: VinCharacter[];
+  // Passes that read exactly this string
+  votes: number;
+}
+
+export const passesCheckDigit = (vin: string) => vin.length === 17 && computeCheckDigit(vin) === vin[8];
+
+export function isUncertain(character: VinCharacter): boolean {
+  return character.confidence < UNCERTAIN_CHARACTER_CONFIDENCE;
+}
+
+// Positions in `vin` the reader was unsure of; empty when `characters` spell a different string, e.g. after the
+// inspector picked another candidate
+export function uncertainPositions(vin: string, characters: VinCharacter[]): number[] {
+  if (characters.map(character => character.char).join('') !== vin) return [];
+  return characters.flatMap((character, position) => (isUncertain(character) ? [position] : []));
+}
+
+const meanConfidence = (read: VinObservation) =>
+  read.confidences.reduce((sum, confidence) => sum + confidence, 0) / Math.max(1, read.confidences.length);
+
+// Full-length reads set the frame when there are any; otherwise the most common length does
+function pickReference(reads: VinObservation[]): string {
+  const byLength = new Map<number, VinObservation[]>();
+  for (const read of reads) byLength.set(read.text.length, [...(byLength.get(read.text.length) ?? []), read]);
+
+  const group = byLength.get(17) ?? [...byLength.values()].sort((a, b) => b.length - a.length || b[0].text.length - a[0].text.length)[0];
+  return [...group].sort((a, b) => meanConfidence(b) - meanConfidence(a))[0].text;
+}
+
+// Edit-distance alignment: for each reference position, the index of the read character aligned to it,
+// or null where the read dropped a character. Characters the read inserted are left out.
+export function alignToReference(reference: string, read: string): (number | null)[] {
+  const rows = reference.length + 1;
+  const cols = read.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = cost[i - 1][j - 1] + (reference[i - 1] === read[j - 1] ? 0 : 1);
+      cost[i][j] = Math.min(substitution, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  const aligned: (number | null)[] = Array.from({ length: reference.length }, () => null);
+  let i = reference.length;
+  let j = read.length;
+  while (i > 0 && j > 0) {
+    if (cost[i][j] === cost[i - 1][j - 1] + (reference[i - 1] === read[j - 1] ? 0 : 1)) {
+      aligned[--i] = --j;
+    } else if (cost[i][j] === cost[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return aligned;
+}
+
+// Ranked best first: checksum-valid strings, then full-length ones, then by confidence and votes
+export function buildVinConsensus(observations: VinObservation[]): VinCandidate[] {
+  const reads = observations.filter(read => read.text.length > 0);
+  if (!reads.length) return [];
+
+  const reference = pickReference(reads);
+  const tallies = [...reference].map(() => new Map<string, number>());
+  for (const read of reads) {
+    alignToReference(reference, read.text).forEach((index, position) => {
+      if (index === null) return;
+      const tally = tallies[position];
+      const char = read.text[index];
+      tally.set(char, (tally.get(char) ?? 0) + (read.confidences[index] ?? 0));
+    });
+  }
+
+  const support = (position: number, char: string) => (tallies[position].get(char) ?? 0) / reads.length;
+  const ranked = (position: number) => [...tallies[position].keys()].sort((a, b) => support(position, b) - support(position, a));
+  const consensus = tallies.map((_, position) => ranked(position)[0] ?? reference[position]).join('');
+
+  const strings = new Set([consensus]);
+  // A consensus that fails the check digit is usually one character out; try the runners-up at each position
+  if (consensus.length === 17 && !passesCheckDigit(consensus)) {
+    tallies.forEach((_, position) => {
+      for (const char of ranked(position).slice(1)) {
+        const repaired = consensus.slice(0, position) + char + consensus.slice(position + 1);
+        if (passesCheckDigit(repaired)) strings.add(repaired);
+      }
+    });
+  }
+  for (const read of reads) {
+    if (read.text.length === reference.length) strings.add(read.text);
+  }
+
+  return [...strings]
+    .map(vin => {
+      const characters = [...vin].map((char, position) => ({ char, confidence: Math.round(support(position, char)) }));
+      return {
+        vin,
+        confidence: Math.round(characters.reduce((sum, character) => sum + character.confidence, 0) / characters.length),
+        checkDigitValid: passesCheckDigit(vin),
+        characters,
+        votes: reads.filter(read => read.text === vin).length,
+      };
+    })
+    .sort((a, b) =>
+      Number(b.checkDigitValid) - Number(a.checkDigitValid) ||
+      Number(b.vin.length === 17) - Number(a.vin.length === 17) ||
+      b.confidence - a.confidence ||
+      b.votes - a.votes
+    );
+}
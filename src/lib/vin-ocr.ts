@@ -1,11 +1,17 @@
 import Tesseract from 'tesseract.js';
+import type { OcrBox, OcrTextRegion } from './api';
+import { ApiAbortError } from './api-errors';
+import { correctGeometry, toSourcePoint, type ImageTransform, type Size } from './image-geometry';
+import { preprocess, readImageData, toCanvas } from './image-pipeline';
+import { logger, serializeError } from './logger';
 import { normalizeVin } from './vin';
+import { buildVinConsensus, passesCheckDigit, type VinCandidate, type VinObservation } from './vin-consensus';
+
+const log = logger.withContext({ scope: 'vin-ocr' });
 
 // ---------- VIN helpers ----------
 export { normalizeVin } from './vin';
 
-type RecognizeConfig = Partial<Tesseract.WorkerOptions> & Partial<Tesseract.WorkerParams> & { tessedit_pageseg_mode?: Tesseract.PSM };
-
 function findVinCandidates(text: string): string[] {
   const U = text.toUpperCase();
 
@@ -63,126 +69,341 @@ function drawToCanvas(img: HTMLImageElement, maxW = 1200): HTMLCanvasElement {
   return c;
 }
 
-function thresholdCanvas(src: HTMLCanvasElement, th = 170, invert = false): HTMLCanvasElement {
-  const out = document.createElement('canvas');
-  out.width = src.width;
-  out.height = src.height;
-  const source = src.getContext('2d');
-  const destination = out.getContext('2d');
-  if (!source || !destination) return out;
-
-  const img = source.getImageData(0, 0, src.width, src.height);
-  const data = img.data;
-  for (let i = 0; i < data.length; i += 4) {
-    const lum = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
-    const bin = lum > th ? 255 : 0;
-    const val = invert ? 255 - bin : bin;
-    data[i] = data[i + 1] = data[i + 2] = val;
-  }
-  destination.putImageData(img, 0, 0);
-  return out;
+// ---------- worker pool ----------
+// Workers are created once and reused: starting one loads the language data, which costs far more than a pass
+const MAX_POOL_SIZE = 3;
+const PASS_TIMEOUT_MS = 4500;
+
+const OCR_PARAMETERS: Partial<Tesseract.WorkerParams> = {
+  tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789',
+  tessedit_char_blacklist: ':/.,;_()[]{}!@#$%^&*+=?~`\'"',
+};
+
+interface PooledWorker {
+  worker: Tesseract.Worker;
+  psm: Tesseract.PSM | null;
+  generation: number;
 }
 
+interface Waiter {
+  resolve: (pooled: PooledWorker) => void;
+  reject: (error: unknown) => void;
+}
 
+const idle: PooledWorker[] = [];
+const waiters: Waiter[] = [];
+let liveWorkers = 0;
+// Bumped by terminateVinOcr so workers busy at shutdown are not handed back to the pool
+let generation = 0;
 
-function gammaCanvas(src: HTMLCanvasElement, gamma = 1.25): HTMLCanvasElement {
-  const out = document.createElement('canvas');
-  out.width = src.width;
-  out.height = src.height;
-  const source = src.getContext('2d');
-  const destination = out.getContext('2d');
-  if (!source || !destination) return out;
+function poolSize(): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
 
-  const img = source.getImageData(0, 0, src.width, src.height);
-  const data = img.data;
-  const exponent = 1 / Math.max(0.01, gamma);
-  for (let i = 0; i < data.length; i += 4) {
-    data[i] = 255 * Math.pow(data[i] / 255, exponent);
-    data[i + 1] = 255 * Math.pow(data[i + 1] / 255, exponent);
-    data[i + 2] = 255 * Math.pow(data[i + 2] / 255, exponent);
+async function spawnWorker(): Promise<PooledWorker> {
+  liveWorkers++;
+  const spawnedFor = generation;
+  try {
+    const worker = await Tesseract.createWorker('eng');
+    await worker.setParameters(OCR_PARAMETERS);
+    return { worker, psm: null, generation: spawnedFor };
+  } catch (error) {
+    liveWorkers--;
+    throw error;
   }
-  destination.putImageData(img, 0, 0);
-  return out;
-}
-
-// tiny unsharp mask (light)
-function sharpenCanvas(src: HTMLCanvasElement): HTMLCanvasElement {
-  const out = document.createElement('canvas');
-  out.width = src.width;
-  out.height = src.height;
-  const destination = out.getContext('2d');
-  if (!destination) return out;
-
-  destination.drawImage(src, 0, 0);
-  const w = src.width;
-  const h = src.height;
-  const img = destination.getImageData(0, 0, w, h);
-  const data = img.data;
-  const copy = new Uint8ClampedArray(data);
-  const idx = (x: number, y: number) => (y * w + x) * 4;
-  const kernel = [0, -1, 0, -1, 5, -1, 0, -1, 0];
-
-  for (let y = 1; y < h - 1; y++) {
-    for (let x = 1; x < w - 1; x++) {
-      for (let c = 0; c < 3; c++) {
-        let acc = 0;
-        let kIndex = 0;
-        for (let ky = -1; ky <= 1; ky++) {
-          for (let kx = -1; kx <= 1; kx++) {
-            acc += copy[idx(x + kx, y + ky) + c] * kernel[kIndex++];
-          }
-        }
-        data[idx(x, y) + c] = Math.max(0, Math.min(255, acc));
-      }
-    }
+}
+
+function release(pooled: PooledWorker) {
+  if (pooled.generation !== generation) {
+    void pooled.worker.terminate().catch(() => undefined);
+    return;
   }
+  const waiter = waiters.shift();
+  if (waiter) waiter.resolve(pooled);
+  else idle.push(pooled);
+}
 
-  destination.putImageData(img, 0, 0);
-  return out;
+// Tesseract cannot interrupt a pass in progress; ending its worker is the only real stop. A replacement
+// starts straight away so the pool is warm again for the next scan.
+function discard(pooled: PooledWorker) {
+  void pooled.worker.terminate().catch(() => undefined);
+  if (pooled.generation !== generation) return;
+  liveWorkers--;
+  spawnWorker().then(release, (error: unknown) => waiters.shift()?.reject(error));
 }
 
-// ---------- OCR ----------
-async function ocrCanvas(canvas: HTMLCanvasElement, psm: number, timeoutMs = 4500): Promise<string | null> {
-  const run = async () => {
-    const options: RecognizeConfig = {
-      tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789',
-      tessedit_char_blacklist: ':/.,;_()[]{}!@#$%^&*+=?~`\'"',
-      tessedit_pageseg_mode: String(psm) as Tesseract.PSM,
+function acquire(signal: AbortSignal): Promise<PooledWorker> {
+  if (signal.aborted) return Promise.reject(new ApiAbortError());
+  const ready = idle.pop();
+  if (ready) return Promise.resolve(ready);
+  if (liveWorkers < poolSize()) return spawnWorker();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      waiters.splice(waiters.indexOf(waiter), 1);
+      reject(new ApiAbortError());
     };
-    const { data } = await Tesseract.recognize(canvas, 'eng', options);
-    const cands = findVinCandidates(String(data.text || ''));
-    return cands.length ? cands[0] : null;
+    const waiter: Waiter = {
+      resolve: pooled => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(pooled);
+      },
+      reject: error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    waiters.push(waiter);
+  });
+}
+
+// Starts the pool ahead of the first scan; safe to call repeatedly
+export function warmVinOcr(): void {
+  const missing = poolSize() - liveWorkers;
+  for (let i = 0; i < missing; i++) {
+    spawnWorker().then(release, (error: unknown) => log.warn('VIN OCR worker failed to start', { error: serializeError(error) }));
+  }
+}
+
+export async function terminateVinOcr(): Promise<void> {
+  generation++;
+  liveWorkers = 0;
+  waiters.splice(0).forEach(waiter => waiter.reject(new ApiAbortError()));
+  await Promise.all(idle.splice(0).map(pooled => pooled.worker.terminate().catch(() => undefined)));
+}
+
+// ---------- OCR ----------
+interface PassSymbol {
+  text: string;
+  confidence: number;
+}
+
+interface PassResult {
+  text: string;
+  confidence: number;
+  symbols: PassSymbol[];
+  // Lines and words, boxed as fractions of the image the pass read
+  regions: OcrTextRegion[];
+}
+
+const EMPTY_PASS: PassResult = { text: '', confidence: 0, symbols: [], regions: [] };
+
+function symbolsOf(page: Tesseract.Page): PassSymbol[] {
+  return (page.blocks ?? []).flatMap(block =>
+    block.paragraphs.flatMap(paragraph =>
+      paragraph.lines.flatMap(line =>
+        line.words.flatMap(word => word.symbols.map(symbol => ({ text: symbol.text, confidence: symbol.confidence })))
+      )
+    )
+  );
+}
+
+function imageSize(image: Tesseract.ImageLike): Size | null {
+  if (typeof image !== 'object' || !('width' in image) || !('height' in image)) return null;
+  const { width, height } = image;
+  return typeof width === 'number' && typeof height === 'number' && width > 0 && height > 0 ? { width, height } : null;
+}
+
+function regionsOf(page: Tesseract.Page, size: Size | null): OcrTextRegion[] {
+  if (!size) return [];
+  const box = ({ x0, y0, x1, y1 }: Tesseract.Bbox): OcrBox => ({
+    left: x0 / size.width,
+    top: y0 / size.height,
+    width: (x1 - x0) / size.width,
+    height: (y1 - y0) / size.height,
+  });
+  return (page.blocks ?? []).flatMap(block =>
+    block.paragraphs.flatMap(paragraph =>
+      paragraph.lines.flatMap(line => [
+        { text: line.text.trim(), box: box(line.bbox), confidence: line.confidence, level: 'line' as const },
+        ...line.words.map(word => ({ text: word.text, box: box(word.bbox), confidence: word.confidence, level: 'word' as const })),
+      ])
+    )
+  );
+}
+
+// Matches what normalizeVin keeps, so symbol positions line up with candidate positions
+const normalizeSymbol = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/[IOQ]/g, '');
+
+// Per-character confidences for a candidate found in the pass text, from the symbols Tesseract reported.
+// Falls back to the pass confidence when the symbols cannot be lined up with the candidate.
+function observe(vin: string, pass: PassResult): VinObservation {
+  const stream = pass.symbols.flatMap(symbol =>
+    [...normalizeSymbol(symbol.text)].map(char => ({ char, confidence: symbol.confidence }))
+  );
+  const at = stream.map(entry => entry.char).join('').indexOf(vin);
+  return {
+    text: vin,
+    confidences: [...vin].map((_, i) => (at >= 0 ? stream[at + i].confidence : pass.confidence)),
   };
-  return Promise.race([ run(), new Promise<null>(r => setTimeout(() => r(null), timeoutMs)) ]);
 }
 
-/** Robust public API */
-export async function extractVinFromImage(file: File): Promise<string | null> {
-  const img = await loadImage(file);
-  const base = drawToCanvas(img, 1200);
+// Resolves with the recognised text, or nothing when the pass ran out of time. The budget starts once a
+// worker is ready, so starting one never counts against it.
+async function recognizePass(image: Tesseract.ImageLike, psm: Tesseract.PSM, signal: AbortSignal, timeoutMs: number): Promise<PassResult> {
+  const pooled = await acquire(signal);
 
-  // Build candidate canvases (fast to slow)
-  const variants: HTMLCanvasElement[] = [
-    base,
-    thresholdCanvas(base, 170, false),
-    thresholdCanvas(base, 185, false),
-    thresholdCanvas(base, 200, false),
-    thresholdCanvas(base, 170, true),   // inverted
-    gammaCanvas(base, 1.35),
-    sharpenCanvas(thresholdCanvas(base, 185, false)),
-  ];
+  return new Promise<PassResult>((resolve, reject) => {
+    let settled = false;
+    let discarded = false;
+    const settle = (done: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      done();
+    };
+    const drop = () => {
+      if (discarded) return;
+      discarded = true;
+      discard(pooled);
+    };
+    const onAbort = () => settle(() => {
+      drop();
+      reject(new ApiAbortError());
+    });
+    // A slow pass is not worth a new worker and another language load: its result is ignored and the
+    // worker goes back to the pool once it finishes
+    const timer = setTimeout(() => settle(() => resolve(EMPTY_PASS)), timeoutMs);
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    (async () => {
+      if (pooled.psm !== psm) {
+        await pooled.worker.setParameters({ tessedit_pageseg_mode: psm });
+        pooled.psm = psm;
+      }
+      const { data } = await pooled.worker.recognize(image, {}, { text: true, blocks: true });
+      return {
+        text: String(data.text || ''),
+        confidence: Number(data.confidence) || 0,
+        symbols: symbolsOf(data),
+        regions: regionsOf(data, imageSize(image)),
+      };
+    })().then(
+      pass => {
+        if (!discarded) release(pooled);
+        settle(() => resolve(pass));
+      },
+      (error: unknown) => {
+        drop();
+        settle(() => reject(error));
+      }
+    );
+  });
+}
+
+export interface VinOcrOptions {
+  // Aborting stops every pass still running and rejects with ApiAbortError
+  signal?: AbortSignal;
+  // Passes run side by side, never more than the pool has workers
+  concurrency?: number;
+  timeoutMs?: number;
+}
+
+export interface VinReading extends VinCandidate {
+  // Every string the vote produced, best first; the reading itself is the first
+  candidates: VinCandidate[];
+  // What the pass that best supports the reading saw, boxed as fractions of the image
+  regions: OcrTextRegion[];
+}
 
-  const psms = [7, 6, 11, 13]; // try single-line first (often best for your sample)
+const PSMS = [7, 6, 11, 13].map(psm => String(psm) as Tesseract.PSM); // try single-line first (often best for your sample)
 
-  for (const cv of variants) {
-    for (const p of psms) {
-      const vin = await ocrCanvas(cv, p, 4500);
-      if (vin) return vin;
+// Passes that must read the same checksum-valid VIN before the rest are skipped
+const QUORUM = 3;
+
+// Runs every image through every page mode, best first, and votes on what the passes read. Once enough
+// passes agree on a checksum-valid VIN the remaining passes cannot change the outcome and are stopped.
+export async function recognizeVin(images: Tesseract.ImageLike[], options: VinOcrOptions = {}): Promise<VinReading | null> {
+  const { signal, concurrency = poolSize(), timeoutMs = PASS_TIMEOUT_MS } = options;
+  if (signal?.aborted) throw new ApiAbortError();
+
+  const passes = images.flatMap(image => PSMS.map(psm => ({ image, psm })));
+  const observations: VinObservation[] = [];
+  const observedRegions: OcrTextRegion[][] = [];
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  signal?.addEventListener('abort', stop, { once: true });
+
+  let next = 0;
+  let agreed = false;
+
+  const lane = async () => {
+    while (!agreed && next < passes.length) {
+      const index = next++;
+      const pass = await recognizePass(passes[index].image, passes[index].psm, controller.signal, timeoutMs);
+      const candidates = findVinCandidates(pass.text);
+      const valid = candidates.find(passesCheckDigit);
+      const best = valid ?? candidates[0];
+      if (!best) continue;
+
+      observations.push(observe(best, pass));
+      observedRegions.push(pass.regions);
+      if (valid && observations.filter(read => read.text === valid).length >= QUORUM) {
+        agreed = true;
+        stop();
+        return;
+      }
     }
+  };
+
+  try {
+    const lanes = Math.max(1, Math.min(concurrency, poolSize(), passes.length));
+    await Promise.all(Array.from({ length: lanes }, lane));
+  } catch (error: unknown) {
+    // Lanes cut short by our own stop are expected once the passes agree
+    if (!agreed || !(error instanceof ApiAbortError)) throw error;
+  } finally {
+    stop();
+    signal?.removeEventListener('abort', stop);
   }
-  return null;
+
+  const candidates = buildVinConsensus(observations);
+  if (!candidates.length) return null;
+
+  const mean = (read: VinObservation) => read.confidences.reduce((sum, value) => sum + value, 0) / read.confidences.length;
+  const supporting = observations
+    .map((read, index) => ({ read, index }))
+    .sort((a, b) => Number(b.read.text === candidates[0].vin) - Number(a.read.text === candidates[0].vin) || mean(b.read) - mean(a.read));
+  return { ...candidates[0], candidates, regions: observedRegions[supporting[0].index] };
 }
 
+// Boxes read on the corrected image, moved back onto the photo it came from
+function regionsOnPhoto(regions: OcrTextRegion[], transform: ImageTransform, photo: Size, corrected: Size): OcrTextRegion[] {
+  if (!transform.applied) return regions;
+  return regions.map(region => {
+    const { left, top, width, height } = region.box;
+    const corners = [[left, top], [left + width, top], [left + width, top + height], [left, top + height]].map(([x, y]) =>
+      toSourcePoint({ x: x * corrected.width, y: y * corrected.height }, transform, photo, corrected)
+    );
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const x0 = clamp(Math.min(...corners.map(corner => corner.x)) / photo.width);
+    const x1 = clamp(Math.max(...corners.map(corner => corner.x)) / photo.width);
+    const y0 = clamp(Math.min(...corners.map(corner => corner.y)) / photo.height);
+    const y1 = clamp(Math.max(...corners.map(corner => corner.y)) / photo.height);
+    return { ...region, box: { left: x0, top: y0, width: x1 - x0, height: y1 - y0 } };
+  });
+}
 
+export async function readVinFromImage(file: File, options: VinOcrOptions = {}): Promise<VinReading | null> {
+  const img = await loadImage(file);
+  const base = drawToCanvas(img, 1200);
+  const { image, transform } = correctGeometry(readImageData(base));
+  const variants = preprocess(image, 'vin_plate').map(toCanvas);
 
+  const reading = await recognizeVin(variants, options);
+  return reading && { ...reading, regions: regionsOnPhoto(reading.regions, transform, base, image) };
+}
 
+/** Robust public API */
+export async function extractVinFromImage(file: File, options: VinOcrOptions = {}): Promise<string | null> {
+  const reading = await readVinFromImage(file, options);
+  return reading?.vin ?? null;
+}
@@ -28,44 +28,44 @@ export function formatVin(value: string): string {
 
 export function isValidVin(vin: string): boolean {
   const normalized = normalizeVin(vin);
-  if (!normalized || normalized.length !== 17) return false;
-  if (!/^[A-HJ-NPR-Z0-9]{17}$/i.test(normalized)) return false;
-
-  if (hasObviousOcrErrors(normalized)) return false;
+  if (!normalized) return false;
+  return validateVin(normalized).valid;
+}
 
-  const weights = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
-  const values: Record<string, number> = {
-    '0': 0, '1': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
-    'A': 1, 'B': 2, 'C': 3, 'D': 4, 'E': 5, 'F': 6, 'G': 7, 'H': 8,
-    'J': 1, 'K': 2, 'L': 3, 'M': 4, 'N': 5, 'P': 7, 'R': 9, 'S': 2,
-    'T': 3, 'U': 4, 'V': 5, 'W': 6, 'X': 7, 'Y': 8, 'Z': 9,
-  };
+const CHECK_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+const TRANSLITERATION: Record<string, number> = {
+  '0': 0, '1': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
+  'A': 1, 'B': 2, 'C': 3, 'D': 4, 'E': 5, 'F': 6, 'G': 7, 'H': 8,
+  'J': 1, 'K': 2, 'L': 3, 'M': 4, 'N': 5, 'P': 7, 'R': 9, 'S': 2,
+  'T': 3, 'U': 4, 'V': 5, 'W': 6, 'X': 7, 'Y': 8, 'Z': 9,
+};
 
+// The position-9 check digit a 17-character VIN should carry ('0'-'9' or 'X')
+export function computeCheckDigit(vin: string): string {
   let sum = 0;
   for (let i = 0; i < 17; i++) {
     if (i === 8) continue;
-    sum += (values[normalized[i]] || 0) * weights[i];
+    sum += (TRANSLITERATION[vin[i]] || 0) * CHECK_WEIGHTS[i];
   }
 
   const checkDigit = sum % 11;
-  const expectedCheck = checkDigit === 10 ? 'X' : checkDigit.toString();
+  return checkDigit === 10 ? 'X' : checkDigit.toString();
+}
 
-  if (normalized[8] !== expectedCheck) {
-    return hasSAVinTolerance(normalized, expectedCheck);
-  }
+const SUSPICIOUS_PATTERNS: Array<{ pattern: RegExp; description: string }> = [
+  { pattern: /[IL1]{3,}/, description: 'a run of I/L/1 lookalikes' },
+  { pattern: /[O0]{4,}/, description: 'a run of O/0 lookalikes' },
+  { pattern: /^[0-9]{17}$/, description: 'digits only' },
+  { pattern: /^[A-Z]{17}$/, description: 'letters only' },
+  { pattern: /(.)\1{5,}/, description: 'one character repeated six or more times' },
+];
 
-  return true;
+function findSuspiciousPattern(vin: string): string | null {
+  return SUSPICIOUS_PATTERNS.find(({ pattern }) => pattern.test(vin))?.description ?? null;
 }
 
 function hasObviousOcrErrors(vin: string): boolean {
-  const suspiciousPatterns = [
-    /[IL1]{3,}/,
-    /[O0]{4,}/,
-    /^[0-9]{17}$/,
-    /^[A-Z]{17}$/,
-    /(.)\1{5,}/,
-  ];
-  return suspiciousPatterns.some((pattern) => pattern.test(vin));
+  return findSuspiciousPattern(vin) !== null;
 }
 
 function hasSAVinTolerance(vin: string, expectedCheck: string): boolean {
@@ -88,3 +88,467 @@ function hasSAVinTolerance(vin: string, expectedCheck: string): boolean {
 function looksLikeSouthAfricanVin(vin: string): boolean {
   return vin.startsWith('A') || vin.startsWith('B') || vin.startsWith('V');
 }
+
+// --- Decoding (ISO 3779 layout: WMI 1-3, VDS 4-9, VIS 10-17) ---
+
+export interface DecodedVin {
+  vin: string;
+  wmi: string;
+  vds: string;
+  vis: string;
+  region: string | null;
+  country: string | null;
+  // Null until the WMI dataset has loaded (see loadWmiDataset) or when the WMI is not listed
+  manufacturer: string | null;
+  // Best guess; `modelYearCandidates` lists every year the code could mean up to next year
+  modelYear: number | null;
+  modelYearCandidates: number[];
+  // 'position7' when the NA alpha/numeric rule picked the cycle, 'latest' when it could not
+  modelYearRule: 'position7' | 'latest' | null;
+  plantCode: string | null;
+  serialNumber: string | null;
+  // Makers building under 1000 vehicles a year share a WMI ending in 9 and continue it in VIS 12-14
+  lowVolumeManufacturer: boolean;
+  checkDigitValid: boolean | null;
+}
+
+export interface DecodeVinOptions {
+  // Model years run up to one year ahead of this; defaults to the current year
+  referenceYear?: number;
+}
+
+const REGIONS: Array<{ from: string; to: string; name: string }> = [
+  { from: 'A', to: 'H', name: 'Africa' },
+  { from: 'J', to: 'R', name: 'Asia' },
+  { from: 'S', to: 'Z', name: 'Europe' },
+  { from: '1', to: '5', name: 'North America' },
+  { from: '6', to: '7', name: 'Oceania' },
+  { from: '8', to: '9', name: 'South America' },
+];
+
+// ISO 3779 allocations by first character and a range of second characters
+const COUNTRIES: Record<string, Array<{ from: string; to: string; name: string }>> = {
+  A: [{ from: 'A', to: 'H', name: 'South Africa' }, { from: 'J', to: 'N', name: 'Ivory Coast' }],
+  B: [{ from: 'A', to: 'E', name: 'Angola' }, { from: 'F', to: 'K', name: 'Kenya' }, { from: 'L', to: 'R', name: 'Tanzania' }],
+  C: [{ from: 'A', to: 'E', name: 'Benin' }, { from: 'F', to: 'K', name: 'Madagascar' }, { from: 'L', to: 'R', name: 'Tunisia' }],
+  D: [{ from: 'A', to: 'E', name: 'Egypt' }, { from: 'F', to: 'K', name: 'Morocco' }, { from: 'L', to: 'R', name: 'Zambia' }],
+  E: [{ from: 'A', to: 'E', name: 'Ethiopia' }, { from: 'F', to: 'K', name: 'Mozambique' }],
+  F: [{ from: 'A', to: 'E', name: 'Ghana' }, { from: 'F', to: 'K', name: 'Nigeria' }],
+  J: [{ from: 'A', to: '0', name: 'Japan' }],
+  K: [{ from: 'A', to: 'E', name: 'Sri Lanka' }, { from: 'F', to: 'K', name: 'Israel' }, { from: 'L', to: 'R', name: 'South Korea' }, { from: 'S', to: '0', name: 'Kazakhstan' }],
+  L: [{ from: 'A', to: '0', name: 'China' }],
+  M: [{ from: 'A', to: 'E', name: 'India' }, { from: 'F', to: 'K', name: 'Indonesia' }, { from: 'L', to: 'R', name: 'Thailand' }, { from: 'S', to: '0', name: 'Myanmar' }],
+  N: [{ from: 'A', to: 'E', name: 'Iran' }, { from: 'F', to: 'K', name: 'Pakistan' }, { from: 'L', to: 'R', name: 'Turkey' }],
+  P: [{ from: 'A', to: 'E', name: 'Philippines' }, { from: 'F', to: 'K', name: 'Singapore' }, { from: 'L', to: 'R', name: 'Malaysia' }],
+  R: [{ from: 'A', to: 'E', name: 'United Arab Emirates' }, { from: 'F', to: 'K', name: 'Taiwan' }, { from: 'L', to: 'R', name: 'Vietnam' }],
+  S: [{ from: 'A', to: 'M', name: 'United Kingdom' }, { from: 'N', to: 'T', name: 'Germany' }, { from: 'U', to: 'Z', name: 'Poland' }],
+  T: [{ from: 'A', to: 'H', name: 'Switzerland' }, { from: 'J', to: 'P', name: 'Czech Republic' }, { from: 'R', to: 'V', name: 'Hungary' }, { from: 'W', to: '1', name: 'Portugal' }],
+  U: [{ from: 'H', to: 'M', name: 'Denmark' }, { from: 'N', to: 'T', name: 'Ireland' }, { from: 'U', to: 'Z', name: 'Romania' }, { from: '5', to: '7', name: 'Slovakia' }],
+  V: [{ from: 'A', to: 'E', name: 'Austria' }, { from: 'F', to: 'R', name: 'France' }, { from: 'S', to: 'W', name: 'Spain' }, { from: 'X', to: '2', name: 'Serbia' }, { from: '3', to: '5', name: 'Croatia' }],
+  W: [{ from: 'A', to: '0', name: 'Germany' }],
+  X: [{ from: 'L', to: 'R', name: 'Netherlands' }, { from: 'S', to: 'W', name: 'Russia' }, { from: '3', to: '0', name: 'Russia' }],
+  Y: [{ from: 'A', to: 'E', name: 'Belgium' }, { from: 'F', to: 'K', name: 'Finland' }, { from: 'S', to: 'W', name: 'Sweden' }],
+  Z: [{ from: 'A', to: 'R', name: 'Italy' }],
+  '1': [{ from: 'A', to: '0', name: 'United States' }],
+  '2': [{ from: 'A', to: '0', name: 'Canada' }],
+  '3': [{ from: 'A', to: 'W', name: 'Mexico' }],
+  '4': [{ from: 'A', to: '0', name: 'United States' }],
+  '5': [{ from: 'A', to: '0', name: 'United States' }],
+  '6': [{ from: 'A', to: 'W', name: 'Australia' }],
+  '7': [{ from: 'A', to: 'E', name: 'New Zealand' }],
+  '8': [{ from: 'A', to: 'E', name: 'Argentina' }, { from: 'F', to: 'K', name: 'Chile' }, { from: 'X', to: '2', name: 'Venezuela' }],
+  '9': [{ from: 'A', to: 'E', name: 'Brazil' }, { from: 'F', to: 'K', name: 'Colombia' }, { from: '3', to: '9', name: 'Brazil' }],
+};
+
+// Order ISO 3779 ranges are written in
+const RANGE_SEQUENCE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ1234567890';
+
+function inRange(char: string, from: string, to: string): boolean {
+  const index = RANGE_SEQUENCE.indexOf(char);
+  return index >= RANGE_SEQUENCE.indexOf(from) && index <= RANGE_SEQUENCE.indexOf(to);
+}
+
+// Region from the first character, country from the first two
+function originOf(code: string): { region: string | null; country: string | null } {
+  const region = code[0] ? REGIONS.find(r => inRange(code[0], r.from, r.to))?.name ?? null : null;
+  const country = code.length >= 2
+    ? COUNTRIES[code[0]]?.find(c => inRange(code[1], c.from, c.to))?.name ?? null
+    : null;
+  return { region, country };
+}
+
+// --- Manufacturer lookup (offline dataset in wmi-data.ts) ---
+
+export type VehicleType = 'passenger' | 'multipurpose' | 'light_commercial' | 'truck' | 'bus' | 'motorcycle' | 'trailer';
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  passenger: 'Passenger car',
+  multipurpose: 'SUV / MPV',
+  light_commercial: 'Light commercial',
+  truck: 'Truck',
+  bus: 'Bus',
+  motorcycle: 'Motorcycle',
+  trailer: 'Trailer',
+};
+
+export interface WmiDatasetEntry {
+  make: string;
+  manufacturer: string;
+  vehicleType: VehicleType;
+  // Only where the allocation differs from the ISO 3779 country ranges
+  country?: string;
+}
+
+export interface WmiDataset {
+  version: string;
+  // Keyed by 3-character WMI, or 6 characters (WMI + VIS 12-14) for low-volume makers
+  entries: Record<string, WmiDatasetEntry>;
+}
+
+export interface WmiInfo {
+  code: string;
+  make: string | null;
+  manufacturer: string | null;
+  vehicleType: VehicleType | null;
+  region: string | null;
+  country: string | null;
+  // 'derived' means the code is not in the dataset and only its origin is known
+  source: 'dataset' | 'derived';
+  datasetVersion: string | null;
+}
+
+let wmiDataset: WmiDataset | null = null;
+let wmiDatasetLoad: Promise<WmiDataset> | null = null;
+
+export function loadWmiDataset(): Promise<WmiDataset> {
+  if (!wmiDatasetLoad) {
+    wmiDatasetLoad = import('./wmi-data')
+      .then(module => {
+        wmiDataset = module.WMI_DATASET;
+        return wmiDataset;
+      })
+      .catch((error: unknown) => {
+        // Allow a later lookup to try again, e.g. once the service worker has the chunk
+        wmiDatasetLoad = null;
+        throw error;
+      });
+  }
+  return wmiDatasetLoad;
+}
+
+function wmiInfoFrom(code: string, dataset: WmiDataset | null): WmiInfo {
+  const entry = dataset ? dataset.entries[code] ?? dataset.entries[code.slice(0, 3)] : undefined;
+  const origin = originOf(code);
+  if (!entry) {
+    return { code, make: null, manufacturer: null, vehicleType: null, ...origin, source: 'derived', datasetVersion: dataset?.version ?? null };
+  }
+  return {
+    code,
+    make: entry.make,
+    manufacturer: entry.manufacturer,
+    vehicleType: entry.vehicleType,
+    region: origin.region,
+    country: entry.country ?? origin.country,
+    source: 'dataset',
+    datasetVersion: dataset?.version ?? null,
+  };
+}
+
+// Low-volume makers (WMI ending in 9) are told apart by VIS 12-14
+function wmiKey(value: string): string {
+  if (value[2] !== '9') return value.slice(0, 3);
+  if (value.length === 6) return value;
+  return value.length >= 14 ? value.slice(0, 3) + value.slice(11, 14) : value.slice(0, 3);
+}
+
+// Accepts a WMI, a low-volume WMI + VIS 12-14, or a whole VIN. Never rejects: if the dataset
+// cannot be loaded the answer falls back to the origin derived from the first two characters.
+export async function lookupWmi(code: string): Promise<WmiInfo> {
+  const dataset = await loadWmiDataset().catch(() => null);
+  return wmiInfoFrom(wmiKey(normalizeVin(code)), dataset);
+}
+
+// Synchronous lookup for render paths; manufacturer fields stay empty until the dataset has loaded
+export function peekWmi(code: string): WmiInfo {
+  return wmiInfoFrom(wmiKey(normalizeVin(code)), wmiDataset);
+}
+
+// Position-10 codes in order, starting at 1980 and repeating every 30 years
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_CYCLE_START = 1980;
+
+function decodeModelYear(
+  vin: string,
+  referenceYear: number,
+  followsNorthAmericanRules: boolean
+): Pick<DecodedVin, 'modelYear' | 'modelYearCandidates' | 'modelYearRule'> {
+  const offset = vin.length >= 10 ? MODEL_YEAR_CODES.indexOf(vin[9]) : -1;
+  if (offset < 0) return { modelYear: null, modelYearCandidates: [], modelYearRule: null };
+
+  const candidates: number[] = [];
+  for (let year = MODEL_YEAR_CYCLE_START + offset; year <= referenceYear + 1; year += 30) {
+    candidates.push(year);
+  }
+  if (!candidates.length) return { modelYear: null, modelYearCandidates: [], modelYearRule: null };
+
+  // NA rule: a numeric position 7 means the 1980-2009 cycle (and 2040, 2100...), a letter means 2010-2039 (2070...)
+  if (followsNorthAmericanRules) {
+    const numericSeventh = /[0-9]/.test(vin[6]);
+    const preferred = candidates.filter(year => (Math.floor((year - MODEL_YEAR_CYCLE_START) / 30) % 2 === 0) === numericSeventh);
+    if (preferred.length) {
+      return { modelYear: preferred[preferred.length - 1], modelYearCandidates: candidates, modelYearRule: 'position7' };
+    }
+  }
+  // Makers that ignore the rule (e.g. European 'ZZZ' filler VINs) get the most recent plausible year
+  return { modelYear: candidates[candidates.length - 1], modelYearCandidates: candidates, modelYearRule: 'latest' };
+}
+
+export function decodeVin(raw: string, options: DecodeVinOptions = {}): DecodedVin {
+  const vin = normalizeVin(raw);
+  const referenceYear = options.referenceYear ?? new Date().getFullYear();
+  const wmi = vin.slice(0, 3);
+  const lowVolumeManufacturer = wmi.length === 3 && wmi[2] === '9';
+
+  const checkDigitValid = vin.length === 17 ? computeCheckDigit(vin) === vin[8] : null;
+  const wmiInfo = peekWmi(vin);
+
+  return {
+    vin,
+    wmi,
+    vds: vin.slice(3, 9),
+    vis: vin.slice(9),
+    region: wmiInfo.region,
+    country: wmiInfo.country,
+    manufacturer: wmiInfo.manufacturer,
+    // The check digit and the position-7 rule come from the same NA regulation, so one signals the other
+    ...decodeModelYear(vin, referenceYear, checkDigitValid === true),
+    plantCode: vin.length >= 11 ? vin[10] : null,
+    serialNumber: vin.length === 17 ? vin.slice(lowVolumeManufacturer ? 14 : 11) : null,
+    lowVolumeManufacturer,
+    checkDigitValid,
+  };
+}
+
+// --- Correction suggestions ---
+
+export interface VinCorrection {
+  vin: string;
+  // 1-based positions, as printed on VIN plates
+  changes: Array<{ position: number; from: string; to: string }>;
+  // Relative likelihood; only meaningful for ranking suggestions for the same input
+  score: number;
+}
+
+export interface VinCorrectionOptions {
+  limit?: number;
+  maxSubstitutions?: 1 | 2;
+}
+
+// Pairs OCR engines confuse on stamped and printed VIN plates, with how often each mix-up happens
+const OCR_CONFUSIONS: Array<[string, string, number]> = [
+  ['0', 'D', 0.9], ['5', 'S', 0.9], ['8', 'B', 0.9], ['2', 'Z', 0.8], ['6', 'G', 0.8],
+  ['1', '7', 0.7], ['U', 'V', 0.7], ['1', 'L', 0.6], ['1', 'T', 0.4], ['7', 'T', 0.5],
+  ['4', 'A', 0.5], ['3', '8', 0.5], ['E', 'F', 0.5], ['M', 'N', 0.5], ['0', 'C', 0.4],
+  ['0', '8', 0.4], ['C', 'G', 0.4], ['K', 'X', 0.4], ['P', 'R', 0.4], ['V', 'W', 0.4],
+  ['V', 'Y', 0.3], ['H', 'N', 0.3],
+];
+
+const CONFUSIONS_BY_CHAR = OCR_CONFUSIONS.reduce<Record<string, Array<{ to: string; weight: number }>>>(
+  (byChar, [a, b, weight]) => {
+    (byChar[a] ??= []).push({ to: b, weight });
+    (byChar[b] ??= []).push({ to: a, weight });
+    return byChar;
+  },
+  {}
+);
+
+interface Substitution {
+  index: number;
+  to: string;
+  weight: number;
+}
+
+// How plausible `char` is at a 0-based position, beyond the confusion itself
+function positionPrior(char: string, index: number): number {
+  // Model-year codes never use U, Z or 0
+  if (index === 9 && !MODEL_YEAR_CODES.includes(char)) return 0.1;
+  // High-volume makers keep the last four characters numeric
+  if (index >= 13) return /[0-9]/.test(char) ? 1.5 : 0.3;
+  return 1;
+}
+
+// Checksum-valid VINs one or two OCR confusions away from `raw`, most likely first.
+// Empty when `raw` is not 17 characters or already passes the checksum.
+export function suggestVinCorrections(raw: string, options: VinCorrectionOptions = {}): VinCorrection[] {
+  const vin = normalizeVin(raw);
+  if (vin.length !== 17 || computeCheckDigit(vin) === vin[8]) return [];
+
+  const limit = options.limit ?? 5;
+  const maxSubstitutions = options.maxSubstitutions ?? 2;
+
+  const substitutions: Substitution[] = [];
+  for (let i = 0; i < 17; i++) {
+    for (const { to, weight } of CONFUSIONS_BY_CHAR[vin[i]] ?? []) {
+      substitutions.push({ index: i, to, weight: weight * positionPrior(to, i) / positionPrior(vin[i], i) });
+    }
+  }
+
+  const found = new Map<string, VinCorrection>();
+  const consider = (subs: Substitution[]) => {
+    const chars = vin.split('');
+    let score = 1;
+    for (const sub of subs) {
+      chars[sub.index] = sub.to;
+      score *= sub.weight;
+    }
+    const candidate = chars.join('');
+    if (computeCheckDigit(candidate) !== candidate[8] || hasObviousOcrErrors(candidate)) return;
+    const existing = found.get(candidate);
+    if (existing && existing.score >= score) return;
+    found.set(candidate, {
+      vin: candidate,
+      changes: subs.map(sub => ({ position: sub.index + 1, from: vin[sub.index], to: sub.to })),
+      score,
+    });
+  };
+
+  for (let a = 0; a < substitutions.length; a++) {
+    consider([substitutions[a]]);
+    if (maxSubstitutions < 2) continue;
+    for (let b = a + 1; b < substitutions.length; b++) {
+      if (substitutions[b].index !== substitutions[a].index) consider([substitutions[a], substitutions[b]]);
+    }
+  }
+
+  return [...found.values()].sort((x, y) => y.score - x.score).slice(0, limit);
+}
+
+// --- Validation with reasons ---
+
+export type VinFindingCode =
+  | 'empty'
+  | 'wrong_length'
+  | 'illegal_characters'
+  | 'suspicious_pattern'
+  | 'checksum_mismatch'
+  | 'sa_check_digit_variance'
+  | 'short_chassis';
+
+export type VinFindingSeverity = 'error' | 'warning' | 'info';
+
+export interface VinFinding {
+  code: VinFindingCode;
+  severity: VinFindingSeverity;
+  message: string;
+  // 1-based positions the finding is about, when it is about specific characters
+  positions?: number[];
+}
+
+export interface VinValidation {
+  vin: string;
+  // True when no finding is an error
+  valid: boolean;
+  // Most severe finding, or null when there are none
+  severity: VinFindingSeverity | null;
+  findings: VinFinding[];
+}
+
+export interface VinValidationPolicy {
+  // Treat a check-digit mismatch as an error (the North American rule) rather than a warning
+  enforceCheckDigit: boolean;
+  // Regions, as named by decodeVin, where ISO 3779 leaves the check digit optional; a mismatch there is
+  // only a warning even when enforceCheckDigit is on
+  checkDigitOptionalRegions: string[];
+  // Accept 5-16 character chassis numbers from before the 17-character standard (1981)
+  allowShortChassis: boolean;
+  // Forgive a lookalike check digit (S for 5, B for 8...) on South African-built VINs
+  tolerateSaCheckDigit: boolean;
+}
+
+// What isValidVin has always applied
+export const DEFAULT_VIN_POLICY: VinValidationPolicy = {
+  enforceCheckDigit: true,
+  checkDigitOptionalRegions: [],
+  allowShortChassis: false,
+  tolerateSaCheckDigit: true,
+};
+
+// ISO 3779 as written: only North American VINs must carry a valid check digit
+export const ISO_3779_VIN_POLICY: VinValidationPolicy = {
+  ...DEFAULT_VIN_POLICY,
+  checkDigitOptionalRegions: ['Africa', 'Asia', 'Europe', 'Oceania', 'South America'],
+};
+
+const SEVERITY_RANK: Record<VinFindingSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+// Unlike isValidVin this does not normalise away I, O and Q, so it can report them; pass the text as read
+export function validateVin(raw: string, policy: VinValidationPolicy = DEFAULT_VIN_POLICY): VinValidation {
+  const vin = (raw || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const findings: VinFinding[] = [];
+
+  if (!vin) {
+    findings.push({ code: 'empty', severity: 'error', message: 'No VIN entered.' });
+  } else {
+    const illegal = vin.split('').flatMap((char, idx) => (/[IOQ]/.test(char) ? [idx + 1] : []));
+    if (illegal.length) {
+      findings.push({
+        code: 'illegal_characters',
+        severity: 'error',
+        message: `VINs never contain I, O or Q (found at position ${illegal.join(', ')}).`,
+        positions: illegal,
+      });
+    }
+
+    if (vin.length !== 17) {
+      if (policy.allowShortChassis && vin.length >= 5 && vin.length < 17) {
+        findings.push({
+          code: 'short_chassis',
+          severity: 'info',
+          message: `Pre-1981 chassis number (${vin.length} characters); no check digit applies.`,
+        });
+      } else {
+        findings.push({
+          code: 'wrong_length',
+          severity: 'error',
+          message: `A VIN has 17 characters; this has ${vin.length}.`,
+        });
+      }
+    } else if (!illegal.length) {
+      const suspicious = findSuspiciousPattern(vin);
+      if (suspicious) {
+        findings.push({
+          code: 'suspicious_pattern',
+          severity: 'error',
+          message: `Looks like a misread: ${suspicious}.`,
+        });
+      }
+
+      const expected = computeCheckDigit(vin);
+      if (vin[8] !== expected) {
+        if (policy.tolerateSaCheckDigit && hasSAVinTolerance(vin, expected)) {
+          findings.push({
+            code: 'sa_check_digit_variance',
+            severity: 'info',
+            message: `Check digit ${vin[8]} accepted as a lookalike of ${expected} on a South African VIN.`,
+            positions: [9],
+          });
+        } else {
+          const optional = !policy.enforceCheckDigit ||
+            policy.checkDigitOptionalRegions.includes(originOf(vin).region ?? '');
+          findings.push({
+            code: 'checksum_mismatch',
+            severity: optional ? 'warning' : 'error',
+            message: `Check digit is ${vin[8]} but the other characters give ${expected}${optional ? ' (not mandatory for this region)' : ''}.`,
+            positions: [9],
+          });
+        }
+      }
+    }
+  }
+
+  const severity = findings.reduce<VinFindingSeverity | null>(
+    (worst, finding) => (!worst || SEVERITY_RANK[finding.severity] > SEVERITY_RANK[worst] ? finding.severity : worst),
+    null
+  );
+  return { vin, valid: severity !== 'error', severity, findings };
+}
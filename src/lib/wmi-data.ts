@@ -0,0 +1,91 @@
+// src/lib/wmi-data.ts
+// Offline WMI dataset; imported lazily by vin.ts so it lands in its own precached chunk
+
+import type { WmiDataset } from './vin';
+
+// Bump when entries change so stored lookups can tell which edition produced them
+export const WMI_DATASET: WmiDataset = {
+  version: '2026.10.1',
+  entries: {
+    // South African assemblers
+    AAV: { make: 'Volkswagen', manufacturer: 'Volkswagen Group South Africa', vehicleType: 'passenger' },
+    AAM: { make: 'MAN', manufacturer: 'MAN Truck & Bus South Africa', vehicleType: 'truck' },
+    ABA: { make: 'BMW', manufacturer: 'BMW South Africa', vehicleType: 'passenger' },
+    ABM: { make: 'BMW', manufacturer: 'BMW South Africa', vehicleType: 'passenger' },
+    ACA: { make: 'Nissan', manufacturer: 'Nissan South Africa', vehicleType: 'passenger' },
+    ACV: { make: 'Isuzu', manufacturer: 'Isuzu Motors South Africa', vehicleType: 'light_commercial' },
+    ADB: { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz South Africa', vehicleType: 'passenger' },
+    ADM: { make: 'Chevrolet', manufacturer: 'General Motors South Africa', vehicleType: 'light_commercial' },
+    ADN: { make: 'Nissan', manufacturer: 'Nissan South Africa', vehicleType: 'light_commercial' },
+    AFA: { make: 'Ford', manufacturer: 'Ford Motor Company of Southern Africa', vehicleType: 'light_commercial' },
+    AHA: { make: 'Toyota', manufacturer: 'Toyota South Africa Motors', vehicleType: 'passenger' },
+    AHT: { make: 'Toyota', manufacturer: 'Toyota South Africa Motors', vehicleType: 'passenger' },
+    AJA: { make: 'Ford', manufacturer: 'Ford Motor Company of Southern Africa', vehicleType: 'passenger' },
+    AKA: { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz South Africa', vehicleType: 'passenger' },
+    ALA: { make: 'Chevrolet', manufacturer: 'General Motors South Africa', vehicleType: 'passenger' },
+
+    // Europe
+    SAJ: { make: 'Jaguar', manufacturer: 'Jaguar Land Rover', vehicleType: 'passenger' },
+    SAL: { make: 'Land Rover', manufacturer: 'Jaguar Land Rover', vehicleType: 'multipurpose' },
+    TMB: { make: 'Skoda', manufacturer: 'Skoda Auto', vehicleType: 'passenger' },
+    VF1: { make: 'Renault', manufacturer: 'Renault', vehicleType: 'passenger' },
+    VF3: { make: 'Peugeot', manufacturer: 'Stellantis (Peugeot)', vehicleType: 'passenger' },
+    VF7: { make: 'Citroen', manufacturer: 'Stellantis (Citroen)', vehicleType: 'passenger' },
+    VSS: { make: 'SEAT', manufacturer: 'SEAT', vehicleType: 'passenger' },
+    W0L: { make: 'Opel', manufacturer: 'Opel Automobile', vehicleType: 'passenger' },
+    WAU: { make: 'Audi', manufacturer: 'Audi', vehicleType: 'passenger' },
+    WB1: { make: 'BMW', manufacturer: 'BMW Motorrad', vehicleType: 'motorcycle' },
+    WBA: { make: 'BMW', manufacturer: 'BMW', vehicleType: 'passenger' },
+    WBS: { make: 'BMW M', manufacturer: 'BMW M', vehicleType: 'passenger' },
+    WBY: { make: 'BMW i', manufacturer: 'BMW', vehicleType: 'passenger' },
+    WDB: { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz', vehicleType: 'passenger' },
+    WDC: { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz', vehicleType: 'multipurpose' },
+    WDD: { make: 'Mercedes-Benz', manufacturer: 'Mercedes-Benz', vehicleType: 'passenger' },
+    WF0: { make: 'Ford', manufacturer: 'Ford-Werke', vehicleType: 'passenger' },
+    WMW: { make: 'MINI', manufacturer: 'BMW (MINI)', vehicleType: 'passenger' },
+    WP0: { make: 'Porsche', manufacturer: 'Porsche', vehicleType: 'passenger' },
+    WV1: { make: 'Volkswagen', manufacturer: 'Volkswagen Commercial Vehicles', vehicleType: 'light_commercial' },
+    WV2: { make: 'Volkswagen', manufacturer: 'Volkswagen Commercial Vehicles', vehicleType: 'multipurpose' },
+    WVW: { make: 'Volkswagen', manufacturer: 'Volkswagen', vehicleType: 'passenger' },
+    YV1: { make: 'Volvo', manufacturer: 'Volvo Cars', vehicleType: 'passenger' },
+    ZAR: { make: 'Alfa Romeo', manufacturer: 'Stellantis (Alfa Romeo)', vehicleType: 'passenger' },
+    ZDM: { make: 'Ducati', manufacturer: 'Ducati Motor Holding', vehicleType: 'motorcycle' },
+    ZFA: { make: 'Fiat', manufacturer: 'Stellantis (Fiat)', vehicleType: 'passenger' },
+
+    // Asia
+    JF1: { make: 'Subaru', manufacturer: 'Subaru', vehicleType: 'passenger' },
+    JHM: { make: 'Honda', manufacturer: 'Honda', vehicleType: 'passenger' },
+    JKA: { make: 'Kawasaki', manufacturer: 'Kawasaki Motors', vehicleType: 'motorcycle' },
+    JMB: { make: 'Mitsubishi', manufacturer: 'Mitsubishi Motors', vehicleType: 'passenger' },
+    JMZ: { make: 'Mazda', manufacturer: 'Mazda', vehicleType: 'passenger' },
+    JN1: { make: 'Nissan', manufacturer: 'Nissan', vehicleType: 'passenger' },
+    JS1: { make: 'Suzuki', manufacturer: 'Suzuki', vehicleType: 'motorcycle' },
+    JSA: { make: 'Suzuki', manufacturer: 'Suzuki', vehicleType: 'passenger' },
+    JTD: { make: 'Toyota', manufacturer: 'Toyota', vehicleType: 'passenger' },
+    JTE: { make: 'Toyota', manufacturer: 'Toyota', vehicleType: 'multipurpose' },
+    JYA: { make: 'Yamaha', manufacturer: 'Yamaha Motor', vehicleType: 'motorcycle' },
+    KMH: { make: 'Hyundai', manufacturer: 'Hyundai Motor', vehicleType: 'passenger' },
+    KNA: { make: 'Kia', manufacturer: 'Kia', vehicleType: 'passenger' },
+    LGW: { make: 'GWM', manufacturer: 'Great Wall Motor', vehicleType: 'light_commercial' },
+    LRW: { make: 'Tesla', manufacturer: 'Tesla (Shanghai)', vehicleType: 'passenger' },
+    LVV: { make: 'Chery', manufacturer: 'Chery Automobile', vehicleType: 'passenger' },
+    MA1: { make: 'Mahindra', manufacturer: 'Mahindra & Mahindra', vehicleType: 'light_commercial' },
+    MA3: { make: 'Suzuki', manufacturer: 'Maruti Suzuki India', vehicleType: 'passenger' },
+    MAL: { make: 'Hyundai', manufacturer: 'Hyundai Motor India', vehicleType: 'passenger' },
+    MAT: { make: 'Tata', manufacturer: 'Tata Motors', vehicleType: 'light_commercial' },
+    MMB: { make: 'Mitsubishi', manufacturer: 'Mitsubishi Motors Thailand', vehicleType: 'light_commercial' },
+    MPA: { make: 'Isuzu', manufacturer: 'Isuzu Motors Thailand', vehicleType: 'light_commercial' },
+    MR0: { make: 'Toyota', manufacturer: 'Toyota Motor Thailand', vehicleType: 'light_commercial' },
+
+    // Americas
+    '1FA': { make: 'Ford', manufacturer: 'Ford Motor Company', vehicleType: 'passenger' },
+    '1FT': { make: 'Ford', manufacturer: 'Ford Motor Company', vehicleType: 'light_commercial' },
+    '1G1': { make: 'Chevrolet', manufacturer: 'General Motors', vehicleType: 'passenger' },
+    '1HG': { make: 'Honda', manufacturer: 'Honda of America', vehicleType: 'passenger' },
+    '2T1': { make: 'Toyota', manufacturer: 'Toyota Motor Manufacturing Canada', vehicleType: 'passenger' },
+    '3VW': { make: 'Volkswagen', manufacturer: 'Volkswagen de Mexico', vehicleType: 'passenger' },
+    '5YJ': { make: 'Tesla', manufacturer: 'Tesla', vehicleType: 'passenger' },
+    '8AJ': { make: 'Toyota', manufacturer: 'Toyota Argentina', vehicleType: 'light_commercial' },
+    '9BW': { make: 'Volkswagen', manufacturer: 'Volkswagen do Brasil', vehicleType: 'passenger' },
+  },
+};
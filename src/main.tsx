@@ -5,6 +5,7 @@ import './index.css'
 import App from './App'
 import Start from './pages/Start'
 import Vin from './pages/Vin'
+import Login from './pages/Login'
 
 const router = createBrowserRouter([
   {
@@ -13,6 +14,7 @@ const router = createBrowserRouter([
     children: [
       { index: true, element: <Start /> },
       { path: 'vin/:vin', element: <Vin /> },
+      { path: 'login', element: <Login /> },
     ]
   }
 ])
@@ -0,0 +1,89 @@
+// src/pages/Login.tsx
+import { useState, type FormEvent } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { login, ApiError } from '../lib/api'
+import { AlertTriangle, LogIn } from 'lucide-react'
+
+export default function Login() {
+  const [sp] = useSearchParams()
+  const nav = useNavigate()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Only same-app paths, so a crafted link cannot bounce the inspector off-site
+  const next = sp.get('next')
+  const destination = next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
+  const expired = sp.get('reason') === 'expired'
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault()
+    setError(null)
+    setBusy(true)
+    try {
+      await login(username, password)
+      nav(destination, { replace: true })
+    } catch (err: unknown) {
+      setError(err instanceof ApiError ? err.userMessage : 'Sign in failed. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 max-w-md mx-auto">
+      <div className="text-center space-y-2">
+        <h1 className="text-xl font-semibold text-slate-800">Inspector sign in</h1>
+        <p className="text-sm text-slate-600">Photos and seals are recorded against your account</p>
+      </div>
+
+      {expired && !error && (
+        <div className="flex items-center gap-2 text-sm text-amber-800 bg-amber-50 px-3 py-2 rounded-lg border border-amber-200">
+          <AlertTriangle className="w-4 h-4" />
+          Your session has expired. Please sign in again.
+        </div>
+      )}
+
+      <form onSubmit={onSubmit} className="rounded-xl border border-slate-200 bg-white p-4 space-y-4">
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-slate-700">Username</span>
+          <input
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            autoComplete="username"
+            autoCapitalize="none"
+            className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-slate-700">Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+          />
+        </label>
+
+        {error && (
+          <div role="alert" className="flex items-center gap-2 text-sm text-rose-700 bg-rose-50 px-3 py-2 rounded-lg border border-rose-200">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full bg-teal-600 hover:bg-teal-700 text-white py-3 px-4 rounded-xl font-semibold
+                    flex items-center justify-center gap-2 transition-all active:scale-[0.99] disabled:opacity-50"
+        >
+          <LogIn className="w-4 h-4" />
+          {busy ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  )
+}
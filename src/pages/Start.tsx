@@ -1,11 +1,42 @@
 // src/pages/Start.tsx
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import VinScanner from '../components/VinScanner'
-import { initDraft } from '../lib/api'
-import { formatVin, normalizeVin, isValidVin } from '../lib/vin'
+import { initDraft, prefetchIntake, uploadPhotoDev, ApiError } from '../lib/api'
+import { enqueueUpload } from '../lib/upload-queue'
+import {
+  describeLicenceDiscVehicle,
+  isLicenceDiscExpired,
+  toLicenceDiscRecord,
+  type LicenceDisc,
+} from '../lib/licence-disc'
+import { normalizeEngineNumber } from '../lib/engine-number'
+import { describePlate, formatPlate, parsePlate } from '../lib/plates'
+import {
+  formatVin,
+  normalizeVin,
+  isValidVin,
+  decodeVin,
+  lookupWmi,
+  suggestVinCorrections,
+  validateVin,
+  VEHICLE_TYPE_LABELS,
+  type VinValidation,
+  type WmiInfo,
+} from '../lib/vin'
 import type { ImageRole } from '../types'
-import { AlertTriangle, CheckCircle2, Scan, Camera, Shield, Eye, Edit3 } from 'lucide-react'
+import { AlertTriangle, CheckCircle2, Scan, Camera, Shield, Eye, Edit3, FileWarning, CreditCard } from 'lucide-react'
+
+// The finding that decided the overall severity, e.g. why a VIN is invalid
+function leadingFinding(validation: VinValidation) {
+  return validation.findings.find(finding => finding.severity === validation.severity)
+}
+
+const FINDING_COLORS = {
+  error: 'text-rose-600',
+  warning: 'text-amber-600',
+  info: 'text-slate-500',
+} as const
 
 const DEFAULT_ROLES: ImageRole[] = [
   'exterior_front_34','exterior_rear_34','left_side','right_side',
@@ -19,7 +50,7 @@ interface ScanResult {
   candidates: string[]
   valid: boolean
   timestamp: number
-  method: 'live_scan' | 'photo_ocr'
+  method: 'live_scan' | 'photo_ocr' | 'licence_disc'
 }
 
 export default function Start() {
@@ -31,51 +62,24 @@ export default function Start() {
   const [manualCorrectionMade, setManualCorrectionMade] = useState(false)
   const [requiresJustification, setRequiresJustification] = useState(false)
   const [justification, setJustification] = useState('')
+  const [chassisMode, setChassisMode] = useState(false)
+  const [chassisNumber, setChassisNumber] = useState('')
+  const [chassisJustification, setChassisJustification] = useState('')
+  const [chassisPhoto, setChassisPhoto] = useState<File | null>(null)
+  const [licenceDisc, setLicenceDisc] = useState<LicenceDisc | null>(null)
+  const [registration, setRegistration] = useState('')
+  const [engineNumber, setEngineNumber] = useState('')
+  const [vehicleDescription, setVehicleDescription] = useState('')
   
   const vinInputRef = useRef<HTMLInputElement | null>(null)
   const nav = useNavigate()
 
-  function getManufacturerInfo(wmi: string): string {
-    const saManufacturers: { [key: string]: string } = {
-      'AAV': '(Volkswagen SA)',
-      'ABA': '(BMW SA)', 
-      'ACA': '(Nissan SA)',
-      'AHA': '(Toyota SA)',
-      'AJA': '(Ford SA)',
-      'AKA': '(Mercedes-Benz SA)',
-      'ALA': '(General Motors SA)',
-    };
-    
-    if (saManufacturers[wmi]) {
-      return saManufacturers[wmi];
-    }
-    
-    if (wmi.startsWith('A')) {
-      return '(South African manufacturer)';
-    }
-    
-    return '(World Manufacturer ID)';
-  }
-
-  function getModelYear(char: string): string {
-    const yearMap: { [key: string]: string } = {
-      'A': '2010', 'B': '2011', 'C': '2012', 'D': '2013', 'E': '2014',
-      'F': '2015', 'G': '2016', 'H': '2017', 'J': '2018', 'K': '2019',
-      'L': '2020', 'M': '2021', 'N': '2022', 'P': '2023', 'R': '2024',
-      'S': '2025', 'T': '2026', 'V': '2027', 'W': '2028', 'X': '2029',
-      'Y': '2030', '1': '2001', '2': '2002', '3': '2003', '4': '2004',
-      '5': '2005', '6': '2006', '7': '2007', '8': '2008', '9': '2009'
-    };
-    
-    return yearMap[char] || 'Unknown';
-  }
-
   // Handle successful VIN scan
-  function handleScanResult(scannedVinValue: string, method: 'live_scan' | 'photo_ocr' = 'live_scan') {
+  function handleScanResult(scannedVinValue: string, method: ScanResult['method'] = 'live_scan') {
     const formatted = formatVin(scannedVinValue)
     const scanResult: ScanResult = {
       vin: formatted,
-      confidence: method === 'live_scan' ? 100 : 95, // Live scanning assumed high confidence
+      confidence: method === 'photo_ocr' ? 95 : 100, // Barcodes (live scan, licence disc) assumed high confidence
       candidates: [formatted],
       valid: isValidVin(formatted),
       timestamp: Date.now(),
@@ -96,6 +100,15 @@ export default function Start() {
     }, 100)
   }
 
+  // The disc's barcode carries everything Start asks for; prefill it all and let the inspector adjust
+  function handleLicenceDisc(disc: LicenceDisc) {
+    setLicenceDisc(disc)
+    setRegistration(formatPlate(disc.registration))
+    setEngineNumber(disc.engineNumber)
+    setVehicleDescription(describeLicenceDiscVehicle(disc))
+    handleScanResult(disc.vin, 'licence_disc')
+  }
+
   // Handle manual corrections to scanned VIN
   function handleVinCorrection(value: string) {
     const normalized = normalizeVin(value)
@@ -123,8 +136,68 @@ export default function Start() {
     setJustification('')
   }
 
+  function vehicleDraftOptions() {
+    const engine = normalizeEngineNumber(engineNumber)
+    return {
+      vehicle: {
+        registration: registration.trim() ? formatPlate(registration) : undefined,
+        engine_number: engine || undefined,
+        engine_number_source: engine
+          ? (licenceDisc && engine === licenceDisc.engineNumber ? 'licence_disc' as const : 'manual' as const)
+          : undefined,
+        description: vehicleDescription.trim() || undefined,
+      },
+      licenceDisc: licenceDisc ? toLicenceDiscRecord(licenceDisc) : undefined,
+    }
+  }
+
+  // Legacy and grey-import vehicles: the chassis number is kept exactly as typed and the plate photo vouches for it
+  async function proceedWithChassisNumber() {
+    const chassis = chassisNumber.trim()
+    if (!chassis || !chassisPhoto) return
+
+    setBusy(true)
+    try {
+      await initDraft(chassis, lot, DEFAULT_ROLES, {
+        nonStandardChassis: { justification: chassisJustification },
+        ...vehicleDraftOptions(),
+      })
+    } catch (error: unknown) {
+      // Without the draft the non-standard marker would be lost, so stay here rather than continue offline
+      alert(`Could not start inspection: ${error instanceof ApiError ? error.userMessage : 'Please try again.'}`)
+      setBusy(false)
+      return
+    }
+
+    try {
+      await uploadPhotoDev(chassis, 'chassis_plate', chassisPhoto)
+    } catch (error: unknown) {
+      // A rejected photo would be rejected again on replay, so only connectivity and server trouble is queued
+      if (error instanceof ApiError && !error.retryable) {
+        alert(`Could not upload the chassis plate photo: ${error.userMessage}`)
+        setBusy(false)
+        return
+      }
+      await enqueueUpload({
+        vin: chassis,
+        role: 'chassis_plate',
+        file: chassisPhoto,
+        lastError: error instanceof ApiError ? error.userMessage : 'Upload failed',
+      }).catch((queueError: unknown) => console.warn('Failed to queue chassis plate photo:', queueError))
+    }
+
+    setBusy(false)
+    prefetchIntake(chassis)
+    nav(`/vin/${encodeURIComponent(chassis)}?lot=${encodeURIComponent(lot)}`)
+  }
+
   // Proceed to inspection
   async function proceedToInspection() {
+    if (chassisMode) {
+      await proceedWithChassisNumber()
+      return
+    }
+
     const finalVin = correctedVin || scannedVin?.vin
     if (!finalVin || finalVin.length < 11) {
       alert('Valid VIN required to proceed')
@@ -149,9 +222,15 @@ export default function Start() {
 
     setBusy(true)
     try {
-      await initDraft(finalVin, lot, DEFAULT_ROLES)
+      await initDraft(finalVin, lot, DEFAULT_ROLES, vehicleDraftOptions())
+      prefetchIntake(finalVin)
       nav(`/vin/${finalVin}?lot=${encodeURIComponent(lot)}`)
     } catch (error: unknown) {
+      // The backend rejected the draft itself; anything else (offline, server down) can be retried from the VIN page
+      if (error instanceof ApiError && error.kind === 'validation') {
+        alert(`Could not start inspection: ${error.userMessage}`)
+        return
+      }
       const message = error instanceof Error ? error.message : String(error);
       console.warn('init failed:', message);
       nav(`/vin/${finalVin}?lot=${encodeURIComponent(lot)}`)
@@ -168,8 +247,23 @@ export default function Start() {
   }, [scanOpen])
 
   const finalVin = correctedVin || scannedVin?.vin || ''
-  const canProceed = finalVin.length >= 11 && (!requiresJustification || justification.trim().length > 0)
+  const canProceed = chassisMode
+    ? chassisNumber.trim().length > 0 && chassisJustification.trim().length > 0 && chassisPhoto !== null
+    : finalVin.length >= 11 && (!requiresJustification || justification.trim().length > 0)
   const vinStatus = finalVin ? (isValidVin(finalVin) ? 'valid' : 'invalid') : null
+  const decodedVin = useMemo(() => decodeVin(finalVin), [finalVin])
+  const validation = useMemo(() => validateVin(finalVin), [finalVin])
+  const scannedValidation = useMemo(() => (scannedVin ? validateVin(scannedVin.vin) : null), [scannedVin])
+  const corrections = useMemo(() => (isValidVin(finalVin) ? [] : suggestVinCorrections(finalVin)), [finalVin])
+  const plateMatch = useMemo(() => parsePlate(registration), [registration])
+  const [wmiInfo, setWmiInfo] = useState<WmiInfo | null>(null)
+
+  useEffect(() => {
+    if (finalVin.length < 3) return
+    let cancelled = false
+    lookupWmi(finalVin).then(info => { if (!cancelled) setWmiInfo(info) })
+    return () => { cancelled = true }
+  }, [finalVin])
 
   return (
     <div className="space-y-6 max-w-md mx-auto">
@@ -181,183 +275,358 @@ export default function Start() {
         </p>
       </div>
 
-      {/* Primary VIN Scanning Section */}
-      <div className="rounded-xl border-2 border-blue-200 bg-blue-50/50 p-4 space-y-4">
-        <div className="flex items-center gap-3">
-          <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
-            <Scan className="w-4 h-4 text-white" />
-          </div>
-          <div>
-            <h2 className="font-semibold text-slate-800">Step 1: Scan VIN</h2>
-            <p className="text-xs text-slate-600">Required for vehicle identification</p>
-          </div>
-        </div>
-
-        {!scannedVin ? (
-          <div className="space-y-3">
+      {chassisMode ? (
+        <div className="rounded-xl border-2 border-amber-200 bg-amber-50/50 p-4 space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-amber-600 rounded-lg flex items-center justify-center">
+              <FileWarning className="w-4 h-4 text-white" />
+            </div>
+            <div>
+              <h2 className="font-semibold text-slate-800">Non-standard chassis number</h2>
+              <p className="text-xs text-slate-600">For pre-1981 vehicles, trailers and imports without a 17-character VIN</p>
+            </div>
             <button
-              onClick={() => setScanOpen(true)}
+              type="button"
+              onClick={() => setChassisMode(false)}
               disabled={busy}
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white py-4 px-4 rounded-xl font-semibold 
-                        flex items-center justify-center gap-3 transition-all active:scale-[0.99] disabled:opacity-50"
+              className="ml-auto text-xs px-2 py-1 bg-amber-200 hover:bg-amber-300 rounded transition-colors"
             >
-              <Camera className="w-5 h-5" />
-              <div className="text-left">
-                <div>SCAN VIN</div>
-                <div className="text-xs opacity-90 font-normal">
-                  Windshield, dashboard, or engine bay
-                </div>
-              </div>
+              Use VIN
             </button>
-            
-            <div className="text-xs text-slate-500 text-center">
-              VIN scanning ensures accuracy and prevents data entry errors
-            </div>
           </div>
-        ) : (
-          <div className="space-y-3">
-            {/* Scan Success Indicator */}
-            <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 px-3 py-2 rounded-lg border border-green-200">
-              <CheckCircle2 className="w-4 h-4" />
-              <span>VIN scanned successfully</span>
-              <button 
-                onClick={resetScan}
-                className="ml-auto text-xs px-2 py-1 bg-green-200 hover:bg-green-300 rounded transition-colors"
-              >
-                Scan Again
-              </button>
-            </div>
 
-            {/* Scan Details */}
-            <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
-              <div className="flex items-center justify-between text-xs text-slate-600">
-                <span>Scanned VIN:</span>
-                <span className="flex items-center gap-1">
-                  <Eye className="w-3 h-3" />
-                  {scannedVin.confidence.toFixed(0)}% confidence
-                </span>
-              </div>
-              <div className="font-mono text-sm bg-slate-50 px-3 py-2 rounded border">
-                {scannedVin.vin}
-              </div>
-              <div className="flex items-center gap-2 text-xs">
-                <div className={`w-2 h-2 rounded-full ${scannedVin.valid ? 'bg-green-500' : 'bg-yellow-500'}`} />
-                <span className="text-slate-600">
-                  {scannedVin.valid ? 'Valid VIN format' : 'Invalid check digit - verify manually'}
-                </span>
-              </div>
-            </div>
-          </div>
-        )}
-      </div>
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-slate-700">Chassis number (exactly as stamped)</span>
+            <input
+              value={chassisNumber}
+              onChange={e => setChassisNumber(e.target.value)}
+              className="w-full border border-slate-300 rounded-lg px-4 py-3 text-lg font-mono tracking-wider bg-white"
+              placeholder="e.g. 1J12345678"
+              disabled={busy}
+              autoCapitalize="characters"
+              maxLength={30}
+            />
+            <span className="block text-xs text-slate-500">No check digit is applied; I, O and Q are kept.</span>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-amber-700">Why is there no standard VIN?</span>
+            <textarea
+              value={chassisJustification}
+              onChange={e => setChassisJustification(e.target.value)}
+              placeholder="e.g. 1978 model, chassis plate predates 17-character VINs"
+              className="w-full border border-amber-300 rounded-lg px-3 py-2 text-sm bg-white"
+              rows={3}
+              disabled={busy}
+            />
+          </label>
 
-      {/* VIN Correction Section - Only shown after scan */}
-      {scannedVin && (
-        <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-4">
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-slate-700">Chassis plate photo</span>
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={e => setChassisPhoto(e.target.files?.[0] ?? null)}
+              disabled={busy}
+              className="block w-full text-sm text-slate-600"
+            />
+            {chassisPhoto && (
+              <span className="flex items-center gap-1 text-xs text-green-700">
+                <CheckCircle2 className="w-3 h-3" /> {chassisPhoto.name}
+              </span>
+            )}
+          </label>
+        </div>
+      ) : (
+        <>
+        {/* Primary VIN Scanning Section */}
+        <div className="rounded-xl border-2 border-blue-200 bg-blue-50/50 p-4 space-y-4">
           <div className="flex items-center gap-3">
-            <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${
-              manualCorrectionMade ? 'bg-amber-600' : 'bg-green-600'
-            }`}>
-              <Edit3 className="w-4 h-4 text-white" />
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <Scan className="w-4 h-4 text-white" />
             </div>
             <div>
-              <h2 className="font-semibold text-slate-800">Step 2: Verify & Correct</h2>
-              <p className="text-xs text-slate-600">
-                {manualCorrectionMade ? 'Manual correction detected' : 'Verify scanned VIN is accurate'}
-              </p>
+              <h2 className="font-semibold text-slate-800">Step 1: Scan VIN</h2>
+              <p className="text-xs text-slate-600">Required for vehicle identification</p>
             </div>
           </div>
 
-          <div className="space-y-3">
-            <label className="block text-sm font-medium text-slate-700">
-              Final VIN {manualCorrectionMade && <span className="text-amber-600">(Modified)</span>}
-            </label>
-            
-            <div className="relative">
-              <input
-                ref={vinInputRef}
-                value={correctedVin}
-                onChange={e => handleVinCorrection(e.target.value)}
-                className={`w-full border rounded-lg px-4 py-3 text-lg font-mono tracking-wider
-                  ${vinStatus === 'valid' ? 'border-green-300 bg-green-50' :
-                    vinStatus === 'invalid' ? 'border-yellow-300 bg-yellow-50' :
-                    'border-slate-300 bg-white'}
-                  ${manualCorrectionMade ? 'ring-2 ring-amber-200' : ''}
-                `}
-                placeholder="Verify VIN accuracy"
+          {!scannedVin ? (
+            <div className="space-y-3">
+              <button
+                onClick={() => setScanOpen(true)}
                 disabled={busy}
-                inputMode="text"
-                autoCapitalize="characters"
-                maxLength={17}
-              />
-              
-              {vinStatus && (
-                <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-                  {vinStatus === 'valid' ? (
-                    <CheckCircle2 className="w-5 h-5 text-green-600" />
-                  ) : (
-                    <AlertTriangle className="w-5 h-5 text-amber-600" />
-                  )}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white py-4 px-4 rounded-xl font-semibold 
+                          flex items-center justify-center gap-3 transition-all active:scale-[0.99] disabled:opacity-50"
+              >
+                <Camera className="w-5 h-5" />
+                <div className="text-left">
+                  <div>SCAN VIN</div>
+                  <div className="text-xs opacity-90 font-normal">
+                    Windshield, dashboard, engine bay or licence disc
+                  </div>
                 </div>
-              )}
+              </button>
+            
+              <div className="text-xs text-slate-500 text-center">
+                VIN scanning ensures accuracy and prevents data entry errors
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setChassisMode(true)}
+                disabled={busy}
+                className="w-full text-xs text-slate-600 underline"
+              >
+                No 17-character VIN? Enter a chassis number instead
+              </button>
             </div>
+          ) : (
+            <div className="space-y-3">
+              {/* Scan Success Indicator */}
+              <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 px-3 py-2 rounded-lg border border-green-200">
+                <CheckCircle2 className="w-4 h-4" />
+                <span>VIN scanned successfully</span>
+                <button 
+                  onClick={resetScan}
+                  className="ml-auto text-xs px-2 py-1 bg-green-200 hover:bg-green-300 rounded transition-colors"
+                >
+                  Scan Again
+                </button>
+              </div>
 
-            {/* Manual correction warning */}
-            {manualCorrectionMade && (
-              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
-                <div className="flex items-start gap-2">
-                  <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
-                  <div className="text-sm text-amber-700">
-                    <div className="font-medium">Manual correction detected</div>
-                    <div className="text-xs mt-1">
-                      Original: <span className="font-mono">{scannedVin.vin}</span><br/>
-                      Modified: <span className="font-mono">{correctedVin}</span>
-                    </div>
-                  </div>
+              {/* Scan Details */}
+              <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between text-xs text-slate-600">
+                  <span>Scanned VIN:</span>
+                  <span className="flex items-center gap-1">
+                    <Eye className="w-3 h-3" />
+                    {scannedVin.confidence.toFixed(0)}% confidence
+                  </span>
+                </div>
+                <div className="font-mono text-sm bg-slate-50 px-3 py-2 rounded border">
+                  {scannedVin.vin}
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <div className={`w-2 h-2 rounded-full ${scannedVin.valid ? 'bg-green-500' : 'bg-yellow-500'}`} />
+                  <span className="text-slate-600">
+                    {scannedVin.valid
+                      ? 'Valid VIN format'
+                      : `${(scannedValidation && leadingFinding(scannedValidation)?.message) ?? 'Invalid VIN'} Verify manually.`}
+                  </span>
                 </div>
               </div>
-            )}
+            </div>
+          )}
+        </div>
+
+        {/* VIN Correction Section - Only shown after scan */}
+        {scannedVin && (
+          <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-4">
+            <div className="flex items-center gap-3">
+              <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${
+                manualCorrectionMade ? 'bg-amber-600' : 'bg-green-600'
+              }`}>
+                <Edit3 className="w-4 h-4 text-white" />
+              </div>
+              <div>
+                <h2 className="font-semibold text-slate-800">Step 2: Verify & Correct</h2>
+                <p className="text-xs text-slate-600">
+                  {manualCorrectionMade ? 'Manual correction detected' : 'Verify scanned VIN is accurate'}
+                </p>
+              </div>
+            </div>
 
-            {/* Justification field for significant changes */}
-            {requiresJustification && (
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-amber-700">
-                  Correction Justification Required
-                </label>
-                <textarea
-                  value={justification}
-                  onChange={e => setJustification(e.target.value)}
-                  placeholder="Explain why the VIN was manually corrected (e.g. incorrect result, damaged licence disk, poor lighting, etc.)"
-                  className="w-full border border-amber-300 rounded-lg px-3 py-2 text-sm bg-amber-50"
-                  rows={3}
+            <div className="space-y-3">
+              <label className="block text-sm font-medium text-slate-700">
+                Final VIN {manualCorrectionMade && <span className="text-amber-600">(Modified)</span>}
+              </label>
+            
+              <div className="relative">
+                <input
+                  ref={vinInputRef}
+                  value={correctedVin}
+                  onChange={e => handleVinCorrection(e.target.value)}
+                  className={`w-full border rounded-lg px-4 py-3 text-lg font-mono tracking-wider
+                    ${vinStatus === 'valid' ? 'border-green-300 bg-green-50' :
+                      vinStatus === 'invalid' ? 'border-yellow-300 bg-yellow-50' :
+                      'border-slate-300 bg-white'}
+                    ${manualCorrectionMade ? 'ring-2 ring-amber-200' : ''}
+                  `}
+                  placeholder="Verify VIN accuracy"
                   disabled={busy}
+                  inputMode="text"
+                  autoCapitalize="characters"
+                  maxLength={17}
                 />
+              
+                {vinStatus && (
+                  <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                    {vinStatus === 'valid' ? (
+                      <CheckCircle2 className="w-5 h-5 text-green-600" />
+                    ) : (
+                      <AlertTriangle className="w-5 h-5 text-amber-600" />
+                    )}
+                  </div>
+                )}
               </div>
-            )}
 
-            {/* VIN Analysis */}
-            {finalVin.length >= 11 && (
-            <div className="text-xs text-slate-500 bg-slate-50 rounded-lg p-3">
-              <div className="font-medium mb-1">VIN Analysis:</div>
-              <div className="space-y-1">
-                <div>Length: {finalVin.length}/17 characters</div>
-                <div>Format: {isValidVin(finalVin) ? 'Valid checksum' : finalVin.length === 17 ? 'Invalid checksum' : 'Partial VIN'}</div>
-                {finalVin.length >= 3 && (
-                  <div>WMI: {finalVin.substring(0, 3)} {getManufacturerInfo(finalVin.substring(0, 3))}</div>
-                )}
-                {finalVin.length >= 10 && (
-                  <div>Year: {getModelYear(finalVin[9])}</div>
-                )}
-                {finalVin.startsWith('A') && (
-                  <div className="text-emerald-600">South African assembled vehicle</div>
-                )}
+              {/* Manual correction warning */}
+              {manualCorrectionMade && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                  <div className="flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
+                    <div className="text-sm text-amber-700">
+                      <div className="font-medium">Manual correction detected</div>
+                      <div className="text-xs mt-1">
+                        Original: <span className="font-mono">{scannedVin.vin}</span><br/>
+                        Modified: <span className="font-mono">{correctedVin}</span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Checksum-valid corrections */}
+              {corrections.length > 0 && (
+                <div className="bg-sky-50 border border-sky-200 rounded-lg p-3 space-y-2">
+                  <div className="text-sm font-medium text-sky-800">Possible misreads that pass the check digit</div>
+                  {corrections.map(correction => {
+                    const changed = new Set(correction.changes.map(change => change.position - 1))
+                    return (
+                      <button
+                        key={correction.vin}
+                        type="button"
+                        onClick={() => handleVinCorrection(correction.vin)}
+                        disabled={busy}
+                        className="w-full text-left rounded-md bg-white border border-sky-200 hover:border-sky-400 px-3 py-2"
+                      >
+                        <div className="font-mono text-sm tracking-wider text-slate-800">
+                          {correction.vin.split('').map((char, idx) => (
+                            <span key={idx} className={changed.has(idx) ? 'text-sky-700 font-bold underline' : undefined}>{char}</span>
+                          ))}
+                        </div>
+                        <div className="text-xs text-slate-500">
+                          {correction.changes.map(change => `${change.from}→${change.to} at position ${change.position}`).join(', ')}
+                        </div>
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+
+              {/* Justification field for significant changes */}
+              {requiresJustification && (
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-amber-700">
+                    Correction Justification Required
+                  </label>
+                  <textarea
+                    value={justification}
+                    onChange={e => setJustification(e.target.value)}
+                    placeholder="Explain why the VIN was manually corrected (e.g. incorrect result, damaged licence disk, poor lighting, etc.)"
+                    className="w-full border border-amber-300 rounded-lg px-3 py-2 text-sm bg-amber-50"
+                    rows={3}
+                    disabled={busy}
+                  />
+                </div>
+              )}
+
+              {/* VIN Analysis */}
+              {finalVin.length >= 11 && (
+              <div className="text-xs text-slate-500 bg-slate-50 rounded-lg p-3">
+                <div className="font-medium mb-1">VIN Analysis:</div>
+                <div className="space-y-1">
+                  <div>Length: {finalVin.length}/17 characters</div>
+                  <div>Format: {validation.valid ? 'Valid' : finalVin.length === 17 ? 'Invalid' : 'Partial VIN'}</div>
+                  {validation.findings.map(finding => (
+                    <div key={finding.code} className={FINDING_COLORS[finding.severity]}>{finding.message}</div>
+                  ))}
+                  <div>
+                    WMI: {decodedVin.wmi}{' '}
+                    {wmiInfo?.make
+                      ? `(${wmiInfo.manufacturer}${wmiInfo.vehicleType ? ` · ${VEHICLE_TYPE_LABELS[wmiInfo.vehicleType]}` : ''})`
+                      : '(Unlisted manufacturer)'}
+                  </div>
+                  <div>Origin: {[decodedVin.country, decodedVin.region].filter(Boolean).join(', ') || 'Unknown'}</div>
+                  <div>
+                    Year: {decodedVin.modelYear ?? 'Unknown'}
+                    {decodedVin.modelYearCandidates.length > 1 && (
+                      <span className="text-slate-400"> (could also be {decodedVin.modelYearCandidates.filter(y => y !== decodedVin.modelYear).join(', ')})</span>
+                    )}
+                  </div>
+                  {decodedVin.plantCode && <div>Plant: {decodedVin.plantCode}</div>}
+                  {decodedVin.serialNumber && <div>Serial: {decodedVin.serialNumber}</div>}
+                  {decodedVin.country === 'South Africa' && (
+                    <div className="text-emerald-600">South African assembled vehicle</div>
+                  )}
+                </div>
               </div>
+            )}
             </div>
-          )}
           </div>
-        </div>
+        )}
+
+        </>
       )}
 
+      {/* Vehicle details, prefilled from the licence disc when it is scanned */}
+      <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <CreditCard className="w-4 h-4 text-slate-600" />
+          <h2 className="font-semibold text-slate-800 text-sm">Vehicle details</h2>
+          {licenceDisc && (
+            <span className="ml-auto text-xs text-teal-700 bg-teal-50 border border-teal-200 rounded px-2 py-0.5">
+              From licence disc{licenceDisc.expiry ? ` · expires ${licenceDisc.expiry}` : ''}
+            </span>
+          )}
+        </div>
+        {licenceDisc && isLicenceDiscExpired(licenceDisc) && (
+          <div className="flex items-center gap-2 text-xs text-amber-800 bg-amber-50 px-3 py-2 rounded-lg border border-amber-200">
+            <AlertTriangle className="w-4 h-4" />
+            Licence disc expired on {licenceDisc.expiry}
+          </div>
+        )}
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-slate-700">Registration</span>
+          <input
+            value={registration}
+            onChange={e => setRegistration(e.target.value.toUpperCase())}
+            onBlur={() => setRegistration(formatPlate(registration))}
+            placeholder="e.g. CA 123-456"
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono"
+            disabled={busy}
+            autoCapitalize="characters"
+          />
+          {registration.trim() && (
+            <span className={`block text-xs ${plateMatch ? 'text-emerald-700' : 'text-amber-700'}`}>
+              {plateMatch ? describePlate(plateMatch) : 'Not a recognised SA plate format'}
+            </span>
+          )}
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-slate-700">Engine number</span>
+          <input
+            value={engineNumber}
+            onChange={e => setEngineNumber(e.target.value.toUpperCase())}
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono"
+            disabled={busy}
+            autoCapitalize="characters"
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-slate-700">Description</span>
+          <input
+            value={vehicleDescription}
+            onChange={e => setVehicleDescription(e.target.value)}
+            placeholder="Make, model, colour"
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+            disabled={busy}
+          />
+        </label>
+      </div>
+
       {/* Lot ID Section */}
       <div className="space-y-2">
         <label className="block text-sm font-medium text-slate-700">
@@ -386,7 +655,9 @@ export default function Start() {
             <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
             Preparing inspection...
           </div>
-        ) : !scannedVin ? (
+        ) : chassisMode && !canProceed ? (
+          'Chassis number, reason and plate photo required'
+        ) : !scannedVin && !chassisMode ? (
           'Scan VIN to continue'
         ) : !canProceed ? (
           requiresJustification ? 'Justification required' : 'Verify VIN to continue'
@@ -412,6 +683,7 @@ export default function Start() {
           onClose={() => setScanOpen(false)}
           showValidation={true}
           allowInvalidVins={true}
+          onLicenceDisc={handleLicenceDisc}
         />
       )}
     </div>
@@ -9,17 +9,53 @@ import {
   sealStrict,
   setDekraUrl as setDekraUrlApi,
   setOdometer,
-  ocrVinFromImage,
   ocrOdoFromImage,
+  ocrEngineNumberFromImage,
+  ocrPlateFromImage,
   isValidVin,
   formatVin,
   setTyreDepths as setTyreDepthsApi,
+  patchDraft,
+  ApiError,
+  ApiAbortError,
+  subscribeToQuery,
+  subscribeToPassport,
+  checklistQueryKey,
+  passportQueryKey,
+  type PassportStreamStatus,
 } from '../lib/api'
-import { analyzeAndCropImage, type ImageAnalysis } from '../lib/image-utils'
-import type { Checklist, ImageRole } from '../types'
+import { analyzeAndCropImage, transformContext, type ImageAnalysis } from '../lib/image-utils'
+import { digitsOnly, ocrHighlights, type OcrHighlight } from '../lib/ocr-overlay'
+import OcrOverlay from '../components/OcrOverlay'
+import { ocrVin } from '../lib/ocr'
+import { decodeVin, lookupWmi, VEHICLE_TYPE_LABELS, type WmiInfo } from '../lib/vin'
+import {
+  crossCheckEngineNumber,
+  engineNumberReferences,
+  normalizeEngineNumber,
+  type EngineNumberReference,
+} from '../lib/engine-number'
+import { describePlate, formatPlate, parsePlate } from '../lib/plates'
+import {
+  enqueueUpload,
+  subscribeToUploadQueue,
+  retryQueuedUpload,
+  discardQueuedUpload,
+  type QueuedUpload,
+} from '../lib/upload-queue'
+import type {
+  ChassisIdentification,
+  Checklist,
+  DraftPatch,
+  EngineNumberSource,
+  ImageRole,
+  Passport,
+  PassportImage,
+  VehicleDetails,
+} from '../types'
 import {
   Camera, RefreshCcw, CheckCircle2, AlertTriangle,
-  Link as LinkIcon, Scan, Shield, Eye, Zap, Gauge, Edit3, Clock
+  Link as LinkIcon, Scan, Shield, Eye, Zap, Gauge, Edit3, Clock, CloudUpload, X, Save, Cog, Car
 } from 'lucide-react'
 
 const importMetaMode = typeof import.meta !== 'undefined' ? import.meta.env?.MODE : undefined
@@ -32,7 +68,7 @@ const DEFAULT_ROLES: ImageRole[] = [
   'tyre_fl', 'tyre_fr', 'tyre_rl', 'tyre_rr'
 ]
 
-const ROLE_GUIDE: Record<ImageRole, { title: string; hint: string; img: string; canScanVin?: boolean }> = {
+const ROLE_GUIDE: Record<ImageRole, { title: string; hint: string; img?: string; canScanVin?: boolean }> = {
   exterior_front_34: { title: 'Front 3/4 (Left)', hint: 'Stand ±3–4m at front-left. Capture full car, include wheels and roofline.', img: '/examples/exterior_front_34.jpg' },
   exterior_rear_34:  { title: 'Rear 3/4 (Right)', hint: 'Stand ±3–4m at rear-right. Keep car fully in frame.', img: '/examples/exterior_rear_34.jpg' },
   left_side:         { title: 'Left Side', hint: 'Side-on profile. Keep the whole car level and centered.', img: '/examples/left_side.jpg' },
@@ -45,54 +81,35 @@ const ROLE_GUIDE: Record<ImageRole, { title: string; hint: string; img: string;
   tyre_fr:           { title: 'Tyre (Front Right)', hint: 'Close-up of tread surface & sidewall (FR).', img: '/examples/tyre_fr.jpg' },
   tyre_rl:           { title: 'Tyre (Rear Left)', hint: 'Close-up of tread surface & sidewall (RL).', img: '/examples/tyre_rl.jpg' },
   tyre_rr:           { title: 'Tyre (Rear Right)', hint: 'Close-up of tread surface & sidewall (RR).', img: '/examples/tyre_rr.jpg' },
+  chassis_plate:     { title: 'Chassis Plate', hint: 'Fill the frame with the stamped chassis number; every character must be legible.' },
 }
 
 type TabKey = 'exterior' | 'interior' | 'wheels' | 'other'
 
+// Exterior shots that usually show a number plate; their photos are also read for the registration
+const PLATE_ROLES: ImageRole[] = ['exterior_front_34', 'exterior_rear_34']
+
 const TABS: { key: TabKey; label: string; roles: ImageRole[] }[] = [
   { key: 'exterior', label: 'Exterior', roles: ['exterior_front_34','exterior_rear_34','left_side','right_side'] },
   { key: 'interior', label: 'Interior', roles: ['interior_front','interior_rear'] },
   { key: 'wheels',   label: 'Wheels',   roles: ['tyre_fl','tyre_fr','tyre_rl','tyre_rr'] },
-  { key: 'other',    label: 'Other',    roles: ['engine_bay'] },
+  // chassis_plate is only shown for vehicles identified by a non-standard chassis number
+  { key: 'other',    label: 'Other',    roles: ['engine_bay', 'chassis_plate'] },
 ]
 
-type PhotoItem = { role: ImageRole; url?: string; object_key?: string }
-type PassportRecord = {
-  draft?: { 
-    images?: { items?: PhotoItem[] }
-    tyres_mm?: {
-      fl?: number | null
-      fr?: number | null
-      rl?: number | null
-      rr?: number | null
-    }
-    dekra?: {
-      url?: string
-      inspection_ts?: string
-      site?: string
-    }
-  }
-  sealed?: { 
-    images?: { items?: PhotoItem[] }
-    tyres_mm?: {
-      fl?: number | null
-      fr?: number | null
-      rl?: number | null
-      rr?: number | null
-    }
-    dekra?: {
-      url?: string
-      inspection_ts?: string
-      site?: string
-    }
-  }
-}
+// Sealed images first so they win over draft copies of the same role
+const passportImages = (passport: Passport): PassportImage[] => [
+  ...(passport.sealed?.images.items ?? []),
+  ...(passport.draft?.images.items ?? []),
+]
 
 interface OdometerReading {
   km: number | null
   confidence: number
   rawText: string
   photo?: string
+  // Where on the photo the reading and the other candidates were found
+  highlights?: OcrHighlight[]
   timestamp: number
   manuallyAdjusted: boolean
   adjustmentReason?: string
@@ -100,7 +117,25 @@ interface OdometerReading {
 
 type TyreDepths = { fl: number | ''; fr: number | ''; rl: number | ''; rr: number | '' }
 
+// Inputs the passport can fill in and the inspector can edit
+interface EditableFields {
+  tyres: TyreDepths
+  notes: string
+  engineNumber: string
+  registration: string
+}
+
+const EMPTY_FIELDS: EditableFields = {
+  tyres: { fl: '', fr: '', rl: '', rr: '' },
+  notes: '',
+  engineNumber: '',
+  registration: '',
+}
+
+const sameTyres = (a: TyreDepths, b: TyreDepths) => a.fl === b.fl && a.fr === b.fr && a.rl === b.rl && a.rr === b.rr
+
 const getErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof ApiError) return error.userMessage;
   if (error instanceof Error) return error.message;
   if (typeof error === 'string') return error;
   return fallback;
@@ -114,26 +149,44 @@ export default function Vin() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [chk, setChk] = useState<Checklist | null>(null)
-  const [photos, setPhotos] = useState<PhotoItem[]>([])
+  const [photos, setPhotos] = useState<PassportImage[]>([])
   const [isSealed, setIsSealed] = useState(false)
 
   const [uploading, setUploading] = useState<ImageRole | null>(null)
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
+  const uploadAbortRef = useRef<AbortController | null>(null)
   const [sealing, setSealing] = useState(false)
 
   const fileRef = useRef<HTMLInputElement | null>(null)
   const odometerFileRef = useRef<HTMLInputElement | null>(null)
+  const engineFileRef = useRef<HTMLInputElement | null>(null)
   const [activeRole, setActiveRole] = useState<ImageRole | ''>('')
   const [qualityIssue, setQualityIssue] = useState<{ role: ImageRole | 'odometer'; issues: string[] } | null>(null)
   const odometerCaptureFallback = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   const [dekraUrlInput, setDekraUrlInput] = useState('')
-  const [saving, setSaving] = useState<'dekra'|'odo'|'tyres'|null>(null)
+  const [saving, setSaving] = useState<'dekra'|'odo'|'tyres'|'engine'|'registration'|'all'|null>(null)
+  const [notes, setNotes] = useState('')
+  const [identification, setIdentification] = useState<ChassisIdentification | undefined>(undefined)
+  const [savedVehicle, setSavedVehicle] = useState<VehicleDetails | undefined>(undefined)
+  const [engineReferences, setEngineReferences] = useState<EngineNumberReference[]>([])
+  const [engineNumberInput, setEngineNumberInput] = useState('')
+  const [engineNumberSource, setEngineNumberSource] = useState<EngineNumberSource>('manual')
+  const [engineScanning, setEngineScanning] = useState(false)
+  const [registrationInput, setRegistrationInput] = useState('')
+  const [plateCandidates, setPlateCandidates] = useState<string[]>([])
+  const [plateScanning, setPlateScanning] = useState(false)
+  const [liveStatus, setLiveStatus] = useState<PassportStreamStatus>('connecting')
+  const [liveUpdatedAt, setLiveUpdatedAt] = useState<number | null>(null)
 
   const [guideRole, setGuideRole] = useState<ImageRole | null>(null)
   const [activeTab, setActiveTab] = useState<TabKey>('exterior')
 
   const [dekraUrlHref, setDekraUrlHref] = useState<string>('')
 
+  // Photos waiting in the offline upload queue for this VIN
+  const [queuedUploads, setQueuedUploads] = useState<QueuedUpload[]>([])
+
   // Enhanced OCR states
   const [ocrScanning, setOcrScanning] = useState(false)
   const [lastVinScan, setLastVinScan] = useState<{
@@ -151,7 +204,12 @@ export default function Vin() {
   const [odometerScanning, setOdometerScanning] = useState(false)
 
   // Tyre depths (required by this screen)
-  const [tyreDepths, setTyreDepths] = useState<TyreDepths>({ fl: '', fr: '', rl: '', rr: '' })
+  const [tyreDepths, setTyreDepths] = useState<TyreDepths>(EMPTY_FIELDS.tyres)
+
+  // The editable fields as last loaded or saved, and as the inputs hold them now. Live events and revalidations
+  // only fill in a field the inspector has not changed since, so another inspector's save cannot wipe their edits.
+  const savedFieldsRef = useRef<EditableFields>(EMPTY_FIELDS)
+  const currentFieldsRef = useRef<EditableFields>(EMPTY_FIELDS)
 
   // Validation for required tyre fields
   const allTyreFieldsCompleted = useMemo(() => {
@@ -168,43 +226,93 @@ export default function Vin() {
     return /^https?:\/\//i.test(u) ? u : serverOrigin() + u
   }
 
+  useEffect(() => {
+    currentFieldsRef.current = { tyres: tyreDepths, notes, engineNumber: engineNumberInput, registration: registrationInput }
+  }, [tyreDepths, notes, engineNumberInput, registrationInput])
+
+  const applyPassport = useCallback((rec: Passport) => {
+    setPhotos(passportImages(rec))
+    setIsSealed(!!rec.sealed)
+
+    const saved = { ...savedFieldsRef.current }
+    const current = currentFieldsRef.current
+
+    const savedTyres = rec.sealed?.tyres_mm ?? rec.draft?.tyres_mm
+    if (savedTyres) {
+      const tyres: TyreDepths = {
+        fl: savedTyres.fl ?? '',
+        fr: savedTyres.fr ?? '',
+        rl: savedTyres.rl ?? '',
+        rr: savedTyres.rr ?? '',
+      }
+      if (sameTyres(current.tyres, saved.tyres)) setTyreDepths(tyres)
+      saved.tyres = tyres
+    }
+
+    const savedDekraUrl = rec.sealed?.dekra?.url || rec.draft?.dekra?.url
+    if (savedDekraUrl) {
+      setDekraUrlHref(savedDekraUrl)
+    }
+
+    setIdentification(rec.sealed?.identification ?? rec.draft?.identification)
+
+    const vehicle = rec.sealed?.vehicle ?? rec.draft?.vehicle
+    setSavedVehicle(vehicle)
+    setEngineReferences(engineNumberReferences(rec.sealed ?? rec.draft))
+    if (vehicle?.engine_number) {
+      if (current.engineNumber === saved.engineNumber) {
+        setEngineNumberInput(vehicle.engine_number)
+        setEngineNumberSource(vehicle.engine_number_source ?? 'manual')
+      }
+      saved.engineNumber = vehicle.engine_number
+    }
+    if (vehicle?.registration) {
+      if (current.registration === saved.registration) setRegistrationInput(vehicle.registration)
+      saved.registration = vehicle.registration
+    }
+
+    const savedNotes = rec.sealed?.notes ?? rec.draft?.notes
+    if (savedNotes !== undefined) {
+      if (current.notes === saved.notes) setNotes(savedNotes)
+      saved.notes = savedNotes
+    }
+
+    savedFieldsRef.current = saved
+  }, [])
+
+  // Reads go through the API query cache; a stale answer renders at once and the refresh arrives via the subscriptions below
   const load = useCallback(async () => {
     setError(null)
     setLoading(true)
     try {
       const [c, rec] = await Promise.all([
         getChecklist(vin),
-        getPassport(vin) as Promise<PassportRecord>,
+        getPassport(vin),
       ])
       setChk(c)
-
-      const items = [
-        ...(rec.sealed?.images?.items || []),
-        ...(rec.draft?.images?.items || []),
-      ]
-      setPhotos(items)
-      setIsSealed(!!rec.sealed)
-
-      const savedTyres = rec.sealed?.tyres_mm || rec.draft?.tyres_mm
-      if (savedTyres) {
-        setTyreDepths({
-          fl: savedTyres.fl ?? '',
-          fr: savedTyres.fr ?? '',
-          rl: savedTyres.rl ?? '',
-          rr: savedTyres.rr ?? '',
-        })
-      }
-
-      const savedDekraUrl = rec.sealed?.dekra?.url || rec.draft?.dekra?.url
-      if (savedDekraUrl) {
-        setDekraUrlHref(savedDekraUrl)
-      }
+      applyPassport(rec)
     } catch (error: unknown) {
       setError(getErrorMessage(error, 'Failed to load vehicle data'))
     } finally {
       setLoading(false)
     }
-  }, [vin])
+  }, [vin, applyPassport])
+
+  useEffect(() => {
+    const unsubscribeChecklist = subscribeToQuery<Checklist>(checklistQueryKey(vin), setChk)
+    const unsubscribePassport = subscribeToQuery<Passport>(passportQueryKey(vin), applyPassport)
+    return () => {
+      unsubscribeChecklist()
+      unsubscribePassport()
+    }
+  }, [vin, applyPassport])
+
+  // Other inspectors' and back-office changes land in the query cache, which the subscriptions above render
+  useEffect(() => subscribeToPassport(
+    vin,
+    () => setLiveUpdatedAt(Date.now()),
+    { onStatus: setLiveStatus }
+  ), [vin])
 
   // Extract odometer reading from OCR text
   function extractOdometerFromText(text: string): number | null {
@@ -270,6 +378,12 @@ export default function Vin() {
         confidence: result.confidence,
         rawText: result.km?.toString() || '',
         photo: photoUrl,
+        highlights: ocrHighlights(
+          result.regions,
+          result.km?.toString() ?? null,
+          result.candidates.map(candidate => String(candidate.value)),
+          digitsOnly
+        ),
         timestamp: Date.now(),
         manuallyAdjusted: false
       }
@@ -279,22 +393,30 @@ export default function Vin() {
       setOdometerJustification('')
 
       setUploading('dash_odo')
+      const odometerContext = {
+        capture_type: 'odometer',
+        crop_applied: analysis.cropApplied ? '1' : '0',
+        crop_method: analysis.cropMethod,
+        brightness: analysis.brightness.toFixed(1),
+        contrast: analysis.contrast.toFixed(1),
+        sharpness: analysis.sharpness.toFixed(1),
+        framing_score: analysis.framingScore.toFixed(1),
+        glare_score: analysis.glareScore.toFixed(1),
+        issues: analysis.issues.length ? analysis.issues.join('|') : 'none',
+        ...transformContext(analysis.transform),
+      }
+      const odometerOriginal = processed === file ? undefined : file
       try {
         await uploadPhotoDev(vin, 'dash_odo', processed, {
-          originalFile: processed === file ? undefined : file,
-          context: {
-            capture_type: 'odometer',
-            crop_applied: analysis.cropApplied ? '1' : '0',
-            brightness: analysis.brightness.toFixed(1),
-            contrast: analysis.contrast.toFixed(1),
-            sharpness: analysis.sharpness.toFixed(1),
-            framing_score: analysis.framingScore.toFixed(1),
-            issues: analysis.issues.length ? analysis.issues.join('|') : 'none',
-          },
+          originalFile: odometerOriginal,
+          context: odometerContext,
         })
         await load()
       } catch (uploadError) {
         console.warn('Failed to upload odometer photo to collection:', uploadError)
+        if (uploadError instanceof ApiError && uploadError.retryable) {
+          await queueForSync('dash_odo', processed, odometerOriginal, odometerContext, uploadError)
+        }
       } finally {
         setUploading(null)
       }
@@ -405,6 +527,139 @@ export default function Vin() {
     }
   }
 
+  async function onEngineFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    if (!file) return
+    try {
+      setEngineScanning(true)
+      const result = await ocrEngineNumberFromImage(file)
+      if (!result.engineNumber) {
+        alert('No engine number found in the photo. Move closer to the stamping or type it in.')
+        return
+      }
+      setEngineNumberInput(result.engineNumber)
+      setEngineNumberSource('ocr')
+    } catch (error: unknown) {
+      alert(`Engine number scan failed: ${getErrorMessage(error, 'Unknown OCR error')}`)
+    } finally {
+      setEngineScanning(false)
+      e.target.value = ''
+    }
+  }
+
+  // Runs alongside the photo upload; a miss just leaves the field for manual entry
+  async function readPlateFromPhoto(file: File) {
+    try {
+      setPlateScanning(true)
+      const result = await ocrPlateFromImage(file, { compress: false })
+      setPlateCandidates(result.candidates)
+      if (result.plate) {
+        const plate = result.plate
+        setRegistrationInput(current => (current.trim() ? current : plate))
+      }
+    } catch (error: unknown) {
+      console.warn('Plate OCR failed:', getErrorMessage(error, 'Unknown plate OCR error'))
+    } finally {
+      setPlateScanning(false)
+    }
+  }
+
+  // The vehicle details are replaced as a whole, so carry over what intake stored alongside the edited fields
+  function vehiclePatch(only?: 'engine' | 'registration'): VehicleDetails | undefined {
+    const engineNumber = normalizeEngineNumber(engineNumberInput)
+    const registration = registrationInput.trim() ? formatPlate(registrationInput) : ''
+    const engineChanged = only !== 'registration' && !!engineNumber && engineNumber !== savedVehicle?.engine_number
+    const registrationChanged = only !== 'engine' && !!registration && registration !== savedVehicle?.registration
+    if (!engineChanged && !registrationChanged) return undefined
+    return {
+      ...savedVehicle,
+      ...(engineChanged ? { engine_number: engineNumber, engine_number_source: engineNumberSource } : {}),
+      ...(registrationChanged ? { registration } : {}),
+    }
+  }
+
+  async function saveVehicleField(field: 'engine' | 'registration') {
+    const vehicle = vehiclePatch(field)
+    if (!vehicle) return
+    try {
+      setSaving(field)
+      const { checklist } = await patchDraft(vin, { vehicle })
+      setChk(checklist)
+      await load()
+    } catch (error: unknown) {
+      alert(getErrorMessage(error, field === 'engine' ? 'Failed to save engine number' : 'Failed to save registration'))
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  // Everything entered on the page that differs from the saved draft, as one patch
+  function buildDraftPatch(): DraftPatch {
+    const patch: DraftPatch = {}
+
+    if (dekraUrlInput.trim()) {
+      patch.dekra = { url: normalizeExternalUrl(dekraUrlInput) }
+    }
+
+    if (typeof odometerInput === 'number') {
+      const fromOcr = odometerReading && !odometerReading.manuallyAdjusted
+      patch.odometer = {
+        km: odometerInput,
+        source: fromOcr ? 'ocr' : 'manual',
+        ...(odometerReading ? {
+          ocr: {
+            confidence: odometerReading.confidence,
+            raw_text: odometerReading.rawText,
+            extracted_km: odometerReading.km,
+            adjusted: odometerReading.manuallyAdjusted,
+            ...(odometerReading.manuallyAdjusted && odometerJustification.trim()
+              ? { adjustment_reason: odometerJustification.trim() }
+              : {}),
+          },
+        } : {}),
+      }
+    }
+
+    if (Object.values(tyreDepths).some(v => v !== '')) {
+      patch.tyres_mm = {
+        fl: typeof tyreDepths.fl === 'number' ? tyreDepths.fl : null,
+        fr: typeof tyreDepths.fr === 'number' ? tyreDepths.fr : null,
+        rl: typeof tyreDepths.rl === 'number' ? tyreDepths.rl : null,
+        rr: typeof tyreDepths.rr === 'number' ? tyreDepths.rr : null,
+      }
+    }
+
+    if (notes.trim()) {
+      patch.notes = notes.trim()
+    }
+
+    const vehicle = vehiclePatch()
+    if (vehicle) {
+      patch.vehicle = vehicle
+    }
+
+    return patch
+  }
+
+  async function saveAll() {
+    const patch = buildDraftPatch()
+    if (!Object.keys(patch).length) {
+      alert('Nothing to save yet')
+      return
+    }
+    try {
+      setSaving('all')
+      const { checklist } = await patchDraft(vin, patch)
+      setChk(checklist)
+      if (patch.dekra) setDekraUrlInput('')
+      await load()
+    } catch (error: unknown) {
+      alert(getErrorMessage(error, 'Failed to save inspection'))
+    } finally {
+      setSaving(null)
+    }
+  }
+
   useEffect(() => {
     if (!guideRole) return
     const prev = document.body.style.overflow
@@ -414,6 +669,16 @@ export default function Vin() {
 
   useEffect(() => { load() }, [load])
 
+  // Leaving the page cancels an in-flight upload instead of letting it finish unseen
+  useEffect(() => () => uploadAbortRef.current?.abort(), [])
+
+  useEffect(() => subscribeToUploadQueue(event => {
+    setQueuedUploads(event.entries.filter(entry => entry.vin === vin))
+    if (event.type === 'synced' && event.entry.vin === vin) {
+      load()
+    }
+  }), [vin, load])
+
   useEffect(() => () => {
     if (odometerCaptureFallback.current) {
       clearTimeout(odometerCaptureFallback.current)
@@ -421,14 +686,37 @@ export default function Vin() {
     }
   }, [])
 
+  const decodedVin = useMemo(() => decodeVin(vin), [vin])
+  const isNonStandardChassis = identification?.type === 'non_standard_chassis'
+  const engineMismatches = useMemo(
+    () => crossCheckEngineNumber(engineNumberInput, engineReferences),
+    [engineNumberInput, engineReferences]
+  )
+  const engineNumberDirty = normalizeEngineNumber(engineNumberInput) !== (savedVehicle?.engine_number ?? '')
+  const plateMatch = useMemo(() => parsePlate(registrationInput), [registrationInput])
+  const registrationDirty = !!registrationInput.trim() && formatPlate(registrationInput) !== (savedVehicle?.registration ?? '')
+  const [wmiInfo, setWmiInfo] = useState<WmiInfo | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    lookupWmi(vin).then(info => { if (!cancelled) setWmiInfo(info) })
+    return () => { cancelled = true }
+  }, [vin])
+
   const presentByRole = useMemo(() => {
-    const m = new Map<ImageRole, PhotoItem>()
+    const m = new Map<ImageRole, PassportImage>()
     photos.forEach(p => m.set(p.role, p))
     return m
   }, [photos])
 
   const missingSet = useMemo(() => new Set(chk?.checklist.missing || []), [chk])
 
+  const pendingRoles = useMemo(
+    () => new Set(queuedUploads.filter(entry => entry.status === 'pending').map(entry => entry.role)),
+    [queuedUploads]
+  )
+  const failedUploads = useMemo(() => queuedUploads.filter(entry => entry.status === 'failed'), [queuedUploads])
+
   const missingCountByTab = useMemo(() => {
     const map = new Map<TabKey, number>()
     for (const t of TABS) {
@@ -454,6 +742,29 @@ export default function Vin() {
     }
   }
 
+  // Keep the photo on the device and let the upload queue replay it once we are back online
+  async function queueForSync(
+    role: ImageRole,
+    file: File,
+    originalFile: File | undefined,
+    context: Record<string, string>,
+    reason?: unknown
+  ) {
+    try {
+      await enqueueUpload({
+        vin,
+        role,
+        file,
+        originalFile,
+        context,
+        lastError: reason === undefined ? undefined : getErrorMessage(reason, 'Upload failed'),
+      })
+    } catch (queueError: unknown) {
+      console.warn('Failed to queue photo for sync:', queueError)
+      alert('Upload failed - please try again')
+    }
+  }
+
   function choosePhoto(role: ImageRole) {
     if (isSealed) return
     setGuideRole(role)
@@ -498,12 +809,16 @@ export default function Vin() {
       }
       processedFile = analysisResult.processedFile
 
+      if (PLATE_ROLES.includes(activeRole) && !isSealed && !savedVehicle?.registration) {
+        void readPlateFromPhoto(processedFile)
+      }
+
       if (canScanVin && !isSealed) {
         const shouldOcr = confirm('This photo may contain a visible VIN. Scan for verification?')
         if (shouldOcr) {
           try {
             setOcrScanning(true)
-            const result = await ocrVinFromImage(processedFile, {
+            const result = await ocrVin(processedFile, {
               compress: false,
               onProgress: (stage: string) => console.log(`VIN OCR ${stage}...`)
             })
@@ -524,7 +839,7 @@ Confidence: ${result.confidence.toFixed(1)}%
 ${
                   matches ? '✓ Matches expected VIN' : '⚠ Does NOT match expected VIN'
                 }
-Expected: ${vin}`
+Expected: ${vin}${result.source === 'device' ? '\n\nRead on this device — server OCR unavailable' : ''}`
                 alert(message)
               }, 1000)
             }
@@ -541,20 +856,66 @@ Expected: ${vin}`
       }
       if (analysis) {
         context.crop_applied = analysis.cropApplied ? '1' : '0'
+        context.crop_method = analysis.cropMethod
         context.brightness = analysis.brightness.toFixed(1)
         context.contrast = analysis.contrast.toFixed(1)
         context.sharpness = analysis.sharpness.toFixed(1)
         context.framing_score = analysis.framingScore.toFixed(1)
+        context.glare_score = analysis.glareScore.toFixed(1)
         if (analysis.issues.length) context.issues = analysis.issues.join('|')
+        Object.assign(context, transformContext(analysis.transform))
       }
 
-      await uploadPhotoDev(vin, activeRole, processedFile, {
-        originalFile: processedFile === file ? undefined : file,
-        context,
-      })
+      const originalFile = processedFile === file ? undefined : file
+      if (navigator.onLine === false) {
+        await queueForSync(activeRole, processedFile, originalFile, context)
+        setUploading(null)
+        setActiveRole('')
+        e.target.value = ''
+        return
+      }
+
+      const controller = new AbortController()
+      uploadAbortRef.current = controller
+      setUploadProgress(0)
+      try {
+        await uploadPhotoDev(vin, activeRole, processedFile, {
+          originalFile,
+          context,
+          signal: controller.signal,
+          onProgress: setUploadProgress,
+        })
+      } catch (uploadError: unknown) {
+        if (uploadError instanceof ApiAbortError) {
+          setUploading(null)
+          setActiveRole('')
+          e.target.value = ''
+          return
+        }
+        // Dropped connection, timeout or busy server: hand the photo to the offline queue
+        if (uploadError instanceof ApiError && uploadError.retryable) {
+          await queueForSync(activeRole, processedFile, originalFile, context, uploadError)
+          setUploading(null)
+          setActiveRole('')
+          e.target.value = ''
+          return
+        }
+        throw uploadError
+      } finally {
+        uploadAbortRef.current = null
+        setUploadProgress(null)
+      }
       uploadSuccess = true
     } catch (error: unknown) {
       console.warn('Upload reported error', error)
+      // Rejected outright (bad file, not configured, ...): polling would never find the photo
+      if (error instanceof ApiError && !error.retryable) {
+        alert(`Upload failed: ${error.userMessage}`)
+        setUploading(null)
+        setActiveRole('')
+        e.target.value = ''
+        return
+      }
     }
 
     await new Promise(resolve => setTimeout(resolve, 300))
@@ -565,17 +926,10 @@ Expected: ${vin}`
 
     while (attempts < maxAttempts && !photoFound) {
       try {
-        await load()
-        await new Promise(resolve => setTimeout(resolve, 200))
-        await getChecklist(vin)
-        const freshPassport = await getPassport(vin) as PassportRecord
+        // The upload dropped this VIN's cached reads, so the first pass is already fresh
+        const freshPassport = await getPassport(vin, { fresh: attempts > 0 })
 
-        const allImages: PhotoItem[] = [
-          ...((freshPassport?.sealed?.images?.items ?? []) as PhotoItem[]),
-          ...((freshPassport?.draft?.images?.items ?? []) as PhotoItem[]),
-        ]
-
-        const photoExists = allImages.some(img => img.role === activeRole)
+        const photoExists = passportImages(freshPassport).some(img => img.role === activeRole)
         if (photoExists) {
           photoFound = true
           uploadSuccess = true
@@ -594,15 +948,10 @@ Expected: ${vin}`
 
     if (!uploadSuccess && !photoFound) {
       try {
-        await load()
         await new Promise(resolve => setTimeout(resolve, 200))
 
-        const finalCheck = await getPassport(vin) as PassportRecord
-        const finalImages: PhotoItem[] = [
-          ...((finalCheck?.sealed?.images?.items ?? []) as PhotoItem[]),
-          ...((finalCheck?.draft?.images?.items ?? []) as PhotoItem[]),
-        ]
-        const finalPhotoExists = finalImages.some(img => img.role === activeRole)
+        const finalCheck = await getPassport(vin, { fresh: true })
+        const finalPhotoExists = passportImages(finalCheck).some(img => img.role === activeRole)
 
         if (!finalPhotoExists) {
           alert('Upload failed - please try again')
@@ -612,6 +961,7 @@ Expected: ${vin}`
       }
     }
 
+    await load()
     setUploading(null)
     setActiveRole('')
     e.target.value = ''
@@ -628,7 +978,7 @@ Expected: ${vin}`
       if (!file) return
       try {
         setOcrScanning(true)
-        const result = await ocrVinFromImage(file, {
+        const result = await ocrVin(file, {
           compress: true,
           onProgress: (stage: string) => console.log(`VIN verification ${stage}...`)
         })
@@ -642,7 +992,7 @@ Expected: ${vin}`
         const message = result.vin
           ? `VIN: ${result.vin}\nConfidence: ${result.confidence.toFixed(1)}%\nValid: ${result.vinValid ? 'Yes' : 'No'}\n\n${
               result.vin === vin ? '✓ Matches expected!' : '⚠ Does NOT match expected VIN'
-            }`
+            }${result.source === 'device' ? '\n\nRead on this device — server OCR unavailable' : ''}`
           : 'No VIN detected. Try windshield, dashboard, or engine bay VIN plate.'
         alert(message)
       } catch (error: unknown) {
@@ -663,6 +1013,22 @@ Expected: ${vin}`
   }
 
 
+  function UploadProgressRing({ progress }: { progress: number }) {
+    const radius = 18
+    const circumference = 2 * Math.PI * radius
+    return (
+      <svg viewBox="0 0 44 44" className="w-12 h-12 -rotate-90" aria-hidden="true">
+        <circle cx="22" cy="22" r={radius} fill="none" strokeWidth="4" className="stroke-white/30" />
+        <circle
+          cx="22" cy="22" r={radius} fill="none" strokeWidth="4" strokeLinecap="round"
+          className="stroke-white transition-[stroke-dashoffset] duration-200"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - progress / 100)}
+        />
+      </svg>
+    )
+  }
+
   function GuidanceModal({
     role,
     onCancel,
@@ -688,14 +1054,16 @@ Expected: ${vin}`
               </div>
             )}
           </div>
-          <div className="aspect-video w-full bg-slate-100">
-            <img
-              src={g?.img}
-              alt={g?.title}
-              className="w-full h-full object-cover"
-              onError={event => { event.currentTarget.style.display = 'none' }}
-            />
-          </div>
+          {g?.img && (
+            <div className="aspect-video w-full bg-slate-100">
+              <img
+                src={g.img}
+                alt={g.title}
+                className="w-full h-full object-cover"
+                onError={event => { event.currentTarget.style.display = 'none' }}
+              />
+            </div>
+          )}
           <div className="p-4 space-y-2">
             <button onClick={onProceed}
                     className="w-full rounded-xl bg-teal-600 hover:bg-teal-700 text-white py-3 text-sm font-medium">
@@ -730,12 +1098,42 @@ Expected: ${vin}`
             <h2 className="text-lg font-semibold text-slate-800">
               VIN: <span className="font-mono text-base">{vin}</span>
             </h2>
-            <div className="flex items-center gap-2 mt-1">
-              <div className={`w-2 h-2 rounded-full ${isValidVin(vin) ? 'bg-green-500' : 'bg-yellow-500'}`} />
-              <span className="text-xs text-slate-600">
-                {isValidVin(vin) ? 'Valid VIN format' : 'Invalid check digit'}
-              </span>
-            </div>
+            {isNonStandardChassis ? (
+              <div className="flex items-center gap-2 mt-1">
+                <div className="w-2 h-2 rounded-full bg-slate-400" />
+                <span className="text-xs text-slate-600">Non-standard chassis number · no checksum applies</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 mt-1">
+                <div className={`w-2 h-2 rounded-full ${isValidVin(vin) ? 'bg-green-500' : 'bg-yellow-500'}`} />
+                <span className="text-xs text-slate-600">
+                  {isValidVin(vin) ? 'Valid VIN format' : 'Invalid check digit'}
+                </span>
+              </div>
+            )}
+            {!isNonStandardChassis && (wmiInfo?.make || decodedVin.modelYear || decodedVin.country) && (
+              <div className="text-xs text-slate-600 mt-1">
+                {[
+                  wmiInfo?.make,
+                  wmiInfo?.vehicleType && VEHICLE_TYPE_LABELS[wmiInfo.vehicleType],
+                  decodedVin.modelYear && `${decodedVin.modelYear} model year`,
+                  decodedVin.country,
+                ].filter(Boolean).join(' · ')}
+                {decodedVin.plantCode && decodedVin.serialNumber && (
+                  <span className="text-slate-400"> · plant {decodedVin.plantCode}, serial {decodedVin.serialNumber}</span>
+                )}
+              </div>
+            )}
+            {(liveStatus === 'open' || liveStatus === 'reconnecting') && (
+              <div className="flex items-center gap-2 mt-1" aria-live="polite">
+                <div className={`w-2 h-2 rounded-full ${liveStatus === 'open' ? 'bg-teal-500' : 'bg-amber-500 animate-pulse'}`} />
+                <span className="text-xs text-slate-600">
+                  {liveStatus === 'open'
+                    ? `Live updates on${liveUpdatedAt ? ` · last change ${new Date(liveUpdatedAt).toLocaleTimeString()}` : ''}`
+                    : 'Reconnecting live updates...'}
+                </span>
+              </div>
+            )}
 
             {lastVinScan && (
               <div className={`mt-2 text-xs px-2 py-1 rounded-md border flex items-center gap-2 ${
@@ -809,6 +1207,12 @@ Expected: ${vin}`
                   : <AlertTriangle className="w-4 h-4 text-amber-600" />}
                 <span>Photos: <b>{chk.checklist.presentCount}/{chk.checklist.requiredCount}</b></span>
               </li>
+              <li className="flex items-center gap-2">
+                {savedVehicle?.registration
+                  ? <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+                  : <AlertTriangle className="w-4 h-4 text-amber-600" />}
+                <span>Registration: <b className={savedVehicle?.registration ? 'font-mono' : ''}>{savedVehicle?.registration || 'Missing'}</b></span>
+              </li>
             </ul>
           </div>
  
@@ -857,11 +1261,14 @@ Expected: ${vin}`
                 {/* Captured photo and extracted reading */}
                 <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
                   {odometerReading.photo && (
-                    <img
-                      src={odometerReading.photo}
-                      alt="Odometer"
-                      className="w-full h-32 object-cover"
-                    />
+                    <div className="bg-slate-900">
+                      <OcrOverlay
+                        src={odometerReading.photo}
+                        alt="Odometer"
+                        highlights={odometerReading.highlights ?? []}
+                        imageClassName="max-h-40 w-auto"
+                      />
+                    </div>
                   )}
 
                   <div className="p-3 space-y-3">
@@ -953,6 +1360,157 @@ Expected: ${vin}`
             )}
           </div>
 
+          {/* Registration plate, prefilled from the exterior photos when it can be read */}
+          <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-slate-700 rounded-lg flex items-center justify-center">
+                <Car className="w-4 h-4 text-white" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-slate-800">Registration</h3>
+                <p className="text-xs text-slate-600">Read from the front and rear 3/4 photos, or type it in</p>
+              </div>
+            </div>
+
+            <input
+              value={registrationInput}
+              onChange={e => setRegistrationInput(e.target.value.toUpperCase())}
+              onBlur={() => setRegistrationInput(formatPlate(registrationInput))}
+              placeholder="e.g. CA 123-456"
+              aria-label="Registration number"
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 font-mono"
+              disabled={isSealed}
+              autoCapitalize="characters"
+            />
+
+            {registrationInput.trim() && (
+              plateMatch ? (
+                <div className="flex items-center gap-2 text-xs text-emerald-700">
+                  <CheckCircle2 className="w-4 h-4" />
+                  {describePlate(plateMatch)}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-xs text-amber-700">
+                  <AlertTriangle className="w-4 h-4" />
+                  Not a recognised SA plate format — check it before saving
+                </div>
+              )
+            )}
+
+            {plateScanning && (
+              <div className="flex items-center gap-2 text-xs text-slate-500">
+                <div className="w-3 h-3 border-2 border-slate-400 border-t-transparent rounded-full animate-spin" />
+                Reading plate from photo...
+              </div>
+            )}
+
+            {!isSealed && plateCandidates.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs text-slate-500">Read from photo:</span>
+                {plateCandidates.map(candidate => (
+                  <button
+                    key={candidate}
+                    onClick={() => setRegistrationInput(candidate)}
+                    className={`px-2 py-0.5 rounded border text-xs font-mono
+                      ${formatPlate(registrationInput) === candidate ? 'border-teal-400 bg-teal-50 text-teal-800' : 'border-slate-300 hover:bg-slate-50'}`}
+                  >
+                    {candidate}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {!isSealed && registrationDirty && (
+              <button
+                onClick={() => saveVehicleField('registration')}
+                disabled={saving === 'registration'}
+                className="w-full bg-slate-700 hover:bg-slate-800 text-white py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                {saving === 'registration' ? 'Saving...' : 'Save registration'}
+              </button>
+            )}
+          </div>
+
+          {/* Engine number, cross-checked against the licence disc */}
+          <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-slate-700 rounded-lg flex items-center justify-center">
+                <Cog className="w-4 h-4 text-white" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-slate-800">Engine Number</h3>
+                <p className="text-xs text-slate-600">Stamped on the block; compared with the licence disc</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                value={engineNumberInput}
+                onChange={e => {
+                  setEngineNumberInput(e.target.value.toUpperCase())
+                  setEngineNumberSource('manual')
+                }}
+                onBlur={() => setEngineNumberInput(normalizeEngineNumber(engineNumberInput))}
+                placeholder="e.g. CBZ123456"
+                aria-label="Engine number"
+                className={`flex-1 border rounded-lg px-3 py-2 font-mono
+                  ${engineMismatches.length ? 'border-red-300 bg-red-50' : 'border-slate-300'}`}
+                disabled={isSealed || engineScanning}
+                autoCapitalize="characters"
+              />
+              <button
+                onClick={() => engineFileRef.current?.click()}
+                disabled={isSealed || engineScanning}
+                className="inline-flex items-center gap-1 px-3 py-2 border border-slate-300 rounded-lg text-sm hover:bg-slate-50 disabled:opacity-50"
+              >
+                {engineScanning ? (
+                  <div className="w-4 h-4 border-2 border-slate-500 border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Camera className="w-4 h-4" />
+                )}
+                Scan
+              </button>
+              <input
+                ref={engineFileRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="sr-only"
+                aria-label="Engine number photo input"
+                onChange={onEngineFile}
+              />
+            </div>
+
+            {engineNumberSource === 'ocr' && engineNumberDirty && (
+              <p className="text-xs text-slate-500">Read from the engine-bay photo — check it against the stamping before saving.</p>
+            )}
+
+            {engineMismatches.map(mismatch => (
+              <div key={mismatch.label} className="flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  Does not match the {mismatch.label}: <span className="font-mono">{mismatch.expected}</span>
+                </span>
+              </div>
+            ))}
+            {!engineMismatches.length && engineNumberInput && engineReferences.length > 0 && (
+              <div className="flex items-center gap-2 text-xs text-emerald-700">
+                <CheckCircle2 className="w-4 h-4" />
+                Matches the {engineReferences.map(reference => reference.label).join(' and ')}
+              </div>
+            )}
+
+            {!isSealed && engineNumberDirty && (
+              <button
+                onClick={() => saveVehicleField('engine')}
+                disabled={saving === 'engine' || !normalizeEngineNumber(engineNumberInput)}
+                className="w-full bg-slate-700 hover:bg-slate-800 text-white py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                {saving === 'engine' ? 'Saving...' : 'Save engine number'}
+              </button>
+            )}
+          </div>
+
           {/*  Tyre Measurements section */}
           <div className="rounded-xl border-2 border-orange-200 bg-orange-50/50 p-4 space-y-4">
             <div className="flex items-center gap-3">
@@ -1257,7 +1815,7 @@ Expected: ${vin}`
                     const baseRoles = TABS.find(t => t.key === activeTab)!.roles
                     const displayRoles = activeTab === 'exterior'
                       ? Array.from(new Set([...baseRoles, 'engine_bay' as ImageRole]))
-                      : baseRoles
+                      : isNonStandardChassis ? baseRoles : baseRoles.filter(r => r !== 'chassis_plate')
                     return displayRoles
                   })().map((role) => {
                     const existing = presentByRole.get(role)
@@ -1267,44 +1825,76 @@ Expected: ${vin}`
                     const canScanVin = ROLE_GUIDE[role]?.canScanVin
 
                     return (
-                      <button
-                        key={role}
-                        onClick={() => choosePhoto(role)}
-                        disabled={disabled}
-                        className={`aspect-square rounded-lg border relative overflow-hidden active:scale-[.99] transition-transform
-                          ${hasPhoto ? 'bg-white border-slate-200' : 'bg-slate-50 border-slate-200'}
-                          ${disabled ? 'opacity-60 cursor-not-allowed' : 'hover:border-slate-300'}
-                        `}
-                      >
-                        {hasPhoto && src ? (
-                          <>
-                            <img src={absUrl(src)} alt={role} className="w-full h-full object-cover" />
-                            <span className="absolute bottom-1 left-1 right-1 text-[10px] bg-black/70 text-white rounded px-1">
-                              {rolePretty(role)} — Replace
-                            </span>
-                            {canScanVin && (
-                              <span className="absolute top-1 left-1 bg-blue-600 text-white rounded p-1">
-                                <Eye className="w-3 h-3" />
+                      <div key={role} className="relative">
+                        <button
+                          onClick={() => choosePhoto(role)}
+                          disabled={disabled}
+                          className={`w-full aspect-square rounded-lg border relative overflow-hidden active:scale-[.99] transition-transform
+                            ${hasPhoto ? 'bg-white border-slate-200' : 'bg-slate-50 border-slate-200'}
+                            ${disabled ? 'opacity-60 cursor-not-allowed' : 'hover:border-slate-300'}
+                          `}
+                        >
+                          {hasPhoto && src ? (
+                            <>
+                              <img src={absUrl(src)} alt={role} className="w-full h-full object-cover" />
+                              <span className="absolute bottom-1 left-1 right-1 text-[10px] bg-black/70 text-white rounded px-1">
+                                {rolePretty(role)} — Replace
                               </span>
-                            )}
-                          </>
-                        ) : (
-                          <div className="w-full h-full grid place-items-center text-[11px] text-slate-700 px-2 text-center">
-                            <div className="space-y-1">
-                              <Camera className="w-6 h-6 text-slate-500 mx-auto" />
-                              <div>{rolePretty(role)}</div>
                               {canScanVin && (
-                                <div className="text-[9px] text-blue-600">VIN area</div>
+                                <span className="absolute top-1 left-1 bg-blue-600 text-white rounded p-1">
+                                  <Eye className="w-3 h-3" />
+                                </span>
                               )}
+                            </>
+                          ) : (
+                            <div className="w-full h-full grid place-items-center text-[11px] text-slate-700 px-2 text-center">
+                              <div className="space-y-1">
+                                <Camera className="w-6 h-6 text-slate-500 mx-auto" />
+                                <div>{rolePretty(role)}</div>
+                                {canScanVin && (
+                                  <div className="text-[9px] text-blue-600">VIN area</div>
+                                )}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Missing indicator */}
+                          {missingSet.has(role) && (
+                            <span className="absolute top-1 right-1 inline-flex items-center justify-center w-5 h-5 rounded-full bg-rose-100 text-rose-700 border border-rose-200 text-[10px]">!</span>
+                          )}
+
+                          {/* Pending offline sync indicator */}
+                          {pendingRoles.has(role) && (
+                            <span className="absolute top-1 right-7 inline-flex items-center gap-0.5 h-5 rounded-full bg-sky-600 text-white text-[9px] px-1.5">
+                              <CloudUpload className="w-3 h-3" />
+                              Pending sync
+                            </span>
+                          )}
+                        </button>
+
+                        {/* Upload progress, kept outside the tile button so Cancel stays clickable */}
+                        {uploading === role && uploadProgress !== null && (
+                          <div className="absolute inset-0 rounded-lg bg-black/50 grid place-items-center">
+                            <div className="flex flex-col items-center gap-1">
+                              <div className="relative">
+                                <UploadProgressRing progress={uploadProgress} />
+                                <span className="absolute inset-0 grid place-items-center text-[10px] font-semibold text-white">
+                                  {uploadProgress}%
+                                </span>
+                              </div>
+                              <button
+                                type="button"
+                                onClick={() => uploadAbortRef.current?.abort()}
+                                className="inline-flex items-center gap-0.5 rounded-full bg-white/90 text-slate-800 text-[10px] px-2 py-0.5 hover:bg-white"
+                                aria-label={`Cancel ${rolePretty(role)} upload`}
+                              >
+                                <X className="w-3 h-3" />
+                                Cancel
+                              </button>
                             </div>
                           </div>
                         )}
-
-                        {/* Missing indicator */}
-                        {missingSet.has(role) && (
-                          <span className="absolute top-1 right-1 inline-flex items-center justify-center w-5 h-5 rounded-full bg-rose-100 text-rose-700 border border-rose-200 text-[10px]">!</span>
-                        )}
-                      </button>
+                      </div>
                     )
                   })}
                 </div>
@@ -1365,6 +1955,47 @@ Expected: ${vin}`
               </div>
             )}
 
+            {pendingRoles.size > 0 && (
+              <div className="mt-2 text-xs text-sky-700 inline-flex items-center gap-2">
+                <CloudUpload className="w-4 h-4" />
+                {pendingRoles.size} photo{pendingRoles.size === 1 ? '' : 's'} waiting to sync — uploads resume automatically when back online
+              </div>
+            )}
+
+            {failedUploads.length > 0 && (
+              <div className="mt-3 rounded-lg border border-rose-200 bg-rose-50 p-3 space-y-2">
+                <div className="text-sm font-semibold text-rose-800">Failed uploads</div>
+                <ul className="space-y-2">
+                  {failedUploads.map(entry => (
+                    <li key={entry.id} className="flex items-center justify-between gap-2 text-xs text-rose-700">
+                      <div className="min-w-0">
+                        <div className="font-medium">{rolePretty(entry.role)}</div>
+                        {entry.lastError && <div className="truncate">{entry.lastError}</div>}
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => { void retryQueuedUpload(entry.id) }}
+                          className="rounded-lg bg-rose-600 hover:bg-rose-700 text-white px-2 py-1"
+                        >
+                          Retry
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`Discard the ${rolePretty(entry.role)} photo? It will need to be retaken.`)) {
+                              void discardQueuedUpload(entry.id)
+                            }
+                          }}
+                          className="rounded-lg border border-rose-300 px-2 py-1 hover:bg-rose-100"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {qualityIssue && (
               <div className="mt-3 rounded-lg border border-amber-300 bg-amber-50 p-3 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                 <div className="text-sm text-amber-800">
@@ -1407,6 +2038,37 @@ Expected: ${vin}`
             )}
           </div>
 
+          {/* Notes and batched save */}
+          {!isSealed && (
+            <div className="rounded-xl border border-slate-200 bg-white p-3 space-y-2">
+              <label htmlFor="inspection-notes" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                <Edit3 className="w-4 h-4" />
+                Inspector notes
+              </label>
+              <textarea
+                id="inspection-notes"
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                rows={3}
+                maxLength={2000}
+                placeholder="Damage, missing items, anything the buyer should know"
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+                disabled={saving === 'all'}
+              />
+              <button
+                onClick={saveAll}
+                disabled={saving !== null}
+                className="w-full inline-flex items-center justify-center gap-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-white py-2 text-sm font-medium disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {saving === 'all' ? 'Saving...' : 'Save all'}
+              </button>
+              <p className="text-[11px] text-slate-500">
+                Saves the DEKRA link, odometer, tyre depths, registration, engine number and notes together — nothing is stored unless all of it is.
+              </p>
+            </div>
+          )}
+
           {/* Ready / Sealed status */}
           <div className={`rounded-xl p-3 border ${
             isSealed
@@ -1416,6 +2078,9 @@ Expected: ${vin}`
               {isSealed ? <Shield className="w-4 h-4" /> : <Clock className="w-4 h-4" />}
               <span>{isSealed ? 'Sealed ✓' : (chk.ready ? 'Ready to seal' : 'Not ready to seal yet')}</span>
             </div>
+            {!isSealed && engineMismatches.length > 0 && (
+              <div className="mt-1 text-xs text-red-700">Engine number does not match the {engineMismatches[0].label}</div>
+            )}
           </div>
 
           {/* Seal action */}
@@ -1423,6 +2088,10 @@ Expected: ${vin}`
             disabled={!chk.ready || sealing || isSealed}
             onClick={async () => {
               if (!chk.ready) return
+              if (engineMismatches.length) {
+                const expected = engineMismatches.map(m => `the ${m.label} (${m.expected})`).join(' or ')
+                if (!confirm(`Engine number ${engineMismatches[0].actual} does not match ${expected}. Seal anyway?`)) return
+              }
               const ok = confirm('Seal this vehicle passport? Required fields become immutable.')
               if (!ok) return
               try {
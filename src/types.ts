@@ -1,7 +1,8 @@
 export type ImageRole =
   | 'exterior_front_34' | 'exterior_rear_34' | 'left_side' | 'right_side'
   | 'interior_front' | 'interior_rear' | 'dash_odo' | 'engine_bay'
-  | 'tyre_fl' | 'tyre_fr' | 'tyre_rl' | 'tyre_rr';
+  | 'tyre_fl' | 'tyre_fr' | 'tyre_rl' | 'tyre_rr'
+  | 'chassis_plate';
 
 export interface Checklist {
   vin: string;
@@ -16,4 +17,148 @@ export interface Checklist {
     missing: ImageRole[];
   };
   ready: boolean;
-}
\ No newline at end of file
+}
+
+export interface PassportImage {
+  role: ImageRole;
+  url?: string;
+  object_key?: string;
+  captured_ts?: string;
+}
+
+export interface TyreDepthsMm {
+  fl: number | null;
+  fr: number | null;
+  rl: number | null;
+  rr: number | null;
+}
+
+export interface DekraInfo {
+  url: string | null;
+  inspection_ts: string | null;
+  site: string | null;
+}
+
+export type OdometerSource = 'manual' | 'dekra' | 'ocr';
+
+// How an OCR'd odometer value was obtained, kept for the audit trail
+export interface OdometerOcrMetadata {
+  confidence: number;
+  raw_text?: string;
+  extracted_km?: number | null;
+  adjusted?: boolean;
+  adjustment_reason?: string;
+}
+
+export interface OdometerInfo {
+  km: number | null;
+  source: OdometerSource | null;
+  ocr?: OdometerOcrMetadata;
+}
+
+// How the vehicle was identified at intake. Non-standard chassis numbers (pre-1981, trailers, some grey
+// imports) are kept exactly as read, never checksum-validated, and always carry the inspector's reason.
+export type ChassisIdentification =
+  | { type: 'vin' }
+  | { type: 'non_standard_chassis'; raw_chassis: string; justification: string; checksum_enforced: false };
+
+export type EngineNumberSource = 'manual' | 'ocr' | 'licence_disc';
+
+// Identification beyond the VIN, typed at intake or prefilled from the licence disc
+export interface VehicleDetails {
+  registration?: string;
+  engine_number?: string;
+  engine_number_source?: EngineNumberSource;
+  description?: string;
+}
+
+// The licence disc as scanned at intake, kept so later entries can be cross-checked against it
+export interface LicenceDiscRecord {
+  disc_number: string;
+  registration: string;
+  vehicle_register_number: string;
+  description: string;
+  make: string;
+  model: string;
+  colour: string;
+  vin: string;
+  engine_number: string;
+  expiry: string | null;
+}
+
+export interface PassportDraft {
+  vin?: string;
+  lot_id?: string;
+  images: { items: PassportImage[] };
+  tyres_mm: TyreDepthsMm | null;
+  dekra: DekraInfo | null;
+  odometer: OdometerInfo | null;
+  notes?: string;
+  identification?: ChassisIdentification;
+  vehicle?: VehicleDetails;
+  licence_disc?: LicenceDiscRecord;
+  updated_ts?: string;
+}
+
+export interface SealMetadata {
+  sealed_ts: string;
+  hash?: string;
+  signature?: string;
+  key_id?: string;
+}
+
+export interface SealedPassport extends PassportDraft {
+  seal: SealMetadata | null;
+}
+
+export interface Passport {
+  vin: string;
+  draft: PassportDraft | null;
+  sealed: SealedPassport | null;
+}
+
+export interface InitDraftResponse {
+  ok: boolean;
+  vin?: string;
+  draft?: PassportDraft;
+}
+
+export interface SealResponse {
+  ok: boolean;
+  sealed?: SealedPassport;
+}
+
+export interface AuthTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  // Seconds until access_token expires
+  expires_in: number;
+  inspector: {
+    id: string;
+    name: string;
+    email?: string;
+  };
+}
+
+// Single-use credential for opening a passport event stream, which cannot carry an Authorization header
+export interface StreamTicketResponse {
+  ticket: string;
+  // Seconds until the ticket can no longer be redeemed
+  expires_in: number;
+}
+
+// Fields omitted from a patch are left untouched; the backend applies the rest all-or-nothing
+export interface DraftPatch {
+  dekra?: { url: string };
+  odometer?: { km: number; source: OdometerSource; ocr?: OdometerOcrMetadata };
+  tyres_mm?: TyreDepthsMm;
+  notes?: string;
+  // Replaces the stored vehicle details as a whole; send every field that should survive
+  vehicle?: VehicleDetails;
+}
+
+export interface PatchDraftResponse {
+  ok: boolean;
+  checklist: Checklist;
+  draft?: PassportDraft;
+}
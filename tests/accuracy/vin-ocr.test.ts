@@ -39,7 +39,8 @@ vi.mock('../../src/lib/api', async () => {
           textExtracted: true,
           totalBlocks: 0,
           lineCount: 0,
-          fromCache: false
+          fromCache: false,
+          source: 'server'
         }
       }
 
@@ -54,7 +55,8 @@ vi.mock('../../src/lib/api', async () => {
         textExtracted: true,
         totalBlocks: Math.floor(Math.random() * 10) + 3,
         lineCount: Math.floor(Math.random() * 20) + 5,
-        fromCache: false
+        fromCache: false,
+        source: 'server'
       }
     })
   }
@@ -317,7 +317,7 @@ describe('VIN Page Integration Tests', () => {
       })
 
       // Save button should be enabled
-      const saveButton = screen.getByRole('button', { name: /save/i })
+      const saveButton = screen.getByRole('button', { name: /^save$/i })
       expect(saveButton).not.toBeDisabled()
 
       await user.click(saveButton)
@@ -345,7 +345,7 @@ describe('VIN Page Integration Tests', () => {
       })
 
       // Save button should be disabled
-      const saveButton = screen.getByRole('button', { name: /save/i })
+      const saveButton = screen.getByRole('button', { name: /^save$/i })
       expect(saveButton).toBeDisabled()
 
       // Should show validation message
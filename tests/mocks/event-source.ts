@@ -0,0 +1,64 @@
+// Stand-in for the browser EventSource (jsdom has none); tests drive the stream by hand
+type Listener = (event: MessageEvent) => void
+
+export class StubEventSource {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSED = 2
+  static instances: StubEventSource[] = []
+
+  readonly url: string
+  readyState = StubEventSource.CONNECTING
+  onopen: ((event: Event) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+  onmessage: Listener | null = null
+  private listeners = new Map<string, Set<Listener>>()
+
+  constructor(url: string | URL) {
+    this.url = String(url)
+    StubEventSource.instances.push(this)
+  }
+
+  static latest(): StubEventSource | undefined {
+    return StubEventSource.instances[StubEventSource.instances.length - 1]
+  }
+
+  static reset() {
+    StubEventSource.instances = []
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    let set = this.listeners.get(type)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(type, set)
+    }
+    set.add(listener)
+  }
+
+  removeEventListener(type: string, listener: Listener) {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  close() {
+    this.readyState = StubEventSource.CLOSED
+  }
+
+  // Test controls
+  open() {
+    this.readyState = StubEventSource.OPEN
+    this.onopen?.(new Event('open'))
+  }
+
+  emit(type: string, data: unknown) {
+    if (this.readyState === StubEventSource.CLOSED) return
+    const event = new MessageEvent(type, { data: typeof data === 'string' ? data : JSON.stringify(data) })
+    if (type === 'message') this.onmessage?.(event)
+    this.listeners.get(type)?.forEach(listener => listener(event))
+  }
+
+  fail() {
+    this.readyState = StubEventSource.CONNECTING
+    this.onerror?.(new Event('error'))
+  }
+}
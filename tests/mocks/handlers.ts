@@ -1,10 +1,20 @@
 import { http, HttpResponse } from 'msw'
-import type { OcrResult, ocrOdoResult } from '../../src/lib/api'
-import { mockVinDatabase, mockOdometerDatabase } from './test-data'
+import type { EngineNumberOcrResult, OcrResult, PlateOcrResult, ocrOdoResult } from '../../src/lib/api'
+import { mockVinDatabase, mockOdometerDatabase, mockEngineNumberDatabase, mockPlateReads } from './test-data'
 
 // Get base URL from environment or use default for testing
 const BASE_URL = process.env.VITE_API_BASE_URL || 'http://localhost:3000'
 
+// One line box per candidate, stacked down the photo, as fractions of the image like Textract reports them
+function mockRegions(texts: string[]) {
+  return texts.map((text, i) => ({
+    text,
+    box: { left: 0.1, top: 0.2 + i * 0.15, width: 0.8, height: 0.1 },
+    confidence: 90 - i * 10,
+    level: 'line' as const
+  }))
+}
+
 function buildPassportResponse(vin: string) {
   return {
     vin,
@@ -26,7 +36,94 @@ function buildPassportResponse(vin: string) {
   }
 }
 
+// Responses already produced per Idempotency-Key, so a retried write is answered without being applied again
+export const idempotentWrites = new Map<string, { body: unknown; status: number }>()
+
+export async function idempotent(request: Request, apply: () => unknown | Promise<unknown>, status = 200) {
+  const key = request.headers.get('Idempotency-Key')
+  const previous = key ? idempotentWrites.get(key) : undefined
+  if (previous) {
+    return HttpResponse.json(previous.body, {
+      status: previous.status,
+      headers: { 'Idempotent-Replayed': 'true' }
+    })
+  }
+
+  const body = await apply()
+  if (key) idempotentWrites.set(key, { body, status })
+  return HttpResponse.json(body, { status })
+}
+
+// Stand-in auth service: a single inspector, 15 minute access tokens, revocable refresh tokens
+export const mockInspector = { id: 'insp-001', name: 'Test Inspector', email: 'inspector@example.test' }
+export const MOCK_CREDENTIALS = { username: 'inspector', password: 'correct-horse' }
+
+let issuedTokens = 0
+const revokedRefreshTokens = new Set<string>()
+let issuedTickets = 0
+
+function issueTokens() {
+  issuedTokens++
+  return {
+    access_token: `access-${issuedTokens}`,
+    refresh_token: `refresh-${issuedTokens}`,
+    expires_in: 900,
+    inspector: mockInspector
+  }
+}
+
+function buildChecklistResponse(vin: string, overrides: { hasDekra?: boolean; hasOdo?: boolean } = {}) {
+  return {
+    vin,
+    lot_id: 'TEST-LOT-001',
+    checklist: {
+      presentCount: 8,
+      requiredCount: 12,
+      missing: ['exterior_front_34', 'dash_odo', 'engine_bay', 'tyre_fl'],
+      photosOk: false,
+      hasDekra: true,
+      hasOdo: false,
+      ...overrides
+    },
+    ready: false
+  }
+}
+
 export const handlers = [
+  http.post(`${BASE_URL}/auth/login`, async ({ request }) => {
+    const { username, password } = await request.json() as { username?: string; password?: string }
+    if (username !== MOCK_CREDENTIALS.username || password !== MOCK_CREDENTIALS.password) {
+      return HttpResponse.json(
+        { error: 'invalid_credentials', message: 'Unknown username or password' },
+        { status: 401 }
+      )
+    }
+    return HttpResponse.json(issueTokens())
+  }),
+
+  http.post(`${BASE_URL}/auth/refresh`, async ({ request }) => {
+    const { refresh_token: refreshToken } = await request.json() as { refresh_token?: string }
+    if (!refreshToken?.startsWith('refresh-') || revokedRefreshTokens.has(refreshToken)) {
+      return HttpResponse.json({ error: 'invalid_refresh_token' }, { status: 401 })
+    }
+    revokedRefreshTokens.add(refreshToken)
+    return HttpResponse.json(issueTokens())
+  }),
+
+  http.post(`${BASE_URL}/auth/logout`, async ({ request }) => {
+    const { refresh_token: refreshToken } = await request.json() as { refresh_token?: string }
+    if (refreshToken) revokedRefreshTokens.add(refreshToken)
+    return HttpResponse.json({ ok: true })
+  }),
+
+  http.post(`${BASE_URL}/passports/:vin/events/ticket`, ({ request }) => {
+    if (!request.headers.get('Authorization')?.startsWith('Bearer access-')) {
+      return HttpResponse.json({ error: 'unauthorized' }, { status: 401 })
+    }
+    issuedTickets++
+    return HttpResponse.json({ ticket: `ticket-${issuedTickets}`, expires_in: 30 })
+  }),
+
   // VIN OCR endpoint - handle both with and without base URL
   http.post(`${BASE_URL}/ocr/vin`, async ({ request }) => {
     // Simulate processing delay
@@ -53,7 +150,7 @@ export const handlers = [
     // Look up mock response based on filename
     const mockData = mockVinDatabase[file.name] || mockVinDatabase['default']
 
-    const response: OcrResult = {
+    const response: Omit<OcrResult, 'source'> = {
       ok: true,
       vin: mockData.vin,
       vinValid: mockData.vinValid,
@@ -63,7 +160,8 @@ export const handlers = [
       textExtracted: true,
       totalBlocks: Math.floor(Math.random() * 50) + 10,
       lineCount: Math.floor(Math.random() * 20) + 5,
-      fromCache: false
+      fromCache: false,
+      regions: mockRegions(mockData.candidates)
     }
 
     return HttpResponse.json(response)
@@ -88,7 +186,7 @@ export const handlers = [
     const mockData = mockVinDatabase[file.name]
     if (!mockData) {
       // Default negative case
-      const response: OcrResult = {
+      const response: Omit<OcrResult, 'source'> = {
         ok: false,
         vin: null,
         vinValid: false,
@@ -98,13 +196,14 @@ export const handlers = [
         textExtracted: true,
         totalBlocks: 0,
         lineCount: 0,
-        fromCache: false
+        fromCache: false,
+        regions: []
       }
       return HttpResponse.json(response)
     }
 
     // Return successful mock result
-    const response: OcrResult = {
+    const response: Omit<OcrResult, 'source'> = {
       ok: true,
       vin: mockData.vin,
       vinValid: mockData.vinValid,
@@ -114,7 +213,8 @@ export const handlers = [
       textExtracted: true,
       totalBlocks: 5,
       lineCount: 12,
-      fromCache: false
+      fromCache: false,
+      regions: mockRegions(mockData.candidates)
     }
 
     return HttpResponse.json(response)
@@ -146,7 +246,8 @@ export const handlers = [
       textExtracted: true,
       totalBlocks: Math.floor(Math.random() * 40) + 8,
       lineCount: Math.floor(Math.random() * 15) + 3,
-      fromCache: false
+      fromCache: false,
+      regions: mockRegions(mockData.candidates.map(candidate => String(candidate.value)))
     }
 
     return HttpResponse.json(response)
@@ -178,6 +279,57 @@ export const handlers = [
       textExtracted: true,
       totalBlocks: Math.floor(Math.random() * 40) + 8,
       lineCount: Math.floor(Math.random() * 15) + 3,
+      fromCache: false,
+      regions: mockRegions(mockData.candidates.map(candidate => String(candidate.value)))
+    }
+
+    return HttpResponse.json(response)
+  }),
+
+  // Engine number OCR endpoint
+  http.post(`${BASE_URL}/ocr/engine-number`, async ({ request }) => {
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+
+    if (!file) {
+      return HttpResponse.json(
+        { error: 'no_file', message: 'No image file provided' },
+        { status: 400 }
+      )
+    }
+
+    const mockData = mockEngineNumberDatabase[file.name] || mockEngineNumberDatabase['default']
+
+    const response: EngineNumberOcrResult = {
+      ok: mockData.engineNumber !== null,
+      engineNumber: mockData.engineNumber,
+      rawText: mockData.rawText,
+      candidates: mockData.candidates,
+      confidence: mockData.confidence,
+      processingTime: 420,
+      textExtracted: mockData.rawText.length > 0,
+      totalBlocks: 6,
+      lineCount: 2,
+      fromCache: false
+    }
+
+    return HttpResponse.json(response)
+  }),
+
+  // Plate OCR endpoint; runs in the background of exterior photo uploads, so it answers without
+  // reading the multipart body (which jsdom cannot parse) to keep those uploads from stalling
+  http.post(`${BASE_URL}/ocr/plate`, () => {
+    const mockData = mockPlateReads['default']
+
+    const response: PlateOcrResult = {
+      ok: mockData.plate !== null,
+      plate: mockData.plate,
+      candidates: mockData.candidates,
+      confidence: mockData.confidence,
+      processingTime: 380,
+      textExtracted: mockData.candidates.length > 0,
+      totalBlocks: 4,
+      lineCount: 1,
       fromCache: false
     }
 
@@ -208,7 +360,7 @@ export const handlers = [
       }
     }
 
-    return HttpResponse.json({
+    return idempotent(request, () => ({
       ok: true,
       record: {
         vin,
@@ -217,43 +369,92 @@ export const handlers = [
         url: `/uploads/test-${Date.now()}.jpg`,
         context
       }
-    })
+    }))
+  }),
+
+  // Draft init and field updates (DEKRA link, odometer)
+  http.post(`${BASE_URL}/intake/init`, async ({ request }) => {
+    const payload = await request.json()
+    return idempotent(request, () => ({
+      ok: true,
+      vin: payload?.vin
+    }))
+  }),
+
+  // Strict seal
+  http.post(`${BASE_URL}/passports/seal/strict`, async ({ request }) => {
+    const payload = await request.json()
+    const vin = payload?.vin as string
+    return idempotent(request, () => ({
+      ok: true,
+      sealed: {
+        ...buildPassportResponse(vin).draft,
+        vin,
+        seal: { sealed_ts: new Date().toISOString() }
+      }
+    }))
   }),
 
   // Tyre measurements endpoint
   http.post(`${BASE_URL}/intake/tyres`, async ({ request }) => {
     await new Promise(resolve => setTimeout(resolve, 120))
     const payload = await request.json()
-    return HttpResponse.json({
+    return idempotent(request, () => ({
       ok: true,
       tyres_mm: payload?.tyres_mm ?? null
-    })
+    }))
   }),
 
   http.post('/intake/tyres', async ({ request }) => {
     await new Promise(resolve => setTimeout(resolve, 120))
     const payload = await request.json()
-    return HttpResponse.json({
+    return idempotent(request, () => ({
       ok: true,
       tyres_mm: payload?.tyres_mm ?? null
-    })
+    }))
   }),
 
   // Checklist endpoint
   http.get(`${BASE_URL}/intake/checklist/:vin`, ({ params }) => {
-    return HttpResponse.json({
-      vin: params.vin,
-      lot_id: 'TEST-LOT-001',
-      checklist: {
-        presentCount: 8,
-        requiredCount: 12,
-        missing: ['exterior_front_34', 'dash_odo', 'engine_bay', 'tyre_fl'],
-        photosOk: false,
-        hasDekra: true,
-        hasOdo: false
-      },
-      ready: false
-    })
+    return HttpResponse.json(buildChecklistResponse(params.vin as string))
+  }),
+
+  // Batched draft patch: validated as a whole, applied all-or-nothing
+  http.patch(`${BASE_URL}/intake/draft/:vin`, async ({ request, params }) => {
+    const patch = await request.json() as {
+      dekra?: { url?: string }
+      odometer?: { km?: number; source?: string }
+      tyres_mm?: Record<string, number | null>
+      notes?: string
+      vehicle?: { engine_number?: string; registration?: string }
+    }
+
+    const reasons: string[] = []
+    if (patch.dekra && !patch.dekra.url?.startsWith('https://')) reasons.push('invalid_dekra_url')
+    if (patch.odometer && !(typeof patch.odometer.km === 'number' && patch.odometer.km >= 0)) reasons.push('invalid_odometer')
+    if (patch.tyres_mm && Object.values(patch.tyres_mm).some(v => v !== null && (v < 0 || v > 12))) reasons.push('invalid_tyres')
+    if (patch.vehicle && patch.vehicle.engine_number === '') reasons.push('invalid_engine_number')
+    if (patch.vehicle && patch.vehicle.registration === '') reasons.push('invalid_registration')
+    if (reasons.length) {
+      return HttpResponse.json({ error: 'invalid_patch', reasons }, { status: 422 })
+    }
+
+    const vin = params.vin as string
+    return idempotent(request, () => ({
+      ok: true,
+      checklist: buildChecklistResponse(vin, {
+        hasOdo: Boolean(patch.odometer),
+        ...(patch.dekra ? { hasDekra: true } : {})
+      }),
+      draft: {
+        ...buildPassportResponse(vin).draft,
+        ...(patch.tyres_mm ? { tyres_mm: patch.tyres_mm } : {}),
+        ...(patch.dekra ? { dekra: { url: patch.dekra.url, inspection_ts: null, site: null } } : {}),
+        ...(patch.odometer ? { odometer: { km: patch.odometer.km, source: patch.odometer.source } } : {}),
+        ...(patch.notes !== undefined ? { notes: patch.notes } : {}),
+        ...(patch.vehicle ? { vehicle: patch.vehicle } : {})
+      }
+    }))
   }),
 
   // Passport endpoint
@@ -275,9 +476,9 @@ export const handlers = [
       hasPrivateKey: true,
       hasPublicKey: true,
       aws: {
-        configured: false,
+        configured: true,
         region: 'eu-west-1',
-        textractAvailable: false
+        textractAvailable: true
       },
       cache: {
         keys: 0,
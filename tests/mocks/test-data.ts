@@ -319,6 +319,55 @@ export const mockOdometerDatabase: Record<string, {
   }
 }
 
+export const mockEngineNumberDatabase: Record<string, {
+  engineNumber: string | null
+  rawText: string
+  candidates: string[]
+  confidence: number
+}> = {
+  'engine_bay_clean_001.jpg': {
+    engineNumber: 'CBZ 123456',
+    rawText: 'ENGINE NO: CBZ 123456',
+    candidates: ['CBZ 123456', 'C8Z 123456'],
+    confidence: 0.93
+  },
+  'engine_bay_dirty_001.jpg': {
+    engineNumber: 'CBZ12345G',
+    rawText: 'CBZ12345G',
+    candidates: ['CBZ12345G'],
+    confidence: 0.61
+  },
+  'default': {
+    engineNumber: null,
+    rawText: '',
+    candidates: [],
+    confidence: 0.05
+  }
+}
+
+// Raw plate reads as the server returns them, before the client ranks them by SA format
+export const mockPlateReads: Record<string, {
+  plate: string | null
+  candidates: string[]
+  confidence: number
+}> = {
+  'exterior_front_34_clear.jpg': {
+    plate: 'CA 123-456',
+    candidates: ['CA 123-456', 'CA 123-45B', 'GA 123-456'],
+    confidence: 0.91
+  },
+  'exterior_rear_34_angled.jpg': {
+    plate: 'HC 12 BX GF',
+    candidates: ['HC 12 BX GF', 'HC 12 BX GP', 'HC12BXGP'],
+    confidence: 0.58
+  },
+  'default': {
+    plate: null,
+    candidates: [],
+    confidence: 0.04
+  }
+}
+
 // Helper function to create test files with specific names
 export function createTestFile(filename: string, content?: string): File {
   // Create realistic file content (minimum 2KB for JPEG validation)
@@ -2,6 +2,9 @@ import { expect, afterEach, beforeAll, afterAll, vi } from 'vitest'
 import { cleanup } from '@testing-library/react'
 import * as matchers from '@testing-library/jest-dom/matchers'
 import { server } from './mocks/server'
+import { idempotentWrites } from './mocks/handlers'
+import { StubEventSource } from './mocks/event-source'
+import { clearQueryCache } from '../src/lib/query-cache'
 
 // Extend Vitest's expect with Testing Library matchers
 expect.extend(matchers)
@@ -28,6 +31,9 @@ global.URL.revokeObjectURL = vi.fn()
 global.alert = vi.fn()
 global.confirm = vi.fn().mockReturnValue(true)
 
+// Mock EventSource for live passport updates
+global.EventSource = StubEventSource as unknown as typeof EventSource
+
 // Mock File API
 class MockFile extends Blob implements File {
   readonly name: string
@@ -112,4 +118,9 @@ beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
 afterAll(() => server.close())
 
 // Reset handlers after each test `important for test isolation`
-afterEach(() => server.resetHandlers())
+afterEach(() => {
+  server.resetHandlers()
+  idempotentWrites.clear()
+  clearQueryCache()
+  StubEventSource.reset()
+})
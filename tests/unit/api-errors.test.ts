@@ -0,0 +1,135 @@
+import { describe, test, expect, vi } from 'vitest'
+import { http, HttpResponse, delay } from 'msw'
+import { server } from '../mocks/server'
+import {
+  ApiAbortError,
+  ApiError,
+  ApiHttpError,
+  ApiNetworkError,
+  ApiTimeoutError,
+  ApiValidationError,
+  getChecklist,
+  ocrVinFromImage,
+  sealStrict,
+  setOdometer,
+  uploadPhotoDev,
+} from '../../src/lib/api'
+import { TestImages } from '../mocks/test-data'
+
+describe('ApiError model', () => {
+  test('maps backend error codes to a friendly, typed error', async () => {
+    server.use(
+      http.post('*/ocr/vin', () => HttpResponse.json(
+        { error: 'rate_limit_exceeded', message: 'slow down' },
+        { status: 429 }
+      ))
+    )
+
+    const error = await ocrVinFromImage(TestImages.vinClear(), { compress: false }).catch(e => e)
+
+    expect(error).toBeInstanceOf(ApiHttpError)
+    expect(error.kind).toBe('rate_limited')
+    expect(error.status).toBe(429)
+    expect(error.code).toBe('rate_limit_exceeded')
+    expect(error.retryable).toBe(true)
+    expect(error.userMessage).toBe('Too many requests. Please wait a moment and try again.')
+  })
+
+  test('keeps reasons[] from the response body', async () => {
+    server.use(
+      http.post('*/passports/seal/strict', () => HttpResponse.json(
+        { error: 'not_ready', reasons: ['missing_photos', 'missing_odometer'] },
+        { status: 422 }
+      ))
+    )
+
+    const error = await sealStrict('AABCX12345K123456').catch(e => e)
+
+    expect(error).toBeInstanceOf(ApiHttpError)
+    expect(error.kind).toBe('validation')
+    expect(error.reasons).toEqual(['missing_photos', 'missing_odometer'])
+    expect(error.message).toBe('422 not_ready: missing_photos,missing_odometer')
+    expect(error.retryable).toBe(false)
+  })
+
+  test('treats 5xx as retryable server errors', async () => {
+    server.use(
+      http.get('*/intake/checklist/:vin', () => new HttpResponse('upstream exploded', { status: 502 }))
+    )
+
+    const error = await getChecklist('AABCX12345K123456').catch(e => e)
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error.kind).toBe('server')
+    expect(error.retryable).toBe(true)
+    expect(error.userMessage).toBe('Server error. Please try again in a moment.')
+  })
+
+  test('wraps fetch failures as network errors', async () => {
+    server.use(
+      http.get('*/intake/checklist/:vin', () => HttpResponse.error())
+    )
+
+    const error = await getChecklist('AABCX12345K123456').catch(e => e)
+
+    expect(error).toBeInstanceOf(ApiNetworkError)
+    expect(error.kind).toBe('network')
+    expect(error.retryable).toBe(true)
+  })
+
+  test('rejects invalid input before any request is made', async () => {
+    await expect(setOdometer('AABCX12345K123456', -5)).rejects.toBeInstanceOf(ApiValidationError)
+
+    const empty = new File([], 'empty.jpg', { type: 'image/jpeg' })
+    const error = await uploadPhotoDev('AABCX12345K123456', 'dash_odo', empty).catch(e => e)
+    expect(error).toBeInstanceOf(ApiValidationError)
+    expect(error.kind).toBe('validation')
+    expect(error.status).toBeNull()
+  })
+
+  test('reports caller cancellation as an aborted, non-retryable error', async () => {
+    server.use(
+      http.post('*/ocr/vin', async () => {
+        await delay('infinite')
+        return HttpResponse.json({})
+      })
+    )
+
+    const controller = new AbortController()
+    const pending = ocrVinFromImage(TestImages.vinClear(), { compress: false, signal: controller.signal }).catch(e => e)
+    setTimeout(() => controller.abort(), 10)
+    const error = await pending
+
+    expect(error).toBeInstanceOf(ApiAbortError)
+    expect(error.kind).toBe('aborted')
+    expect(error.retryable).toBe(false)
+
+    const cancelled = new AbortController()
+    cancelled.abort()
+    await expect(
+      uploadPhotoDev('AABCX12345K123456', 'dash_odo', TestImages.vinClear(), { signal: cancelled.signal })
+    ).rejects.toBeInstanceOf(ApiAbortError)
+  })
+
+  test('times out uploads that stall without a progress callback', async () => {
+    vi.useFakeTimers()
+    try {
+      server.use(
+        http.post('*/intake/photos/upload', async () => {
+          await delay('infinite')
+          return HttpResponse.json({ ok: true })
+        })
+      )
+
+      const pending = uploadPhotoDev('AABCX12345K123456', 'dash_odo', TestImages.vinClear()).catch(e => e)
+      // Long enough for every attempt to stall out
+      await vi.advanceTimersByTimeAsync(3 * 30000 + 10000)
+      const error = await pending
+
+      expect(error).toBeInstanceOf(ApiTimeoutError)
+      expect(error.timeoutMs).toBe(30000)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
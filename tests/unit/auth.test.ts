@@ -0,0 +1,112 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../mocks/server'
+import { MOCK_CREDENTIALS, mockInspector } from '../mocks/handlers'
+import { ApiHttpError, getChecklist, login, logout, sealStrict } from '../../src/lib/api'
+import { clearSession, getSession, setSession, subscribeToAuth, type AuthEvent } from '../../src/lib/auth'
+
+const VIN = 'AABCX12345K123456'
+
+function recordAuthorization(path: string) {
+  const seen: Array<string | null> = []
+  server.events.on('request:start', ({ request }) => {
+    if (new URL(request.url).pathname.startsWith(path)) seen.push(request.headers.get('Authorization'))
+  })
+  return seen
+}
+
+describe('Inspector authentication', () => {
+  afterEach(() => {
+    server.events.removeAllListeners()
+    clearSession()
+  })
+
+  test('signs in and sends the bearer token on API calls', async () => {
+    const session = await login(MOCK_CREDENTIALS.username, MOCK_CREDENTIALS.password)
+    expect(session.inspector).toEqual(mockInspector)
+    expect(getSession()?.accessToken).toBe(session.accessToken)
+
+    const seen = recordAuthorization('/intake/checklist')
+    await getChecklist(VIN)
+
+    expect(seen).toEqual([`Bearer ${session.accessToken}`])
+  })
+
+  test('rejects wrong credentials with a friendly message', async () => {
+    const error = await login(MOCK_CREDENTIALS.username, 'wrong').catch(e => e)
+
+    expect(error).toBeInstanceOf(ApiHttpError)
+    expect(error.kind).toBe('unauthorized')
+    expect(error.userMessage).toBe('Incorrect username or password.')
+    expect(getSession()).toBeNull()
+  })
+
+  test('refreshes the token once on 401 and replays the request', async () => {
+    const first = await login(MOCK_CREDENTIALS.username, MOCK_CREDENTIALS.password)
+    const seen: Array<string | null> = []
+    server.use(
+      http.get('*/intake/checklist/:vin', ({ request }) => {
+        const header = request.headers.get('Authorization')
+        seen.push(header)
+        return header === `Bearer ${first.accessToken}`
+          ? HttpResponse.json({ error: 'token_expired' }, { status: 401 })
+          : HttpResponse.json({
+              vin: VIN,
+              checklist: { presentCount: 0, requiredCount: 12, missing: [], photosOk: false, hasDekra: false, hasOdo: false },
+              ready: false
+            })
+      })
+    )
+
+    await getChecklist(VIN)
+
+    const refreshed = getSession()
+    expect(refreshed?.accessToken).not.toBe(first.accessToken)
+    expect(seen).toEqual([`Bearer ${first.accessToken}`, `Bearer ${refreshed?.accessToken}`])
+  })
+
+  test('refreshes proactively when the access token is about to expire', async () => {
+    const session = await login(MOCK_CREDENTIALS.username, MOCK_CREDENTIALS.password)
+    setSession({ ...session, expiresAt: Date.now() + 1000 }, 'refreshed')
+
+    const seen = recordAuthorization('/intake/checklist')
+    await getChecklist(VIN)
+
+    expect(getSession()?.accessToken).not.toBe(session.accessToken)
+    expect(seen).toEqual([`Bearer ${getSession()?.accessToken}`])
+  })
+
+  test('ends the session when the refresh token is rejected', async () => {
+    const session = await login(MOCK_CREDENTIALS.username, MOCK_CREDENTIALS.password)
+    setSession({ ...session, refreshToken: 'revoked' }, 'refreshed')
+    const events: AuthEvent[] = []
+    const unsubscribe = subscribeToAuth(event => events.push(event))
+    server.use(
+      http.get('*/intake/checklist/:vin', () => HttpResponse.json({ error: 'token_expired' }, { status: 401 }))
+    )
+
+    const error = await getChecklist(VIN).catch(e => e)
+
+    expect(error.kind).toBe('unauthorized')
+    expect(getSession()).toBeNull()
+    expect(events).toContainEqual({ type: 'signed_out', reason: 'expired' })
+    unsubscribe()
+  })
+
+  test('attaches the inspector to seals and signs out cleanly', async () => {
+    await login(MOCK_CREDENTIALS.username, MOCK_CREDENTIALS.password)
+    let body: Record<string, unknown> | undefined
+    server.use(
+      http.post('*/passports/seal/strict', async ({ request }) => {
+        body = await request.json() as Record<string, unknown>
+        return HttpResponse.json({ ok: true })
+      })
+    )
+
+    await sealStrict(VIN)
+    expect(body?.inspector).toEqual({ id: mockInspector.id, name: mockInspector.name })
+
+    await logout()
+    expect(getSession()).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { server } from '../mocks/server'
+import { ApiValidationError, initDraft } from '../../src/lib/api'
+import { decodePassport } from '../../src/lib/decoders'
+
+const CHASSIS = '1J1234OQ56'
+
+describe('Non-standard chassis identification', () => {
+  afterEach(() => server.events.removeAllListeners())
+
+  test('marks the draft and requires a chassis plate photo', async () => {
+    let body: Record<string, unknown> | undefined
+    server.events.on('request:start', async ({ request }) => {
+      if (request.url.includes('/intake/init')) body = await request.clone().json()
+    })
+
+    await initDraft(CHASSIS, 'LOT-1', ['engine_bay'], { nonStandardChassis: { justification: ' 1978 trailer ' } })
+
+    expect(body).toEqual({
+      vin: CHASSIS,
+      lot_id: 'LOT-1',
+      required_photos: ['engine_bay', 'chassis_plate'],
+      identification: {
+        type: 'non_standard_chassis',
+        raw_chassis: CHASSIS,
+        justification: '1978 trailer',
+        checksum_enforced: false,
+      },
+    })
+  })
+
+  test('requires the chassis plate photo even without a role list', async () => {
+    let body: Record<string, unknown> | undefined
+    server.events.on('request:start', async ({ request }) => {
+      if (request.url.includes('/intake/init')) body = await request.clone().json()
+    })
+
+    await initDraft(CHASSIS, 'LOT-1', undefined, { nonStandardChassis: { justification: 'Trailer' } })
+
+    expect(body?.required_photos).toEqual(['chassis_plate'])
+  })
+
+  test('leaves standard VIN drafts unmarked', async () => {
+    let body: Record<string, unknown> | undefined
+    server.events.on('request:start', async ({ request }) => {
+      if (request.url.includes('/intake/init')) body = await request.clone().json()
+    })
+
+    await initDraft('1HGCM82633A004352', 'LOT-1', ['engine_bay'])
+
+    expect(body).not.toHaveProperty('identification')
+    expect(body?.required_photos).toEqual(['engine_bay'])
+  })
+
+  test('requires a justification', async () => {
+    await expect(initDraft(CHASSIS, 'LOT-1', [], { nonStandardChassis: { justification: '  ' } }))
+      .rejects.toBeInstanceOf(ApiValidationError)
+  })
+
+  test('decodes the identification stored on a draft', () => {
+    const passport = decodePassport({
+      vin: CHASSIS,
+      draft: {
+        images: { items: [] },
+        tyres_mm: null,
+        dekra: null,
+        odometer: null,
+        identification: { type: 'non_standard_chassis', raw_chassis: CHASSIS, justification: 'Trailer', checksum_enforced: false },
+      },
+      sealed: null,
+    }, 'passport')
+
+    expect(passport.draft?.identification).toEqual({
+      type: 'non_standard_chassis',
+      raw_chassis: CHASSIS,
+      justification: 'Trailer',
+      checksum_enforced: false,
+    })
+  })
+})
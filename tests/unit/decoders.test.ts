@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../mocks/server'
+import { ApiResponseError, getChecklist, getPassport, initDraft, sealStrict } from '../../src/lib/api'
+import { DecodeError, decodePassport } from '../../src/lib/decoders'
+
+const VIN = 'AABCX12345K123456'
+
+describe('Passport decoders', () => {
+  test('decodes a full passport and fills absent sections with null', async () => {
+    server.use(
+      http.get('*/passports/:vin', () => HttpResponse.json({
+        vin: VIN,
+        draft: {
+          images: { items: [{ role: 'dash_odo', url: '/uploads/a.jpg' }] },
+          tyres_mm: { fl: 6.5, fr: 6, rl: null, rr: 5 },
+          odometer: { km: 123456, source: 'manual' },
+        },
+        sealed: null,
+      }))
+    )
+
+    const passport = await getPassport(VIN)
+
+    expect(passport.draft?.images.items).toEqual([{ role: 'dash_odo', url: '/uploads/a.jpg' }])
+    expect(passport.draft?.tyres_mm).toEqual({ fl: 6.5, fr: 6, rl: null, rr: 5 })
+    expect(passport.draft?.odometer).toEqual({ km: 123456, source: 'manual' })
+    expect(passport.draft?.dekra).toBeNull()
+    expect(passport.sealed).toBeNull()
+  })
+
+  test('reports the path of a malformed field', () => {
+    const decode = () => decodePassport({
+      vin: VIN,
+      draft: { images: { items: [{ role: 'roof' }] } },
+    }, 'passport')
+
+    expect(decode).toThrow(DecodeError)
+    expect(decode).toThrow("passport.draft.images.items[0].role: expected 'exterior_front_34'")
+  })
+
+  test('surfaces malformed payloads as ApiResponseError', async () => {
+    server.use(
+      http.get('*/passports/:vin', () => HttpResponse.json({
+        vin: VIN,
+        draft: { tyres_mm: { fl: '6mm' } },
+        sealed: null,
+      }))
+    )
+
+    const error = await getPassport(VIN).catch(e => e)
+
+    expect(error).toBeInstanceOf(ApiResponseError)
+    expect(error.kind).toBe('invalid_response')
+    expect(error.retryable).toBe(false)
+    expect(error.message).toContain('passport.draft.tyres_mm.fl: expected number, got string')
+  })
+
+  test('validates checklist, init and seal responses', async () => {
+    const checklist = await getChecklist(VIN)
+    expect(checklist.checklist.dtcStatus).toBe('n/a')
+    expect(checklist.checklist.missing).toContain('dash_odo')
+
+    await expect(initDraft(VIN, 'LOT-1')).resolves.toMatchObject({ ok: true, vin: VIN })
+
+    const sealed = await sealStrict(VIN)
+    expect(sealed.sealed?.seal?.sealed_ts).toEqual(expect.any(String))
+
+    server.use(
+      http.get('*/intake/checklist/:vin', () => HttpResponse.json({ vin: VIN, checklist: null, ready: false }))
+    )
+    await expect(getChecklist(VIN)).rejects.toBeInstanceOf(ApiResponseError)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../mocks/server'
+import { createTestFile, mockEngineNumberDatabase } from '../mocks/test-data'
+import { ApiValidationError, ocrEngineNumberFromImage, patchDraft } from '../../src/lib/api'
+import {
+  crossCheckEngineNumber,
+  engineNumberReferences,
+  engineNumbersMatch,
+  normalizeEngineNumber
+} from '../../src/lib/engine-number'
+import type { PassportDraft } from '../../src/types'
+
+const VIN = 'AAVZZZ6RZBU012345'
+
+const draftWithDisc = {
+  images: { items: [] },
+  tyres_mm: null,
+  dekra: null,
+  odometer: null,
+  licence_disc: {
+    disc_number: '40240281B0ZZ',
+    registration: 'KYK567EC',
+    vehicle_register_number: 'CN82MLGP',
+    description: 'Hatch back',
+    make: 'VOLKSWAGEN',
+    model: 'POLO',
+    colour: 'White',
+    vin: VIN,
+    engine_number: 'CBZ123456',
+    expiry: '2027-06-30'
+  }
+} satisfies PassportDraft
+
+describe('normalizeEngineNumber', () => {
+  test('strips labels, separators and case', () => {
+    expect(normalizeEngineNumber('Engine No: cbz 123-456')).toBe('CBZ123456')
+    expect(normalizeEngineNumber('ENG. NR 2GD1234567\nMADE IN SA')).toBe('2GD1234567')
+    expect(normalizeEngineNumber('  k9k.752/c123456  ')).toBe('K9K752C123456')
+  })
+
+  test('keeps characters a VIN would drop', () => {
+    expect(normalizeEngineNumber('QR25O0I')).toBe('QR25O0I')
+    expect(normalizeEngineNumber('ENG1234')).toBe('ENG1234')
+  })
+})
+
+describe('crossCheckEngineNumber', () => {
+  const references = engineNumberReferences(draftWithDisc)
+
+  test('matches the licence disc regardless of formatting and lookalike characters', () => {
+    expect(references).toEqual([{ label: 'licence disc', engineNumber: 'CBZ123456' }])
+    expect(crossCheckEngineNumber('cbz 123 456', references)).toEqual([])
+    expect(engineNumbersMatch('CBZ12345O', 'CBZ123450')).toBe(true)
+  })
+
+  test('flags a different engine number', () => {
+    expect(crossCheckEngineNumber('CBZ654321', references)).toEqual([
+      { label: 'licence disc', expected: 'CBZ123456', actual: 'CBZ654321' }
+    ])
+  })
+
+  test('has nothing to compare without both values', () => {
+    expect(crossCheckEngineNumber('', references)).toEqual([])
+    expect(crossCheckEngineNumber('CBZ654321', engineNumberReferences({ ...draftWithDisc, licence_disc: undefined }))).toEqual([])
+  })
+})
+
+// jsdom cannot parse multipart bodies, so answer with the recorded response instead of reading the upload
+function respondWith(name: string) {
+  const recorded = mockEngineNumberDatabase[name]
+  server.use(
+    http.post('*/ocr/engine-number', () => HttpResponse.json({
+      ok: recorded.engineNumber !== null,
+      ...recorded,
+      processingTime: 420,
+      textExtracted: recorded.rawText.length > 0,
+      totalBlocks: 6,
+      lineCount: 2,
+      fromCache: false
+    }))
+  )
+  return createTestFile(name)
+}
+
+describe('ocrEngineNumberFromImage', () => {
+  test('returns the normalised engine number and candidates', async () => {
+    const result = await ocrEngineNumberFromImage(respondWith('engine_bay_clean_001.jpg'), { compress: false })
+
+    expect(result.engineNumber).toBe('CBZ123456')
+    expect(result.candidates).toEqual(['CBZ123456', 'C8Z123456'])
+    expect(result.rawText).toBe('ENGINE NO: CBZ 123456')
+  })
+
+  test('reports no engine number when none was read', async () => {
+    const result = await ocrEngineNumberFromImage(respondWith('default'), { compress: false })
+
+    expect(result.ok).toBe(false)
+    expect(result.engineNumber).toBeNull()
+  })
+})
+
+describe('patchDraft vehicle details', () => {
+  afterEach(() => server.events.removeAllListeners())
+
+  test('saves a normalised engine number with its source', async () => {
+    let body: Record<string, unknown> | undefined
+    server.events.on('request:start', async ({ request }) => {
+      if (request.url.includes('/intake/draft/')) body = await request.clone().json()
+    })
+
+    const result = await patchDraft(VIN, {
+      vehicle: { registration: 'KYK567EC', engine_number: 'cbz 123-456', engine_number_source: 'manual' }
+    })
+
+    expect(body?.vehicle).toEqual({ registration: 'KYK567EC', engine_number: 'CBZ123456', engine_number_source: 'manual' })
+    expect(result.draft?.vehicle?.engine_number).toBe('CBZ123456')
+  })
+
+  test('rejects an engine number with nothing left after cleanup', async () => {
+    await expect(patchDraft(VIN, { vehicle: { engine_number: ' -/ ' } })).rejects.toBeInstanceOf(ApiValidationError)
+  })
+})
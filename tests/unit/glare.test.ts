@@ -0,0 +1,60 @@
+import { describe, test, expect } from 'vitest'
+import { detectGlare } from '../../src/lib/glare'
+import { createImageData } from '../../src/lib/image-pipeline'
+
+function image(width: number, height: number, value: (x: number, y: number) => [number, number, number]) {
+  const out = createImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      const [r, g, b] = value(x, y)
+      out.data[i] = r
+      out.data[i + 1] = g
+      out.data[i + 2] = b
+      out.data[i + 3] = 255
+    }
+  }
+  return out
+}
+
+const grey = (level: number): [number, number, number] => [level, level, level]
+const TEXT = { x: 100, y: 80, width: 200, height: 60 }
+
+// A disc on a grey windscreen with a hot spot centred on (cx, cy)
+const withSpot = (cx: number, cy: number, radius: number) =>
+  image(400, 300, (x, y) => (Math.hypot(x - cx, y - cy) < radius ? grey(255) : grey(140)))
+
+describe('detectGlare', () => {
+  test('scores a hot spot over the text by how much of it is lost', () => {
+    const report = detectGlare(withSpot(200, 110, 30), TEXT)
+
+    expect(report.blobs).toBe(1)
+    // About a circle of radius 30 inside a 200 x 60 box
+    expect(report.score).toBeGreaterThan(18)
+    expect(report.score).toBeLessThan(30)
+    expect(report.area).toBeGreaterThan(1)
+  })
+
+  test('does not score glare away from the text', () => {
+    const report = detectGlare(withSpot(340, 250, 30), TEXT)
+
+    expect(report.blobs).toBe(1)
+    expect(report.score).toBe(0)
+    expect(report.area).toBeGreaterThan(1)
+  })
+
+  test('ignores specks, coloured lights and overexposure', () => {
+    expect(detectGlare(withSpot(200, 110, 2), TEXT).blobs).toBe(0)
+    expect(detectGlare(image(400, 300, (x, y) => (Math.hypot(x - 200, y - 110) < 30 ? [255, 140, 0] : grey(140))), TEXT).score).toBe(0)
+    expect(detectGlare(image(400, 300, () => grey(255)), TEXT).score).toBe(0)
+  })
+
+  test('scales the text bounds to large photos', () => {
+    const photo = image(1600, 1200, (x, y) => (Math.hypot(x - 800, y - 440) < 120 ? grey(255) : grey(140)))
+
+    const report = detectGlare(photo, { x: 400, y: 320, width: 800, height: 240 })
+
+    expect(report.score).toBeGreaterThan(18)
+    expect(report.score).toBeLessThan(30)
+  })
+})
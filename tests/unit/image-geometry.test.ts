@@ -0,0 +1,179 @@
+import { describe, test, expect } from 'vitest'
+import {
+  affineBetween,
+  correctGeometry,
+  detectQuadrilateral,
+  isKeystoned,
+  measureGeometry,
+  perspectiveMesh,
+  toSourcePoint,
+  warpPerspective,
+  type AffineMatrix,
+  type Point,
+  type Quad
+} from '../../src/lib/image-geometry'
+import { createImageData, rotate } from '../../src/lib/image-pipeline'
+
+function image(width: number, height: number, value: (x: number, y: number) => number) {
+  const out = createImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      out.data[i] = out.data[i + 1] = out.data[i + 2] = value(x, y)
+      out.data[i + 3] = 255
+    }
+  }
+  return out
+}
+
+const levelAt = (img: ImageData, x: number, y: number) => img.data[(y * img.width + x) * 4]
+
+// A plate shot from below: the top edge is shorter than the bottom one
+const KEYSTONE: Quad = [{ x: 50, y: 30 }, { x: 150, y: 30 }, { x: 180, y: 120 }, { x: 20, y: 120 }]
+
+// Light plate on a dark body, its left half brighter than its right
+function angledPlate() {
+  return image(200, 150, (x, y) => {
+    if (y < 30 || y > 120) return 40
+    const left = 50 - (30 * (y - 30)) / 90
+    const right = 150 + (30 * (y - 30)) / 90
+    if (x < left || x > right) return 40
+    return x < (left + right) / 2 ? 255 : 180
+  })
+}
+
+describe('detectQuadrilateral', () => {
+  test('finds the corners of a plate shot at an angle', () => {
+    const quad = detectQuadrilateral(angledPlate())
+
+    expect(quad).not.toBeNull()
+    quad!.forEach((corner, i) => {
+      expect(Math.abs(corner.x - KEYSTONE[i].x)).toBeLessThanOrEqual(2)
+      expect(Math.abs(corner.y - KEYSTONE[i].y)).toBeLessThanOrEqual(2)
+    })
+  })
+
+  test('ignores regions that run off the frame', () => {
+    expect(detectQuadrilateral(image(200, 150, x => (x < 100 ? 40 : 220)))).toBeNull()
+  })
+})
+
+describe('isKeystoned', () => {
+  test('tells an angled shot from a straight or merely rotated one', () => {
+    expect(isKeystoned(KEYSTONE)).toBe(true)
+    expect(isKeystoned([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }])).toBe(false)
+    expect(isKeystoned([{ x: 10, y: 0 }, { x: 110, y: 20 }, { x: 100, y: 70 }, { x: 0, y: 50 }])).toBe(false)
+  })
+})
+
+describe('warpPerspective', () => {
+  test('maps the quad onto an upright rectangle', () => {
+    const flat = warpPerspective(angledPlate(), KEYSTONE)
+
+    expect([flat.width, flat.height]).toEqual([160, 95])
+    expect(levelAt(flat, 20, 47)).toBe(255)
+    expect(levelAt(flat, 140, 47)).toBe(180)
+    expect(levelAt(flat, 3, 3)).toBeGreaterThan(150)
+  })
+})
+
+describe('correctGeometry', () => {
+  test('leaves a straight photo alone', () => {
+    const straight = image(200, 100, (_, y) => (y % 25 < 2 ? 0 : 255))
+
+    const { image: corrected, transform } = correctGeometry(straight)
+
+    expect(corrected).toBe(straight)
+    expect(transform).toEqual({ perspective: null, rotation: 0, applied: false })
+  })
+
+  test('flattens an angled plate and records the corners', () => {
+    const { image: corrected, transform } = correctGeometry(angledPlate())
+
+    expect(transform.applied).toBe(true)
+    expect(transform.perspective).toHaveLength(4)
+    expect(corrected.width).toBeLessThan(200)
+  })
+
+  test('levels tilted text lines', () => {
+    const lines = image(240, 120, (_, y) => (y % 30 < 3 ? 0 : 255))
+
+    const { transform } = correctGeometry(rotate(lines, 6))
+
+    expect(transform.perspective).toBeNull()
+    expect(Math.abs(transform.rotation + 6)).toBeLessThanOrEqual(0.5)
+  })
+})
+
+describe('measureGeometry', () => {
+  test('scales the measured corners to the full-size photo', () => {
+    const transform = measureGeometry(angledPlate(), { width: 800, height: 600 })
+
+    expect(transform.applied).toBe(true)
+    transform.perspective!.forEach((corner, i) => {
+      expect(Math.abs(corner.x - KEYSTONE[i].x * 4)).toBeLessThanOrEqual(8)
+      expect(Math.abs(corner.y - KEYSTONE[i].y * 4)).toBeLessThanOrEqual(8)
+    })
+  })
+
+  test('measures the same tilt as correctGeometry', () => {
+    const tilted = rotate(image(240, 120, (_, y) => (y % 30 < 3 ? 0 : 255)), 6)
+
+    expect(measureGeometry(tilted).rotation).toBe(correctGeometry(tilted).transform.rotation)
+  })
+})
+
+const apply = ([a, b, c, d, e, f]: AffineMatrix, { x, y }: Point) => ({ x: a * x + c * y + e, y: b * x + d * y + f })
+
+describe('perspectiveMesh', () => {
+  test('affineBetween maps each corner onto its partner', () => {
+    const from: [Point, Point, Point] = [{ x: 3, y: 4 }, { x: 40, y: 10 }, { x: 12, y: 50 }]
+    const to: [Point, Point, Point] = [{ x: 0, y: 0 }, { x: 30, y: 2 }, { x: -5, y: 44 }]
+    const matrix = affineBetween(from, to)
+
+    from.forEach((point, i) => {
+      expect(apply(matrix, point).x).toBeCloseTo(to[i].x, 6)
+      expect(apply(matrix, point).y).toBeCloseTo(to[i].y, 6)
+    })
+  })
+
+  test('draws the plate corners onto the corners of the flat rectangle', () => {
+    const { size, triangles } = perspectiveMesh(KEYSTONE, 4)
+    const rectangle = [{ x: 0, y: 0 }, { x: size.width, y: 0 }, { x: size.width, y: size.height }, { x: 0, y: size.height }]
+
+    expect(triangles).toHaveLength(32)
+    const warped = warpPerspective(angledPlate(), KEYSTONE)
+    expect(size).toEqual({ width: warped.width, height: warped.height })
+    KEYSTONE.forEach((corner, i) => {
+      const triangle = triangles.find(({ target }) => target.some(p => p.x === rectangle[i].x && p.y === rectangle[i].y))!
+      const mapped = apply(triangle.matrix, corner)
+      expect(mapped.x).toBeCloseTo(rectangle[i].x, 6)
+      expect(mapped.y).toBeCloseTo(rectangle[i].y, 6)
+    })
+  })
+})
+
+describe('toSourcePoint', () => {
+  test('follows a point back through the warp', () => {
+    const transform = { perspective: KEYSTONE, rotation: 0, applied: true }
+    const photo = { width: 200, height: 150 }
+    const flat = { width: 160, height: 95 }
+
+    const topLeft = toSourcePoint({ x: 0, y: 0 }, transform, photo, flat)
+    const bottomRight = toSourcePoint({ x: 160, y: 95 }, transform, photo, flat)
+
+    expect(topLeft.x).toBeCloseTo(50)
+    expect(topLeft.y).toBeCloseTo(30)
+    expect(bottomRight.x).toBeCloseTo(180)
+    expect(bottomRight.y).toBeCloseTo(120)
+  })
+
+  test('follows a point back through a rotation', () => {
+    const transform = { perspective: null, rotation: 90, applied: true }
+
+    const corner = toSourcePoint({ x: 3, y: 0 }, transform, { width: 2, height: 3 }, { width: 3, height: 2 })
+
+    expect(corner.x).toBeCloseTo(0)
+    expect(corner.y).toBeCloseTo(0)
+  })
+})
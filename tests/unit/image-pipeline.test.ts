@@ -0,0 +1,137 @@
+import { describe, test, expect } from 'vitest'
+import {
+  PREPROCESSING_PRESETS,
+  clahe,
+  createImageData,
+  deskew,
+  estimateSkew,
+  gamma,
+  grayscale,
+  invert,
+  otsuLevel,
+  otsuThreshold,
+  pipeline,
+  preprocess,
+  rotate,
+  sauvolaThreshold,
+  unsharpMask
+} from '../../src/lib/image-pipeline'
+
+// Grey test image: `value` gives each pixel's level
+function image(width: number, height: number, value: (x: number, y: number) => number) {
+  const out = createImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      out.data[i] = out.data[i + 1] = out.data[i + 2] = value(x, y)
+      out.data[i + 3] = 255
+    }
+  }
+  return out
+}
+
+const levelAt = (img: ImageData, x: number, y: number) => img.data[(y * img.width + x) * 4]
+const levels = (img: ImageData) => Array.from({ length: img.width * img.height }, (_, i) => img.data[i * 4])
+
+describe('image pipeline operators', () => {
+  test('work on plain pixel buffers, no canvas needed', () => {
+    const img = createImageData(3, 2)
+    expect(img).toMatchObject({ width: 3, height: 2 })
+    expect(img.data).toHaveLength(24)
+  })
+
+  test('grayscale uses Rec. 709 luma and leaves the input alone', () => {
+    const img = createImageData(1, 1)
+    img.data.set([200, 100, 50, 128])
+
+    const grey = grayscale(img)
+
+    expect(Array.from(grey.data)).toEqual([118, 118, 118, 128])
+    expect(Array.from(img.data)).toEqual([200, 100, 50, 128])
+  })
+
+  test('Otsu splits a two-tone image between its tones', () => {
+    const img = image(20, 10, x => (x < 8 ? 40 : 200))
+
+    expect(otsuLevel(img)).toBeGreaterThanOrEqual(40)
+    expect(otsuLevel(img)).toBeLessThan(200)
+    expect(new Set(levels(otsuThreshold(img)))).toEqual(new Set([0, 255]))
+  })
+
+  test('Sauvola finds dark text on both ends of a lighting gradient', () => {
+    const text = (x: number, y: number) => y >= 8 && y < 12 && x % 10 < 4
+    const img = image(100, 20, (x, y) => 60 + x * 1.8 - (text(x, y) ? 50 : 0))
+
+    const binary = sauvolaThreshold(img, { windowSize: 15 })
+
+    expect(levelAt(binary, 1, 9)).toBe(0)
+    expect(levelAt(binary, 91, 9)).toBe(0)
+    expect(levelAt(binary, 5, 2)).toBe(255)
+    expect(levelAt(binary, 95, 2)).toBe(255)
+    // A single level cannot manage both ends
+    expect(levelAt(otsuThreshold(img), 5, 2)).toBe(0)
+  })
+
+  test('gamma above one lifts the mid-tones; invert undoes itself', () => {
+    const img = image(3, 1, x => [0, 128, 255][x])
+
+    expect(levels(gamma(img, 1))).toEqual([0, 128, 255])
+    expect(levelAt(gamma(img, 1.35), 1, 0)).toBeGreaterThan(128)
+    expect(levels(invert(img))).toEqual([255, 127, 0])
+    expect(levels(pipeline(invert, invert)(img))).toEqual([0, 128, 255])
+  })
+
+  test('CLAHE stretches a low-contrast image', () => {
+    const img = image(32, 32, (x, y) => 100 + ((x + y) % 20))
+
+    const spread = (clipLimit: number) => {
+      const equalised = levels(clahe(img, { tiles: 4, clipLimit }))
+      return Math.max(...equalised) - Math.min(...equalised)
+    }
+
+    expect(spread(2)).toBeGreaterThan(3 * 19)
+    expect(spread(40)).toBeGreaterThan(200)
+  })
+
+  test('unsharp mask steepens edges and leaves flat areas alone', () => {
+    const img = image(10, 3, x => (x < 5 ? 80 : 160))
+
+    const sharpened = unsharpMask(img, { radius: 1, amount: 1 })
+
+    expect(levelAt(sharpened, 4, 1)).toBeLessThan(80)
+    expect(levelAt(sharpened, 5, 1)).toBeGreaterThan(160)
+    expect(levelAt(sharpened, 0, 1)).toBe(80)
+  })
+
+  test('rotates quarter turns exactly', () => {
+    const img = image(2, 3, (x, y) => y * 2 + x)
+
+    const turned = rotate(img, 90)
+
+    expect([turned.width, turned.height]).toEqual([3, 2])
+    expect(levels(turned)).toEqual([4, 2, 0, 5, 3, 1])
+    expect(levels(rotate(img, 0))).toEqual(levels(img))
+  })
+
+  test('measures and removes the tilt of text lines', () => {
+    const tan = Math.tan((5 * Math.PI) / 180)
+    const tilted = image(200, 100, (x, y) => [25, 50, 75].some(row => Math.abs(y - row - x * tan) < 1.5) ? 0 : 255)
+    const level = image(200, 100, (_, y) => (y % 25 < 2 ? 0 : 255))
+
+    expect(Math.abs(estimateSkew(tilted) - 5)).toBeLessThanOrEqual(0.5)
+    expect(Math.abs(estimateSkew(deskew(tilted)))).toBeLessThanOrEqual(0.5)
+    expect(deskew(level)).toBe(level)
+  })
+})
+
+describe('preprocessing presets', () => {
+  test('yield one image per variant at the prepared size', () => {
+    const photo = image(60, 20, (x, y) => (y > 6 && y < 14 && x % 6 < 3 ? 30 : 210))
+
+    for (const target of ['vin_plate', 'licence_disc', 'odometer_lcd'] as const) {
+      const variants = preprocess(photo, target)
+      expect(variants).toHaveLength(PREPROCESSING_PRESETS[target].variants.length)
+      variants.forEach(variant => expect([variant.width, variant.height]).toEqual([60, 20]))
+    }
+  })
+})
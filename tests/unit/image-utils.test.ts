@@ -1,6 +1,7 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest'
-import { analyzeAndCropImage, type AnalyzeOptions } from '../../src/lib/image-utils'
+import { analyzeAndCropImage, transformContext, type AnalyzeOptions } from '../../src/lib/image-utils'
 import { createTestFile } from '../mocks/test-data'
+import { createImageData, rotate } from '../../src/lib/image-pipeline'
 
 // Mock canvas operations for consistent testing
 const createDefaultToBlob = () => vi.fn().mockImplementation((callback, mimeType: string = 'image/jpeg') => {
@@ -22,7 +23,19 @@ const mockCanvas = {
       width: 1920,
       height: 1080
     }),
-    putImageData: vi.fn()
+    putImageData: vi.fn(),
+    // Used to draw geometry corrections onto the full-size photo
+    save: vi.fn(),
+    restore: vi.fn(),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    closePath: vi.fn(),
+    clip: vi.fn(),
+    setTransform: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    fillRect: vi.fn()
   }),
   toBlob: createDefaultToBlob()
 }
@@ -50,6 +63,35 @@ Object.defineProperty(document, 'createElement', {
   configurable: true
 })
 
+// Character strokes along the top right of a 400 x 300 photo
+const inTextLine = (x: number, y: number) => x >= 240 && x < 380 && y >= 40 && y < 70 && (x - 240) % 12 < 6
+
+// Serves a synthetic grey photo from every canvas and returns the getImageData spy
+function mockPhoto(width: number, height: number, level: (x: number, y: number) => number) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4
+      data[idx] = data[idx + 1] = data[idx + 2] = level(x, y)
+      data[idx + 3] = 255
+    }
+  }
+
+  const getImageData = vi.fn().mockReturnValue({ data, width, height })
+  const photoCanvas = {
+    ...mockCanvas,
+    getContext: vi.fn().mockReturnValue({ ...mockCanvas.getContext(), getImageData })
+  }
+  global.createImageBitmap = vi.fn().mockResolvedValue({ width, height, close: vi.fn() })
+  createElementMock.mockImplementation((tagName: string, options?: ElementCreationOptions) => {
+    if (tagName === 'canvas') {
+      return { ...photoCanvas } as unknown as HTMLCanvasElement
+    }
+    return realCreateElement(tagName, options)
+  })
+  return getImageData
+}
+
 describe('Image Analysis & Preprocessing', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -193,6 +235,7 @@ describe('Image Analysis & Preprocessing', () => {
       expect(analysis).toHaveProperty('cropBounds')
       expect(analysis).toHaveProperty('originalDimensions')
       expect(analysis).toHaveProperty('processedDimensions')
+      expect(analysis).toHaveProperty('transform')
       expect(analysis).toHaveProperty('shouldRetake')
       expect(analysis).toHaveProperty('issues')
 
@@ -203,6 +246,78 @@ describe('Image Analysis & Preprocessing', () => {
       expect(typeof analysis.cropApplied).toBe('boolean')
       expect(Array.isArray(analysis.issues)).toBe(true)
     })
+
+    test('crops to the text when it sits off-centre', async () => {
+      // A line of characters in the top-right corner, well outside the old fixed-margin crop's centre
+      const getImageData = mockPhoto(400, 300, (x, y) => (inTextLine(x, y) ? 30 : 210))
+
+      const { analysis } = await analyzeAndCropImage(createTestFile('off-centre.jpg'), { target: 'vin' })
+
+      expect(analysis.cropMethod).toBe('text_region')
+      expect(analysis.cropApplied).toBe(true)
+      expect(analysis.textRegionConfidence).toBeGreaterThan(0.5)
+      expect(analysis.cropBounds.x).toBeGreaterThan(180)
+      expect(analysis.cropBounds.y).toBeLessThanOrEqual(40)
+      expect(analysis.cropBounds.x + analysis.cropBounds.width).toBeGreaterThanOrEqual(374)
+      expect(getImageData).toHaveBeenCalledWith(
+        analysis.cropBounds.x,
+        analysis.cropBounds.y,
+        analysis.cropBounds.width,
+        analysis.cropBounds.height
+      )
+      // The text stands out from the plain surround, so framing is judged good
+      expect(analysis.framingScore).toBeGreaterThan(6)
+      expect(analysis.issues).not.toContain('VIN not centered in framing guide')
+    })
+
+    test('levels a tilted photo on the canvas without reading it at full size', async () => {
+      // Text lines tilted by 6 degrees, served as the small analysis copy of a 12 MP photo
+      const lines = createImageData(240, 120)
+      for (let i = 0; i < lines.data.length; i += 4) {
+        const y = Math.floor(i / 4 / 240)
+        lines.data[i] = lines.data[i + 1] = lines.data[i + 2] = y % 30 < 3 ? 0 : 255
+        lines.data[i + 3] = 255
+      }
+      const tilted = rotate(lines, 6)
+      const getImageData = mockPhoto(tilted.width, tilted.height, (x, y) => tilted.data[(y * tilted.width + x) * 4])
+      global.createImageBitmap = vi.fn().mockResolvedValue({ width: 4000, height: 3000, close: vi.fn() })
+
+      const { analysis } = await analyzeAndCropImage(createTestFile('tilted.jpg'), { target: 'vin' })
+
+      expect(analysis.transform.applied).toBe(true)
+      expect(Math.abs(analysis.transform.rotation + 6)).toBeLessThanOrEqual(0.5)
+      const context = (document.createElement('canvas') as HTMLCanvasElement).getContext('2d')!
+      expect(context.rotate).toHaveBeenCalledWith((analysis.transform.rotation * Math.PI) / 180)
+      // The correction is measured on the scaled copy, never on the full camera frame
+      expect(getImageData).toHaveBeenCalledWith(0, 0, 1200, 900)
+      expect(getImageData).not.toHaveBeenCalledWith(0, 0, 4000, 3000)
+    })
+
+    test('falls back to the margin crop when no text region is found', async () => {
+      const uniformCanvas = {
+        ...mockCanvas,
+        getContext: vi.fn().mockReturnValue({
+          ...mockCanvas.getContext(),
+          getImageData: vi.fn().mockReturnValue({
+            data: new Uint8ClampedArray(1920 * 1080 * 4).fill(120),
+            width: 1920,
+            height: 1080
+          })
+        })
+      }
+      createElementMock.mockImplementation((tagName: string, options?: ElementCreationOptions) => {
+        if (tagName === 'canvas') {
+          return { ...uniformCanvas } as unknown as HTMLCanvasElement
+        }
+        return realCreateElement(tagName, options)
+      })
+
+      const { analysis } = await analyzeAndCropImage(createTestFile('plain.jpg'), { target: 'vin' })
+
+      expect(analysis.cropMethod).toBe('margin')
+      expect(analysis.textRegionConfidence).toBe(0)
+      expect(analysis.cropBounds).toEqual({ x: 230, y: 130, width: 1460, height: 820 })
+    })
   })
 
   describe('Quality Validation', () => {
@@ -388,6 +503,25 @@ describe('Image Analysis & Preprocessing', () => {
       expect(result.analysis.shouldRetake).toBe(false)
       expect(result.analysis.issues).toHaveLength(0)
     })
+
+    test('flags glare over the text', async () => {
+      mockPhoto(400, 300, (x, y) => (Math.hypot(x - 310, y - 55) < 22 ? 255 : inTextLine(x, y) ? 30 : 210))
+
+      const result = await analyzeAndCropImage(createTestFile('glare.jpg'), { target: 'vin' })
+
+      expect(result.analysis.glareScore).toBeGreaterThan(8)
+      expect(result.analysis.shouldRetake).toBe(true)
+      expect(result.analysis.issues).toContain('Glare over text — tilt the phone')
+    })
+
+    test('ignores glare away from the text', async () => {
+      mockPhoto(400, 300, (x, y) => (Math.hypot(x - 80, y - 240) < 22 ? 255 : inTextLine(x, y) ? 30 : 210))
+
+      const result = await analyzeAndCropImage(createTestFile('reflection.jpg'), { target: 'vin' })
+
+      expect(result.analysis.glareScore).toBe(0)
+      expect(result.analysis.issues).not.toContain('Glare over text — tilt the phone')
+    })
   })
 
   describe('Error Handling', () => {
@@ -428,4 +562,18 @@ describe('Image Analysis & Preprocessing', () => {
       ).rejects.toThrow('Invalid image format')
     })
   })
+
+  describe('transformContext', () => {
+    test('is empty when the photo was used as taken', () => {
+      expect(transformContext({ perspective: null, rotation: 0, applied: false })).toEqual({})
+    })
+
+    test('records the rotation and the flattened corners', () => {
+      expect(transformContext({
+        perspective: [{ x: 50.4, y: 30 }, { x: 150, y: 30.6 }, { x: 180, y: 120 }, { x: 20, y: 120 }],
+        rotation: -4.5,
+        applied: true
+      })).toEqual({ rotation: '-4.5', perspective: '50,30 150,31 180,120 20,120' })
+    })
+  })
 })
@@ -0,0 +1,90 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { server } from '../mocks/server'
+import { initDraft } from '../../src/lib/api'
+import {
+  describeLicenceDiscVehicle,
+  isLicenceDiscExpired,
+  looksLikeLicenceDisc,
+  parseLicenceDisc,
+  toLicenceDiscRecord
+} from '../../src/lib/licence-disc'
+
+// Payloads as read off real discs (personal details replaced)
+const POLO_DISC = '%MVL1CC39%0129%4024T0BH%1%40240281B0ZZ%KYK567EC%CN82MLGP%Hatch back / Luikrug%VOLKSWAGEN%POLO%White / Wit%AAVZZZ6RZBU012345%CBZ123456%2019-06-30%'
+const HILUX_DISC = '%MVL1CC41%0156%4025T09G%1%4025036QWMK8%CA123456%PHB401W%LDV / Bakkie%TOYOTA%HILUX%Silver / Silwer%AHTFR22G306012345%2GD1234567%2027-03-31%'
+const LEGACY_DISC = 'MVL1CB12%0102%4021X0AA%1%40210009Z1A2%DLV123GP%TTT310X%Sedan (closed top) / Sedan (toe-kap)%MERCEDES-BENZ%W123%Beige / Beige%12312012045678%11792012045678%2024-02-29'
+
+describe('parseLicenceDisc', () => {
+  test('reads the vehicle fields from a disc payload', () => {
+    expect(parseLicenceDisc(POLO_DISC)).toEqual({
+      discNumber: '40240281B0ZZ',
+      registration: 'KYK567EC',
+      vehicleRegisterNumber: 'CN82MLGP',
+      description: 'Hatch back',
+      make: 'VOLKSWAGEN',
+      model: 'POLO',
+      colour: 'White',
+      vin: 'AAVZZZ6RZBU012345',
+      engineNumber: 'CBZ123456',
+      expiry: '2019-06-30'
+    })
+  })
+
+  test('keeps pre-1981 chassis numbers as printed and tolerates missing delimiters', () => {
+    const disc = parseLicenceDisc(LEGACY_DISC)
+
+    expect(disc?.vin).toBe('12312012045678')
+    expect(disc?.registration).toBe('DLV123GP')
+    expect(disc?.description).toBe('Sedan (closed top)')
+    expect(disc?.expiry).toBe('2024-02-29')
+  })
+
+  test('drops an unreadable expiry date', () => {
+    const disc = parseLicenceDisc(HILUX_DISC.replace('2027-03-31', '2027-02-30'))
+
+    expect(disc?.vin).toBe('AHTFR22G306012345')
+    expect(disc?.expiry).toBeNull()
+  })
+
+  test('rejects payloads that are not plain-text licence discs', () => {
+    expect(parseLicenceDisc('AAVZZZ6RZBU012345')).toBeNull()
+    expect(parseLicenceDisc('%MVL1CC39%0129%4024T0BH%1%40240281B0ZZ%')).toBeNull()
+    expect(parseLicenceDisc('\u0001\u0099âðZx7QeL1k9+/mQ==')).toBeNull()
+    expect(looksLikeLicenceDisc(HILUX_DISC)).toBe(true)
+    expect(looksLikeLicenceDisc('https://dekra.example/report/1')).toBe(false)
+  })
+})
+
+describe('licence disc helpers', () => {
+  afterEach(() => server.events.removeAllListeners())
+
+  test('summarises the vehicle for the description field', () => {
+    expect(describeLicenceDiscVehicle(parseLicenceDisc(HILUX_DISC)!)).toBe('TOYOTA HILUX, Silver (LDV)')
+  })
+
+  test('treats the expiry date as the last valid day', () => {
+    const disc = parseLicenceDisc(HILUX_DISC)!
+
+    expect(isLicenceDiscExpired(disc, new Date('2027-03-31T21:00:00Z'))).toBe(false)
+    expect(isLicenceDiscExpired(disc, new Date('2027-04-01T08:00:00Z'))).toBe(true)
+    expect(isLicenceDiscExpired({ ...disc, expiry: null })).toBe(false)
+  })
+
+  test('stores the disc and vehicle details with the new draft', async () => {
+    let body: Record<string, unknown> | undefined
+    server.events.on('request:start', async ({ request }) => {
+      if (request.url.includes('/intake/init')) body = await request.clone().json()
+    })
+    const disc = parseLicenceDisc(POLO_DISC)!
+
+    await initDraft(disc.vin, 'LOT-7', undefined, {
+      vehicle: { registration: disc.registration, engine_number: disc.engineNumber, description: describeLicenceDiscVehicle(disc) },
+      licenceDisc: toLicenceDiscRecord(disc)
+    })
+
+    expect(body).toMatchObject({
+      vehicle: { registration: 'KYK567EC', engine_number: 'CBZ123456', description: 'VOLKSWAGEN POLO, White (Hatch back)' },
+      licence_disc: { disc_number: '40240281B0ZZ', vin: 'AAVZZZ6RZBU012345', expiry: '2019-06-30' }
+    })
+  })
+})
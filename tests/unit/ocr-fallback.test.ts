@@ -0,0 +1,118 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import { http, HttpResponse, delay } from 'msw'
+import { server } from '../mocks/server'
+import { TestImages } from '../mocks/test-data'
+import { ApiValidationError } from '../../src/lib/api'
+import { clearOcrHealth, ocrVin } from '../../src/lib/ocr'
+import { readVinFromImage } from '../../src/lib/vin-ocr'
+
+vi.mock('../../src/lib/vin-ocr', () => ({
+  readVinFromImage: vi.fn(async () => {
+    const characters = [...'JH4KA7561PC008269'].map((char, i) => ({ char, confidence: i === 6 ? 41 : 90 }))
+    const reading = { vin: 'JH4KA7561PC008269', confidence: 87, checkDigitValid: true, characters, votes: 4 }
+    return { ...reading, candidates: [reading], regions: [] }
+  })
+}))
+
+const serverRead = {
+  ok: true,
+  vin: '1HGCM82633A004352',
+  vinValid: true,
+  candidates: ['1HGCM82633A004352'],
+  confidence: 96,
+  processingTime: 640,
+  textExtracted: true,
+  totalBlocks: 4,
+  lineCount: 2,
+  fromCache: false
+}
+
+function healthz(textractAvailable: boolean) {
+  return http.get('*/healthz', () => HttpResponse.json({
+    ok: true,
+    dataDir: '/mock/data',
+    hasPrivateKey: true,
+    hasPublicKey: true,
+    aws: { configured: textractAvailable, region: 'eu-west-1', textractAvailable },
+    cache: { keys: 0, stats: {} }
+  }))
+}
+
+describe('ocrVin', () => {
+  const paths: string[] = []
+
+  beforeEach(() => {
+    paths.length = 0
+    server.events.on('request:start', ({ request }) => paths.push(new URL(request.url).pathname))
+    // jsdom cannot parse multipart bodies, so the OCR endpoint answers without reading the upload
+    server.use(healthz(true), http.post('*/ocr/vin', () => HttpResponse.json(serverRead)))
+  })
+
+  afterEach(() => {
+    server.events.removeAllListeners()
+    clearOcrHealth()
+    vi.restoreAllMocks()
+  })
+
+  test('uses the server when it is up', async () => {
+    const result = await ocrVin(TestImages.vinClear(), { compress: false })
+
+    expect(result).toMatchObject({ vin: '1HGCM82633A004352', source: 'server', characters: [] })
+    expect(readVinFromImage).not.toHaveBeenCalled()
+  })
+
+  test('asks for health once and reuses the answer', async () => {
+    await ocrVin(TestImages.vinClear(), { compress: false })
+    await ocrVin(TestImages.vinClear(), { compress: false })
+
+    expect(paths.filter(path => path === '/healthz')).toHaveLength(1)
+  })
+
+  test('reads on the device when offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+
+    const result = await ocrVin(TestImages.vinClear(), { compress: false })
+
+    expect(result).toMatchObject({
+      ok: true,
+      vin: 'JH4KA7561PC008269',
+      vinValid: true,
+      confidence: 87,
+      source: 'device'
+    })
+    expect(result.characters).toHaveLength(17)
+    expect(result.characters[6]).toEqual({ char: '5', confidence: 41 })
+    expect(paths).toEqual([])
+  })
+
+  test('reads on the device when Textract is unavailable', async () => {
+    server.use(healthz(false))
+
+    const result = await ocrVin(TestImages.vinClear(), { compress: false })
+
+    expect(result.source).toBe('device')
+    expect(paths).not.toContain('/ocr/vin')
+  })
+
+  test('falls back when the server cannot be reached or is too slow', async () => {
+    server.use(http.post('*/ocr/vin', () => HttpResponse.error()))
+    await expect(ocrVin(TestImages.vinClear(), { compress: false })).resolves.toMatchObject({ source: 'device' })
+
+    server.use(http.post('*/ocr/vin', async () => {
+      await delay('infinite')
+      return HttpResponse.json(serverRead)
+    }))
+    await expect(ocrVin(TestImages.vinClear(), { compress: false, serverTimeoutMs: 50 })).resolves.toMatchObject({ source: 'device' })
+  })
+
+  test('surfaces errors the device could not fix', async () => {
+    server.use(http.post('*/ocr/vin', () => HttpResponse.json(
+      { error: 'invalid_image', message: 'Corrupt upload' },
+      { status: 400 }
+    )))
+
+    await expect(ocrVin(TestImages.vinClear(), { compress: false })).rejects.toMatchObject({ kind: 'validation' })
+    await expect(ocrVin(new File([], 'empty.jpg', { type: 'image/jpeg' }), { compress: false })).rejects.toBeInstanceOf(ApiValidationError)
+    expect(readVinFromImage).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, test, expect } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../mocks/server'
+import { TestImages } from '../mocks/test-data'
+import { ocrOdoFromImage, type OcrTextRegion } from '../../src/lib/api'
+import { digitsOnly, ocrHighlights } from '../../src/lib/ocr-overlay'
+
+const region = (text: string, left: number, top: number, level: OcrTextRegion['level'] = 'word'): OcrTextRegion => ({
+  text,
+  box: { left, top, width: level === 'line' ? 0.5 : 0.2, height: 0.05 },
+  confidence: 90,
+  level
+})
+
+// An engine bay: the VIN stamped on the firewall and a part number on a label
+const ENGINE_BAY = [
+  region('VIN: 1HGCM82633A004352', 0.1, 0.6, 'line'),
+  region('VIN:', 0.1, 0.6),
+  region('1HGCM82633A004352', 0.3, 0.6),
+  region('PART 06H903023A', 0.5, 0.1, 'line'),
+  region('06H903023A', 0.6, 0.1)
+]
+
+describe('ocrHighlights', () => {
+  test('marks the tightest region holding each candidate', () => {
+    const highlights = ocrHighlights(ENGINE_BAY, '1HGCM82633A004352', ['1HGCM82633A004352', '06H903023A'])
+
+    expect(highlights).toEqual([
+      { text: '1HGCM82633A004352', kind: 'chosen', box: ENGINE_BAY[2].box },
+      { text: '06H903023A', kind: 'alternative', box: ENGINE_BAY[4].box }
+    ])
+  })
+
+  test('matches a VIN however it was spaced or formatted', () => {
+    const [chosen] = ocrHighlights(ENGINE_BAY, '1HG CM826 33A 004352', [])
+
+    expect(chosen.box).toEqual(ENGINE_BAY[2].box)
+  })
+
+  test('pieces a candidate together from the words it was read across', () => {
+    const split = [region('1HGCM826', 0.1, 0.5), region('33A004352', 0.35, 0.52)]
+
+    const [chosen] = ocrHighlights(split, '1HGCM82633A004352', [])
+
+    expect(chosen.box.left).toBe(0.1)
+    expect(chosen.box.top).toBe(0.5)
+    expect(chosen.box.width).toBeCloseTo(0.45)
+    expect(chosen.box.height).toBeCloseTo(0.07)
+  })
+
+  test('leaves out candidates it cannot place and duplicate outlines', () => {
+    const highlights = ocrHighlights(ENGINE_BAY, '1HGCM82633A004352', ['1HGCM82633A004352X', 'WVWZZZ1JZXW000001'])
+
+    expect(highlights.map(highlight => highlight.kind)).toEqual(['chosen'])
+  })
+
+  test('compares odometer readings as digits', () => {
+    const dash = [region('ODO 45,678 km', 0.4, 0.5, 'line'), region('TRIP 123.4', 0.4, 0.7, 'line')]
+
+    const highlights = ocrHighlights(dash, '45678', ['45678', '1234'], digitsOnly)
+
+    expect(highlights.map(highlight => [highlight.kind, highlight.box.top])).toEqual([['chosen', 0.5], ['alternative', 0.7]])
+  })
+})
+
+describe('OCR regions from the server', () => {
+  test('are an empty list when the server does not send any', async () => {
+    server.use(http.post('*/ocr/odometer', () => HttpResponse.json({
+      ok: true,
+      km: 45678,
+      unit: 'km',
+      candidates: [{ value: 45678, score: 0.9 }],
+      confidence: 0.9,
+      processingTime: 300,
+      textExtracted: true,
+      totalBlocks: 2,
+      lineCount: 1,
+      fromCache: false
+    })))
+
+    const result = await ocrOdoFromImage(TestImages.odometerDigitalClear(), { compress: false })
+
+    expect(result.regions).toEqual([])
+  })
+})
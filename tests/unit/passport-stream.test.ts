@@ -0,0 +1,112 @@
+import { describe, test, expect, afterEach, vi } from 'vitest'
+import { server } from '../mocks/server'
+import { StubEventSource } from '../mocks/event-source'
+import { MOCK_CREDENTIALS } from '../mocks/handlers'
+import { getChecklist, login, subscribeToPassport, type PassportEvent, type PassportStreamStatus } from '../../src/lib/api'
+import { clearSession, getSession } from '../../src/lib/auth'
+
+const VIN = 'AABCX12345K123456'
+
+const checklistEvent = {
+  vin: VIN,
+  checklist: { presentCount: 12, requiredCount: 12, missing: [], photosOk: true, hasDekra: true, hasOdo: true },
+  ready: true
+}
+
+const instantReconnect = { maxAttempts: Infinity, baseDelayMs: 1, maxDelayMs: 1, maxRetryAfterMs: 0 }
+
+async function nextStream(count = 1) {
+  await vi.waitFor(() => expect(StubEventSource.instances).toHaveLength(count))
+  return StubEventSource.instances[count - 1]
+}
+
+describe('subscribeToPassport', () => {
+  afterEach(() => {
+    server.events.removeAllListeners()
+    clearSession()
+  })
+
+  test('streams checklist changes to the handler and into the cache', async () => {
+    await login(MOCK_CREDENTIALS.username, MOCK_CREDENTIALS.password)
+    const events: PassportEvent[] = []
+    const unsubscribe = subscribeToPassport(VIN, event => events.push(event))
+
+    const stream = await nextStream()
+    // The bearer token stays out of the URL, where proxies and server logs would record it
+    expect(stream.url).toMatch(new RegExp(`^/passports/${VIN}/events\\?ticket=ticket-\\d+$`))
+    expect(stream.url).not.toContain(getSession()!.accessToken)
+    stream.open()
+    stream.emit('checklist', checklistEvent)
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ type: 'checklist', checklist: checklistEvent })
+
+    let checklistRequests = 0
+    server.events.on('request:start', ({ request }) => {
+      if (request.url.includes('/intake/checklist/')) checklistRequests++
+    })
+    await expect(getChecklist(VIN)).resolves.toMatchObject(checklistEvent)
+    expect(checklistRequests).toBe(0)
+    unsubscribe()
+  })
+
+  test('opens every connection with a fresh ticket', async () => {
+    await login(MOCK_CREDENTIALS.username, MOCK_CREDENTIALS.password)
+    const unsubscribe = subscribeToPassport(VIN, () => undefined, { policy: instantReconnect })
+
+    const first = await nextStream()
+    first.open()
+    first.fail()
+    const second = await nextStream(2)
+
+    expect(second.url).toContain('?ticket=')
+    expect(second.url).not.toBe(first.url)
+    unsubscribe()
+  })
+
+  test('ignores events that do not decode', async () => {
+    const handler = vi.fn()
+    const unsubscribe = subscribeToPassport(VIN, handler)
+
+    const stream = await nextStream()
+    stream.open()
+    stream.emit('checklist', 'not json')
+    stream.emit('passport', { vin: VIN, draft: { images: 'nope' } })
+
+    expect(handler).not.toHaveBeenCalled()
+    unsubscribe()
+  })
+
+  test('reconnects after a dropped connection and re-reads what it missed', async () => {
+    const statuses: PassportStreamStatus[] = []
+    const unsubscribe = subscribeToPassport(VIN, () => undefined, { policy: instantReconnect, onStatus: s => statuses.push(s) })
+
+    const first = await nextStream()
+    first.open()
+
+    const resynced: string[] = []
+    server.events.on('request:start', ({ request }) => resynced.push(new URL(request.url).pathname))
+    first.fail()
+
+    const second = await nextStream(2)
+    expect(first.readyState).toBe(StubEventSource.CLOSED)
+    second.open()
+
+    await vi.waitFor(() => expect(resynced.sort()).toEqual([`/intake/checklist/${VIN}`, `/passports/${VIN}`]))
+    expect(statuses).toEqual(['connecting', 'open', 'reconnecting', 'reconnecting', 'open'])
+    unsubscribe()
+  })
+
+  test('unsubscribing closes the stream and stops reconnecting', async () => {
+    const unsubscribe = subscribeToPassport(VIN, () => undefined, { policy: instantReconnect })
+
+    const stream = await nextStream()
+    stream.open()
+    unsubscribe()
+    stream.fail()
+
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(stream.readyState).toBe(StubEventSource.CLOSED)
+    expect(StubEventSource.instances).toHaveLength(1)
+  })
+})
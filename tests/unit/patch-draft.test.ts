@@ -0,0 +1,71 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../mocks/server'
+import { ApiHttpError, ApiValidationError, getChecklist, patchDraft } from '../../src/lib/api'
+
+const VIN = 'AABCX12345K123456'
+
+describe('patchDraft', () => {
+  afterEach(() => server.events.removeAllListeners())
+
+  test('sends every field in one request and returns the updated checklist', async () => {
+    let body: Record<string, unknown> | undefined
+    let method: string | undefined
+    server.events.on('request:start', async ({ request }) => {
+      if (request.url.includes('/intake/draft/')) {
+        method = request.method
+        body = await request.clone().json()
+      }
+    })
+
+    const result = await patchDraft(VIN, {
+      dekra: { url: 'https://dekra.example/report/1' },
+      odometer: { km: 123456.7, source: 'ocr', ocr: { confidence: 91, raw_text: '123456', extracted_km: 123456, adjusted: false } },
+      tyres_mm: { fl: 6, fr: 6, rl: 5.5, rr: 5.5 },
+      notes: 'Small dent rear bumper',
+    })
+
+    expect(method).toBe('PATCH')
+    expect(body).toMatchObject({
+      vin: VIN,
+      dekra: { url: 'https://dekra.example/report/1' },
+      odometer: { km: 123456, source: 'ocr', ocr: { confidence: 91 } },
+      tyres_mm: { fl: 6, fr: 6, rl: 5.5, rr: 5.5 },
+      notes: 'Small dent rear bumper',
+    })
+    expect(result.checklist.checklist.hasOdo).toBe(true)
+    expect(result.draft?.notes).toBe('Small dent rear bumper')
+  })
+
+  test('seeds the checklist cache with the returned checklist', async () => {
+    const { checklist } = await patchDraft(VIN, { odometer: { km: 1000, source: 'manual' } })
+
+    let checklistRequests = 0
+    server.events.on('request:start', ({ request }) => {
+      if (request.url.includes('/intake/checklist/')) checklistRequests++
+    })
+
+    await expect(getChecklist(VIN)).resolves.toEqual(checklist)
+    expect(checklistRequests).toBe(0)
+  })
+
+  test('validates the patch before sending it', async () => {
+    await expect(patchDraft(VIN, {})).rejects.toBeInstanceOf(ApiValidationError)
+    await expect(patchDraft(VIN, { tyres_mm: { fl: 20, fr: 6, rl: 6, rr: 6 } })).rejects.toBeInstanceOf(ApiValidationError)
+    await expect(patchDraft(VIN, { dekra: { url: 'http://insecure.example' } })).rejects.toBeInstanceOf(ApiValidationError)
+  })
+
+  test('surfaces a rejected patch with the server reasons', async () => {
+    server.use(
+      http.patch('*/intake/draft/:vin', () => HttpResponse.json(
+        { error: 'invalid_patch', reasons: ['odometer_rollback'] },
+        { status: 422 }
+      ))
+    )
+
+    const error = await patchDraft(VIN, { odometer: { km: 10, source: 'manual' } }).catch(e => e)
+
+    expect(error).toBeInstanceOf(ApiHttpError)
+    expect(error.reasons).toEqual(['odometer_rollback'])
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../mocks/server'
+import { createTestFile, mockPlateReads } from '../mocks/test-data'
+import { ApiValidationError, ocrPlateFromImage, patchDraft } from '../../src/lib/api'
+import { describePlate, formatPlate, isValidPlate, parsePlate } from '../../src/lib/plates'
+
+describe('parsePlate', () => {
+  test('recognises the Gauteng series', () => {
+    expect(parsePlate('bc12degp')).toMatchObject({ plate: 'BC12DEGP', formatted: 'BC 12 DE GP', province: 'GP', format: 'standard' })
+    expect(parsePlate('ABC 123 GP')).toMatchObject({ formatted: 'ABC 123 GP', province: 'GP' })
+  })
+
+  test('recognises Western Cape and KwaZulu-Natal town codes', () => {
+    expect(parsePlate('CA 123-456')).toMatchObject({ formatted: 'CA 123-456', province: 'WC' })
+    expect(parsePlate('CAW12345')).toMatchObject({ formatted: 'CAW 12-345', province: 'WC' })
+    expect(parsePlate('nd123456')).toMatchObject({ formatted: 'ND 123-456', province: 'KZN' })
+    expect(parsePlate('NP 123')).toMatchObject({ formatted: 'NP 123', province: 'KZN' })
+  })
+
+  test('recognises the other provinces', () => {
+    expect(parsePlate('KYK567EC')?.province).toBe('EC')
+    expect(parsePlate('BXY 123 L')?.province).toBe('LP')
+    expect(parsePlate('DFG 456 MP')?.province).toBe('MP')
+  })
+
+  test('recognises personalised plates and keeps their spacing', () => {
+    expect(parsePlate('MY CAR WP')).toMatchObject({ plate: 'MYCARWP', formatted: 'MY CAR WP', province: 'WC', format: 'personalised' })
+    expect(parsePlate('thabo-gp')).toMatchObject({ formatted: 'THABO GP', province: 'GP', format: 'personalised' })
+    expect(describePlate(parsePlate('SURF ZN')!)).toBe('Personalised KwaZulu-Natal plate')
+  })
+
+  test('rejects anything else', () => {
+    expect(isValidPlate('')).toBe(false)
+    expect(isValidPlate('GA 123-456')).toBe(false)
+    expect(isValidPlate('TOOLONGNAME GP')).toBe(false)
+    expect(isValidPlate('AB 12 CD XX')).toBe(false)
+    expect(formatPlate(' ab  12 cd xx ')).toBe('AB 12 CD XX')
+  })
+})
+
+// jsdom cannot parse multipart bodies, so answer with the recorded read instead of reading the upload
+function respondWith(name: string) {
+  const recorded = mockPlateReads[name]
+  server.use(
+    http.post('*/ocr/plate', () => HttpResponse.json({
+      ok: recorded.plate !== null,
+      ...recorded,
+      processingTime: 380,
+      textExtracted: recorded.candidates.length > 0,
+      totalBlocks: 4,
+      lineCount: 1,
+      fromCache: false
+    }))
+  )
+  return createTestFile(name)
+}
+
+describe('ocrPlateFromImage', () => {
+  test('ranks recognised plate formats first', async () => {
+    const result = await ocrPlateFromImage(respondWith('exterior_front_34_clear.jpg'), { compress: false })
+
+    expect(result.plate).toBe('CA 123-456')
+    expect(result.candidates).toEqual(['CA 123-456', 'CA12345B', 'GA123456'])
+  })
+
+  test('prefers a valid candidate over a misread best guess', async () => {
+    const result = await ocrPlateFromImage(respondWith('exterior_rear_34_angled.jpg'), { compress: false })
+
+    expect(result.plate).toBe('HC 12 BX GP')
+    expect(result.candidates).toEqual(['HC 12 BX GP', 'HC12BXGF'])
+  })
+
+  test('has no plate when nothing was read', async () => {
+    const result = await ocrPlateFromImage(respondWith('default'), { compress: false })
+
+    expect(result.plate).toBeNull()
+    expect(result.candidates).toEqual([])
+  })
+})
+
+describe('patchDraft registration', () => {
+  afterEach(() => server.events.removeAllListeners())
+
+  test('stores the plate with the vehicle details', async () => {
+    let body: Record<string, unknown> | undefined
+    server.events.on('request:start', async ({ request }) => {
+      if (request.url.includes('/intake/draft/')) body = await request.clone().json()
+    })
+
+    const result = await patchDraft('AABCX12345K123456', { vehicle: { registration: 'CA 123-456', engine_number: 'CBZ123456' } })
+
+    expect(body?.vehicle).toEqual({ registration: 'CA 123-456', engine_number: 'CBZ123456' })
+    expect(result.draft?.vehicle?.registration).toBe('CA 123-456')
+  })
+
+  test('rejects an empty registration', async () => {
+    await expect(patchDraft('AABCX12345K123456', { vehicle: { registration: ' - ' } })).rejects.toBeInstanceOf(ApiValidationError)
+  })
+})
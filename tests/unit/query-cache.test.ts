@@ -0,0 +1,77 @@
+import { describe, test, expect, vi, afterEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../mocks/server'
+import { cachedQuery, invalidateQueries, subscribeToQuery } from '../../src/lib/query-cache'
+import { getChecklist, getPassport, setOdometer } from '../../src/lib/api'
+
+const VIN = 'AABCX12345K123456'
+
+function countChecklistRequests() {
+  const counter = { count: 0 }
+  server.events.on('request:start', ({ request }) => {
+    if (request.url.includes('/intake/checklist/')) counter.count++
+  })
+  return counter
+}
+
+describe('Query cache', () => {
+  afterEach(() => server.events.removeAllListeners())
+
+  test('coalesces identical in-flight requests', async () => {
+    const requests = countChecklistRequests()
+
+    const [a, b, c] = await Promise.all([getChecklist(VIN), getChecklist(VIN), getChecklist(VIN)])
+
+    expect(requests.count).toBe(1)
+    expect(b).toBe(a)
+    expect(c).toBe(a)
+  })
+
+  test('serves stale data immediately and revalidates in the background', async () => {
+    let version = 0
+    const fetcher = vi.fn(async () => ++version)
+    const updates: number[] = []
+    const unsubscribe = subscribeToQuery<number>('stale-test', value => updates.push(value))
+
+    expect(await cachedQuery('stale-test', fetcher, { staleAfterMs: 0 })).toBe(1)
+    expect(await cachedQuery('stale-test', fetcher, { staleAfterMs: 0 })).toBe(1)
+
+    await vi.waitFor(() => expect(updates).toEqual([1, 2]))
+    expect(await cachedQuery('stale-test', fetcher)).toBe(2)
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    unsubscribe()
+  })
+
+  test('discards responses to reads sent before an invalidation', async () => {
+    let resolveFirst: (value: string) => void = () => undefined
+    const first = cachedQuery('race-test', () => new Promise<string>(resolve => { resolveFirst = resolve }))
+
+    invalidateQueries('race-test')
+    const second = cachedQuery('race-test', async () => 'after-write')
+    resolveFirst('before-write')
+
+    expect(await first).toBe('before-write')
+    expect(await second).toBe('after-write')
+    expect(await cachedQuery('race-test', async () => 'unused')).toBe('after-write')
+  })
+
+  test('mutations invalidate the affected VIN only', async () => {
+    await getChecklist(VIN)
+    await getPassport(VIN)
+    await getChecklist('OTHERVIN000000000')
+
+    const seen: string[] = []
+    server.events.on('request:start', ({ request }) => {
+      if (request.method === 'GET') seen.push(new URL(request.url).pathname)
+    })
+
+    server.use(http.post('*/intake/init', () => HttpResponse.json({ ok: true })))
+    await setOdometer(VIN, 42000)
+
+    await getChecklist(VIN)
+    await getPassport(VIN)
+    await getChecklist('OTHERVIN000000000')
+
+    expect(seen).toEqual([`/intake/checklist/${VIN}`, `/passports/${VIN}`])
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, test, expect } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../mocks/server'
+import { idempotent } from '../mocks/handlers'
+import { ApiHttpError, ApiNetworkError, ApiValidationError } from '../../src/lib/api-errors'
+import { DEFAULT_RETRY_POLICY, backoffDelay, withRetry } from '../../src/lib/retry'
+import { setOdometer, sealStrict } from '../../src/lib/api'
+
+const VIN = 'AABCX12345K123456'
+
+const rateLimited = (retryAfterMs: number | null) => new ApiHttpError('rate_limited', '429 rate_limit_exceeded', {
+  status: 429,
+  code: 'rate_limit_exceeded',
+  retryable: true,
+  retryAfterMs,
+})
+
+describe('Retry policy', () => {
+  test('backs off exponentially with full jitter, capped at maxDelayMs', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000 }
+
+    expect(backoffDelay(1, policy, () => 1)).toBe(100)
+    expect(backoffDelay(3, policy, () => 1)).toBe(400)
+    expect(backoffDelay(6, policy, () => 1)).toBe(1000)
+    expect(backoffDelay(3, policy, () => 0.5)).toBe(200)
+  })
+
+  test('retries retryable errors and gives up after maxAttempts', async () => {
+    const delays: number[] = []
+    let calls = 0
+
+    const error = await withRetry(async () => {
+      calls++
+      throw new ApiNetworkError()
+    }, { sleep: async ms => { delays.push(ms) }, random: () => 1 }).catch(e => e)
+
+    expect(error).toBeInstanceOf(ApiNetworkError)
+    expect(calls).toBe(DEFAULT_RETRY_POLICY.maxAttempts)
+    expect(delays).toEqual([500, 1000])
+  })
+
+  test('does not retry validation errors', async () => {
+    let calls = 0
+    await expect(withRetry(async () => {
+      calls++
+      throw new ApiValidationError('nope')
+    }, { sleep: async () => undefined })).rejects.toBeInstanceOf(ApiValidationError)
+    expect(calls).toBe(1)
+  })
+
+  test('waits for Retry-After on rate limiting, unless it is too long', async () => {
+    const delays: number[] = []
+    let calls = 0
+
+    const result = await withRetry(async () => {
+      if (++calls === 1) throw rateLimited(2000)
+      return 'ok'
+    }, { sleep: async ms => { delays.push(ms) } })
+
+    expect(result).toBe('ok')
+    expect(delays).toEqual([2000])
+
+    await expect(withRetry(async () => {
+      throw rateLimited(10 * 60 * 1000)
+    }, { sleep: async () => undefined })).rejects.toBeInstanceOf(ApiHttpError)
+  })
+
+  test('parses Retry-After from rate-limited responses', async () => {
+    let calls = 0
+    server.use(
+      http.post('*/intake/init', () => {
+        calls++
+        return calls === 1
+          ? HttpResponse.json({ error: 'rate_limit_exceeded' }, { status: 429, headers: { 'Retry-After': '0' } })
+          : HttpResponse.json({ ok: true })
+      })
+    )
+
+    await expect(setOdometer(VIN, 1234)).resolves.toEqual({ ok: true })
+    expect(calls).toBe(2)
+  })
+})
+
+describe('Idempotency keys', () => {
+  test('reuses one key across retries so a dropped response is not applied twice', async () => {
+    const keys: string[] = []
+    let applied = 0
+
+    server.use(
+      http.post('*/passports/seal/strict', async ({ request }) => {
+        keys.push(request.headers.get('Idempotency-Key') ?? '')
+        const response = await idempotent(request, () => {
+          applied++
+          return { ok: true }
+        })
+        // First response is lost on the way back after the seal was applied
+        return keys.length === 1 ? HttpResponse.error() : response
+      })
+    )
+
+    await expect(sealStrict(VIN)).resolves.toEqual({ ok: true })
+    expect(keys).toHaveLength(2)
+    expect(keys[0]).not.toBe('')
+    expect(keys[1]).toBe(keys[0])
+    expect(applied).toBe(1)
+  })
+
+  test('uses a fresh key for each logical operation', async () => {
+    const keys: string[] = []
+    server.use(
+      http.post('*/intake/init', ({ request }) => {
+        keys.push(request.headers.get('Idempotency-Key') ?? '')
+        return HttpResponse.json({ ok: true })
+      })
+    )
+
+    await setOdometer(VIN, 1000)
+    await setOdometer(VIN, 1000)
+
+    expect(keys).toHaveLength(2)
+    expect(keys[0]).not.toBe(keys[1])
+  })
+})
@@ -29,7 +29,8 @@ vi.mock('../../src/lib/api', async () => {
         textExtracted: true,
         totalBlocks: 5,
         lineCount: 12,
-        fromCache: false
+        fromCache: false,
+        source: 'server'
       }
     }),
     ocrOdoFromImage: vi.fn()
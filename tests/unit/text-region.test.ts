@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest'
+import { detectTextRegion, MIN_TEXT_REGION_CONFIDENCE } from '../../src/lib/text-region'
+import { createImageData } from '../../src/lib/image-pipeline'
+
+function image(width: number, height: number, value: (x: number, y: number) => number) {
+  const out = createImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      out.data[i] = out.data[i + 1] = out.data[i + 2] = value(x, y)
+      out.data[i + 3] = 255
+    }
+  }
+  return out
+}
+
+// Dark character strokes in a row, the way a VIN line looks once the plate is flat
+const inLine = (x: number, y: number, line: { x0: number; x1: number; y0: number; y1: number }) =>
+  x >= line.x0 && x < line.x1 && y >= line.y0 && y < line.y1 && (x - line.x0) % 12 < 6
+
+describe('detectTextRegion', () => {
+  test('finds a line of text sitting off-centre', () => {
+    const line = { x0: 240, x1: 380, y0: 40, y1: 70 }
+    const region = detectTextRegion(image(400, 300, (x, y) => (inLine(x, y, line) ? 30 : 210)))
+
+    expect(region).not.toBeNull()
+    expect(region!.confidence).toBeGreaterThanOrEqual(MIN_TEXT_REGION_CONFIDENCE)
+    const { x, y, width, height } = region!.bounds
+    // Holds every character, with padding but not much else
+    expect(x).toBeLessThanOrEqual(line.x0)
+    expect(y).toBeLessThanOrEqual(line.y0)
+    expect(x + width).toBeGreaterThanOrEqual(line.x1 - 6)
+    expect(y + height).toBeGreaterThanOrEqual(line.y1)
+    expect(x).toBeGreaterThan(180)
+    expect(y + height).toBeLessThan(120)
+  })
+
+  test('takes in neighbouring lines of the same plate', () => {
+    const top = { x0: 60, x1: 220, y0: 100, y1: 125 }
+    const bottom = { x0: 60, x1: 200, y0: 135, y1: 160 }
+    const region = detectTextRegion(image(300, 300, (x, y) => (inLine(x, y, top) || inLine(x, y, bottom) ? 20 : 200)))
+
+    expect(region).not.toBeNull()
+    expect(region!.bounds.y).toBeLessThanOrEqual(top.y0)
+    expect(region!.bounds.y + region!.bounds.height).toBeGreaterThanOrEqual(bottom.y1)
+  })
+
+  test('ignores noise too faint to be text', () => {
+    expect(detectTextRegion(image(200, 150, () => 128))).toBeNull()
+    expect(detectTextRegion(image(200, 150, (x, y) => 120 + ((x * 7 + y * 13) % 5)))).toBeNull()
+  })
+
+  test('has no confidence when detail fills the whole photo', () => {
+    const region = detectTextRegion(image(200, 150, x => (x % 8 < 4 ? 40 : 200)))
+
+    expect(region).not.toBeNull()
+    expect(region!.confidence).toBe(0)
+  })
+
+  test('scales bounds back to the full-size photo', () => {
+    const line = { x0: 900, x1: 1400, y0: 200, y1: 280 }
+    const region = detectTextRegion(image(1600, 1200, (x, y) =>
+      x >= line.x0 && x < line.x1 && y >= line.y0 && y < line.y1 && (x - line.x0) % 40 < 20 ? 30 : 210
+    ))
+
+    expect(region).not.toBeNull()
+    expect(region!.bounds.x).toBeLessThanOrEqual(line.x0)
+    expect(region!.bounds.x).toBeGreaterThan(700)
+    expect(region!.bounds.x + region!.bounds.width).toBeGreaterThanOrEqual(line.x1 - 20)
+    expect(region!.bounds.x + region!.bounds.width).toBeLessThanOrEqual(1600)
+  })
+})
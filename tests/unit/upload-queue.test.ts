@@ -0,0 +1,143 @@
+import { describe, test, expect, afterEach, vi } from 'vitest'
+import { ApiHttpError } from '../../src/lib/api-errors'
+import { uploadPhotoDev } from '../../src/lib/api'
+import { clearSession, setSession } from '../../src/lib/auth'
+import {
+  enqueueUpload,
+  listQueuedUploads,
+  processUploadQueue,
+  retryQueuedUpload,
+  discardQueuedUpload,
+  subscribeToUploadQueue,
+  type UploadQueueEvent,
+} from '../../src/lib/upload-queue'
+import { TestImages } from '../mocks/test-data'
+
+vi.mock('../../src/lib/api', async () => {
+  const actual = await vi.importActual('../../src/lib/api')
+  return {
+    ...actual,
+    uploadPhotoDev: vi.fn().mockResolvedValue({ ok: true }),
+  }
+})
+
+const VIN = 'AABCX12345K123456'
+const uploadMock = vi.mocked(uploadPhotoDev)
+
+describe('Offline upload queue', () => {
+  afterEach(async () => {
+    for (const entry of await listQueuedUploads()) {
+      await discardQueuedUpload(entry.id)
+    }
+    uploadMock.mockReset()
+    uploadMock.mockResolvedValue({ ok: true })
+  })
+
+  test('replays a queued photo and reports it as synced', async () => {
+    const events: UploadQueueEvent[] = []
+    const unsubscribe = subscribeToUploadQueue(event => events.push(event))
+
+    await enqueueUpload({ vin: VIN, role: 'dash_odo', file: TestImages.vinClear(), context: { capture_type: 'odometer' } })
+    expect(await listQueuedUploads(VIN)).toHaveLength(1)
+
+    await processUploadQueue()
+
+    expect(await listQueuedUploads(VIN)).toHaveLength(0)
+    expect(events.some(event => event.type === 'synced' && event.entry.role === 'dash_odo')).toBe(true)
+    unsubscribe()
+  })
+
+  test('sends the stored context and flags the upload as a queued replay', async () => {
+    const file = TestImages.vinClear()
+    await enqueueUpload({ vin: VIN, role: 'engine_bay', file, context: { capture_type: 'vin' } })
+    await processUploadQueue()
+
+    expect(uploadMock).toHaveBeenCalledWith(VIN, 'engine_bay', file, expect.objectContaining({
+      context: expect.objectContaining({ capture_type: 'vin', queued_sync: '1', queued_attempts: 1 }),
+    }))
+  })
+
+  test('credits the replay to the inspector who took the photo', async () => {
+    const session = { accessToken: 'access', refreshToken: 'refresh', expiresAt: Date.now() + 900000 }
+    setSession({ ...session, inspector: { id: 'insp-001', name: 'Thandi' } })
+    await enqueueUpload({ vin: VIN, role: 'engine_bay', file: TestImages.vinClear() })
+
+    // Someone else is signed in by the time the queue syncs
+    setSession({ ...session, inspector: { id: 'insp-002', name: 'Pieter' } })
+    await processUploadQueue()
+    clearSession()
+
+    expect(uploadMock).toHaveBeenCalledWith(VIN, 'engine_bay', expect.any(File), expect.objectContaining({
+      inspector: { id: 'insp-001', name: 'Thandi' },
+    }))
+  })
+
+  test('keeps retryable failures pending with a backoff', async () => {
+    uploadMock.mockRejectedValue(new ApiHttpError('unavailable', '503 unavailable', { status: 503, retryable: true }))
+
+    await enqueueUpload({ vin: VIN, role: 'left_side', file: TestImages.vinClear() })
+    await processUploadQueue()
+
+    const [entry] = await listQueuedUploads(VIN)
+    expect(entry.status).toBe('pending')
+    expect(entry.attempts).toBe(1)
+    expect(entry.nextAttemptAt).toBeGreaterThan(Date.now())
+  })
+
+  test('moves rejected uploads to the failed list until retried', async () => {
+    uploadMock.mockRejectedValueOnce(new ApiHttpError('validation', '400 invalid_image', {
+      status: 400,
+      code: 'invalid_image',
+      userMessage: 'Invalid image format or corrupted file. Please try a different photo.',
+    }))
+
+    const queued = await enqueueUpload({ vin: VIN, role: 'right_side', file: TestImages.vinClear() })
+    await processUploadQueue()
+
+    const [failed] = await listQueuedUploads(VIN)
+    expect(failed.status).toBe('failed')
+    expect(failed.lastError).toBe('Invalid image format or corrupted file. Please try a different photo.')
+
+    await retryQueuedUpload(queued.id)
+    expect(await listQueuedUploads(VIN)).toHaveLength(0)
+  })
+
+  test('runs a retry requested while another sync is still in flight', async () => {
+    uploadMock.mockRejectedValueOnce(new ApiHttpError('validation', '400 invalid_image', { status: 400, code: 'invalid_image' }))
+    const rejected = await enqueueUpload({ vin: VIN, role: 'tyre_fl', file: TestImages.vinClear() })
+    await processUploadQueue()
+
+    let release!: () => void
+    uploadMock.mockImplementationOnce(() => new Promise(resolve => { release = () => resolve({ ok: true }) }))
+    await enqueueUpload({ vin: VIN, role: 'tyre_fr', file: TestImages.vinClear() })
+    const running = processUploadQueue()
+    await vi.waitFor(() => expect(uploadMock).toHaveBeenCalledTimes(2))
+
+    const retried = retryQueuedUpload(rejected.id)
+    release()
+    await Promise.all([running, retried])
+
+    expect(uploadMock).toHaveBeenLastCalledWith(VIN, 'tyre_fl', expect.anything(), expect.anything())
+    expect(await listQueuedUploads(VIN)).toHaveLength(0)
+  })
+
+  test('waits for sign-in without spending an attempt', async () => {
+    uploadMock.mockRejectedValueOnce(new ApiHttpError('unauthorized', '401 token_expired', { status: 401 }))
+
+    await enqueueUpload({ vin: VIN, role: 'tyre_fl', file: TestImages.vinClear() })
+    await processUploadQueue()
+
+    const [entry] = await listQueuedUploads(VIN)
+    expect(entry.status).toBe('pending')
+    expect(entry.attempts).toBe(0)
+  })
+
+  test('replaces an older queued photo for the same role', async () => {
+    await enqueueUpload({ vin: VIN, role: 'interior_front', file: TestImages.vinClear() })
+    const newer = await enqueueUpload({ vin: VIN, role: 'interior_front', file: TestImages.vinClear() })
+
+    const entries = await listQueuedUploads(VIN)
+    expect(entries).toHaveLength(1)
+    expect(entries[0].id).toBe(newer.id)
+  })
+})
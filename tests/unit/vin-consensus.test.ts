@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest'
+import { alignToReference, buildVinConsensus, isUncertain, uncertainPositions } from '../../src/lib/vin-consensus'
+
+const VALID_VIN = '1HGCM82633A004352'
+
+const read = (text: string, confidence = 90) => ({ text, confidences: [...text].map(() => confidence) })
+
+describe('alignToReference', () => {
+  test('lines up reads that dropped or gained a character', () => {
+    expect(alignToReference('ABCDE', 'ABCDE')).toEqual([0, 1, 2, 3, 4])
+    expect(alignToReference('ABCDE', 'ABDE')).toEqual([0, 1, null, 2, 3])
+    expect(alignToReference('ABCDE', 'ABXCDE')).toEqual([0, 1, 3, 4, 5])
+  })
+})
+
+describe('buildVinConsensus', () => {
+  test('has nothing to offer without reads', () => {
+    expect(buildVinConsensus([])).toEqual([])
+    expect(buildVinConsensus([read('')])).toEqual([])
+  })
+
+  test('outvotes a misread character at each position', () => {
+    const [best] = buildVinConsensus([read('1HCCM82633A004352'), read('1HGCM82633A001352'), read('1HGCM82633A004382')])
+
+    expect(best).toMatchObject({ vin: VALID_VIN, checkDigitValid: true, votes: 0 })
+    expect(best.characters[2]).toEqual({ char: 'G', confidence: 60 })
+    expect(best.characters[0]).toEqual({ char: '1', confidence: 90 })
+  })
+
+  test('weighs each character by the confidence it was read with', () => {
+    const [best] = buildVinConsensus([
+      { text: '1HGCM82633A004352', confidences: [...VALID_VIN].map((_, i) => (i === 5 ? 95 : 80)) },
+      { text: '1HGCM62633A004352', confidences: [...VALID_VIN].map((_, i) => (i === 5 ? 30 : 80)) },
+      { text: '1HGCM62633A004352', confidences: [...VALID_VIN].map((_, i) => (i === 5 ? 30 : 80)) },
+    ])
+
+    expect(best.vin).toBe(VALID_VIN)
+    expect(best.characters[5]).toEqual({ char: '8', confidence: 32 })
+    expect(isUncertain(best.characters[5])).toBe(true)
+    expect(isUncertain(best.characters[4])).toBe(false)
+  })
+
+  test('points out the positions read with low confidence', () => {
+    const characters = [...VALID_VIN].map((char, i) => ({ char, confidence: i === 3 || i === 12 ? 40 : 88 }))
+
+    expect(uncertainPositions(VALID_VIN, characters)).toEqual([3, 12])
+    // Confidences for one string say nothing about another the inspector picked instead
+    expect(uncertainPositions('JH4KA7561PC008269', characters)).toEqual([])
+  })
+
+  test('repairs a consensus that fails the check digit from the runner-up characters', () => {
+    const candidates = buildVinConsensus([read('1HGCM82633A004352', 60), read('1HGCM82638A004352', 70)])
+
+    expect(candidates[0]).toMatchObject({ vin: VALID_VIN, checkDigitValid: true, votes: 1 })
+    expect(candidates[1]).toMatchObject({ vin: '1HGCM82638A004352', checkDigitValid: false })
+  })
+
+  test('aligns short reads against the full-length ones', () => {
+    const [best] = buildVinConsensus([read(VALID_VIN), read('1HGCM8263A004352'), read(VALID_VIN)])
+
+    expect(best).toMatchObject({ vin: VALID_VIN, votes: 2 })
+    expect(best.characters[10]).toEqual({ char: 'A', confidence: 90 })
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ApiAbortError } from '../../src/lib/api-errors'
+
+// Fake Tesseract: each "image" is the text its passes read, after an optional delay in ms
+interface FakeImage { text: string; delayMs?: number }
+
+const tesseract = vi.hoisted(() => {
+  const state = { created: 0, terminated: 0, running: 0, maxRunning: 0, passes: 0 }
+  const createWorker = vi.fn(async () => {
+    state.created++
+    let terminated = false
+    return {
+      setParameters: vi.fn(async () => ({})),
+      recognize: vi.fn((image: FakeImage) => {
+        state.passes++
+        state.running++
+        state.maxRunning = Math.max(state.maxRunning, state.running)
+        return new Promise(resolve => setTimeout(() => {
+          state.running--
+          resolve({ data: { text: terminated ? '' : image.text, confidence: 91 } })
+        }, image.delayMs ?? 5))
+      }),
+      terminate: vi.fn(async () => {
+        terminated = true
+        state.terminated++
+      })
+    }
+  })
+  return { state, createWorker }
+})
+
+vi.mock('tesseract.js', () => ({ default: { createWorker: tesseract.createWorker } }))
+
+const { recognizeVin, terminateVinOcr, warmVinOcr } = await import('../../src/lib/vin-ocr')
+
+const VALID_VIN = '1HGCM82633A004352'
+const MISREAD_VIN = '1HGCM82633A0O4352'
+
+const image = (text: string, delayMs?: number) => ({ text, delayMs }) as unknown as HTMLCanvasElement
+
+describe('VIN OCR worker pool', () => {
+  beforeEach(() => {
+    Object.assign(tesseract.state, { created: 0, terminated: 0, running: 0, maxRunning: 0, passes: 0 })
+    vi.stubGlobal('navigator', { ...navigator, hardwareConcurrency: 4 })
+  })
+
+  afterEach(async () => {
+    await terminateVinOcr()
+    vi.unstubAllGlobals()
+  })
+
+  test('warming starts the pool once and later scans reuse it', async () => {
+    warmVinOcr()
+    warmVinOcr()
+    await vi.waitFor(() => expect(tesseract.state.created).toBe(3))
+
+    await recognizeVin([image('NOTHING HERE'), image('STILL NOTHING')])
+
+    expect(tesseract.state.created).toBe(3)
+    expect(tesseract.state.passes).toBe(8)
+  })
+
+  test('runs passes side by side up to the concurrency cap', async () => {
+    await recognizeVin([image('NO VIN', 20), image('NO VIN', 20), image('NO VIN', 20)], { concurrency: 2 })
+
+    expect(tesseract.state.maxRunning).toBe(2)
+    expect(tesseract.state.passes).toBe(12)
+  })
+
+  test('stops the remaining work once a checksum-valid VIN is read', async () => {
+    const result = await recognizeVin(
+      [image(`VIN ${VALID_VIN}`, 5), image('NO VIN', 50), image('NO VIN', 50), image('NO VIN', 50)],
+      { concurrency: 3 }
+    )
+
+    expect(result).toMatchObject({ vin: VALID_VIN, confidence: 91, checkDigitValid: true, votes: 3 })
+    expect(tesseract.state.passes).toBeLessThan(6)
+    expect(tesseract.state.terminated).toBeGreaterThan(0)
+  })
+
+  test('falls back to the best candidate when no read passes the check digit', async () => {
+    const result = await recognizeVin([image('NO VIN'), image(`VIN ${MISREAD_VIN}`)], { concurrency: 1 })
+
+    expect(result).toMatchObject({ vin: '1HGCM82633A04352', checkDigitValid: false })
+    expect(tesseract.state.passes).toBe(8)
+  })
+
+  test('votes across passes when none of them read the VIN cleanly', async () => {
+    const result = await recognizeVin(
+      [image('VIN 1HCCM82633A004352'), image('VIN 1HGCM82633A001352'), image('VIN 1HGCM82633A004382')],
+      { concurrency: 1 }
+    )
+
+    expect(result).toMatchObject({ vin: VALID_VIN, checkDigitValid: true, votes: 0 })
+    expect(result?.characters[2]).toEqual({ char: 'G', confidence: 61 })
+    expect(result?.candidates.map(candidate => candidate.vin)).toContain('1HCCM82633A004352')
+    expect(tesseract.state.passes).toBe(12)
+  })
+
+  test('a pass that runs out of time keeps its worker warm', async () => {
+    vi.stubGlobal('navigator', { ...navigator, hardwareConcurrency: 2 })
+
+    const result = await recognizeVin([image('NO VIN', 60)], { concurrency: 1, timeoutMs: 20 })
+
+    expect(result).toBeNull()
+    expect(tesseract.state.terminated).toBe(0)
+
+    // The next scan waits for the late pass and reuses the same worker
+    await recognizeVin([image('NO VIN')], { concurrency: 1 })
+
+    expect(tesseract.state.created).toBe(1)
+    expect(tesseract.state.terminated).toBe(0)
+  })
+
+  test('aborting cancels the passes in flight', async () => {
+    const controller = new AbortController()
+    const pending = recognizeVin([image('NO VIN', 200), image('NO VIN', 200)], { signal: controller.signal }).catch(e => e)
+
+    await vi.waitFor(() => expect(tesseract.state.running).toBeGreaterThan(0))
+    controller.abort()
+
+    expect(await pending).toBeInstanceOf(ApiAbortError)
+    expect(tesseract.state.terminated).toBe(tesseract.state.maxRunning)
+    expect(tesseract.state.passes).toBeLessThan(8)
+  })
+})
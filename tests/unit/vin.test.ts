@@ -0,0 +1,193 @@
+import { describe, test, expect, beforeAll } from 'vitest'
+import {
+  DEFAULT_VIN_POLICY,
+  ISO_3779_VIN_POLICY,
+  computeCheckDigit,
+  decodeVin,
+  loadWmiDataset,
+  lookupWmi,
+  suggestVinCorrections,
+  validateVin,
+} from '../../src/lib/vin'
+
+// Fills position 9 so the NA position-7 rule applies
+function withCheckDigit(vin: string) {
+  return vin.slice(0, 8) + computeCheckDigit(vin) + vin.slice(9)
+}
+
+describe('decodeVin', () => {
+  beforeAll(async () => {
+    await loadWmiDataset()
+  })
+
+  test('splits a VIN into its segments, origin, plant and serial', () => {
+    const decoded = decodeVin('1HGCM82633A004352', { referenceYear: 2026 })
+
+    expect(decoded).toMatchObject({
+      wmi: '1HG',
+      vds: 'CM8263',
+      vis: '3A004352',
+      region: 'North America',
+      country: 'United States',
+      modelYear: 2003,
+      modelYearRule: 'position7',
+      plantCode: 'A',
+      serialNumber: '004352',
+      checkDigitValid: true,
+    })
+  })
+
+  test('names known South African manufacturers', () => {
+    const decoded = decodeVin('AHTFR22G306012345', { referenceYear: 2026 })
+
+    expect(decoded.manufacturer).toBe('Toyota South Africa Motors')
+    expect(decoded.region).toBe('Africa')
+    expect(decoded.country).toBe('South Africa')
+  })
+
+  test('uses position 7 to pick the model-year cycle', () => {
+    const numeric = withCheckDigit('1G1ZT5300AF123456')
+    const alpha = withCheckDigit('1G1ZT5S00AF123456')
+
+    expect(decodeVin(numeric, { referenceYear: 2026 }).modelYear).toBe(1980)
+    expect(decodeVin(alpha, { referenceYear: 2026 }).modelYear).toBe(2010)
+    expect(decodeVin(numeric, { referenceYear: 2045 }).modelYear).toBe(2040)
+    expect(decodeVin(numeric, { referenceYear: 2026 }).modelYearCandidates).toEqual([1980, 2010])
+  })
+
+  test('falls back to the latest plausible year when the VIN ignores NA rules', () => {
+    const decoded = decodeVin('AAVZZZ6RZEU012345', { referenceYear: 2026 })
+
+    expect(decoded.checkDigitValid).toBe(false)
+    expect(decoded.modelYear).toBe(2014)
+    expect(decoded.modelYearRule).toBe('latest')
+  })
+
+  test('decodes what it can from a partial VIN', () => {
+    const decoded = decodeVin('WVWZZZ1K', { referenceYear: 2026 })
+
+    expect(decoded).toMatchObject({ wmi: 'WVW', manufacturer: 'Volkswagen', country: 'Germany', vis: '' })
+    expect(decoded.modelYear).toBeNull()
+    expect(decoded.plantCode).toBeNull()
+    expect(decoded.serialNumber).toBeNull()
+    expect(decoded.checkDigitValid).toBeNull()
+  })
+
+  test('reads the serial from VIS 15-17 for low-volume manufacturers', () => {
+    const decoded = decodeVin('AA9ZZZ1JZKW123456', { referenceYear: 2026 })
+
+    expect(decoded.lowVolumeManufacturer).toBe(true)
+    expect(decoded.serialNumber).toBe('456')
+  })
+})
+
+describe('lookupWmi', () => {
+  test('returns make, manufacturer and vehicle type from the offline dataset', async () => {
+    const info = await lookupWmi('AAV')
+
+    expect(info).toMatchObject({
+      code: 'AAV',
+      make: 'Volkswagen',
+      manufacturer: 'Volkswagen Group South Africa',
+      vehicleType: 'passenger',
+      country: 'South Africa',
+      region: 'Africa',
+      source: 'dataset',
+    })
+    expect(info.datasetVersion).toMatch(/^\d{4}\./)
+  })
+
+  test('accepts a whole VIN', async () => {
+    await expect(lookupWmi('WBA3A5C51CF256551')).resolves.toMatchObject({ code: 'WBA', make: 'BMW' })
+  })
+
+  test('falls back to the origin of an unlisted WMI', async () => {
+    const info = await lookupWmi('ABZ')
+
+    expect(info).toMatchObject({ make: null, vehicleType: null, country: 'South Africa', region: 'Africa', source: 'derived' })
+  })
+})
+
+describe('suggestVinCorrections', () => {
+  const VALID = '1HGCM82633A004352'
+
+  function misread(vin: string, ...subs: Array<[number, string]>) {
+    const chars = vin.split('')
+    for (const [position, char] of subs) chars[position - 1] = char
+    return chars.join('')
+  }
+
+  test('recovers a single OCR confusion as the top suggestion', () => {
+    const suggestions = suggestVinCorrections(misread(VALID, [12, 'D']))
+
+    expect(suggestions[0]).toMatchObject({ vin: VALID, changes: [{ position: 12, from: 'D', to: '0' }] })
+  })
+
+  test('recovers two OCR confusions', () => {
+    const suggestions = suggestVinCorrections(misread(VALID, [6, 'B'], [16, 'S']))
+
+    expect(suggestions.map(s => s.vin)).toContain(VALID)
+  })
+
+  test('only suggests checksum-valid VINs, ranked by likelihood', () => {
+    const suggestions = suggestVinCorrections(misread(VALID, [6, 'B'], [16, 'S']), { limit: 20 })
+
+    expect(suggestions.length).toBeGreaterThan(0)
+    for (const suggestion of suggestions) {
+      expect(computeCheckDigit(suggestion.vin)).toBe(suggestion.vin[8])
+    }
+    const scores = suggestions.map(s => s.score)
+    expect(scores).toEqual([...scores].sort((a, b) => b - a))
+  })
+
+  test('has nothing to suggest for a valid or incomplete VIN', () => {
+    expect(suggestVinCorrections(VALID)).toEqual([])
+    expect(suggestVinCorrections('1HGCM8263')).toEqual([])
+  })
+})
+
+describe('validateVin', () => {
+  const VALID = '1HGCM82633A004352'
+
+  test('passes a valid VIN with no findings', () => {
+    expect(validateVin(VALID)).toEqual({ vin: VALID, valid: true, severity: null, findings: [] })
+  })
+
+  test('names each reason a VIN fails', () => {
+    const codes = (vin: string) => validateVin(vin).findings.map(f => f.code)
+
+    expect(codes('')).toEqual(['empty'])
+    expect(codes('1HGCM82633A00435')).toEqual(['wrong_length'])
+    expect(codes('1HGCM82633AO04352')).toEqual(['illegal_characters'])
+    expect(validateVin('1HGCM82633AO04352').findings[0].positions).toEqual([12])
+    expect(codes('1HGCM82643A004352')).toEqual(['checksum_mismatch'])
+    expect(codes('11111111111111111')).toContain('suspicious_pattern')
+  })
+
+  test('tolerates a lookalike check digit on South African VINs', () => {
+    // The check digit for this VIN is 8; B is its OCR lookalike
+    const result = validateVin('AAVZZZ6RBEU012345')
+
+    expect(result.valid).toBe(true)
+    expect(result.findings).toEqual([expect.objectContaining({ code: 'sa_check_digit_variance', severity: 'info' })])
+  })
+
+  test('downgrades a checksum mismatch outside North America under the ISO 3779 policy', () => {
+    const european = 'WVWZZZ1KZ6W123456'
+
+    expect(validateVin(european).valid).toBe(false)
+    const iso = validateVin(european, ISO_3779_VIN_POLICY)
+    expect(iso.valid).toBe(true)
+    expect(iso.severity).toBe('warning')
+
+    expect(validateVin('1HGCM82643A004352', ISO_3779_VIN_POLICY).severity).toBe('error')
+  })
+
+  test('accepts pre-1981 short chassis numbers when the policy allows', () => {
+    expect(validateVin('WBS1234567').valid).toBe(false)
+
+    const result = validateVin('WBS1234567', { ...DEFAULT_VIN_POLICY, allowShortChassis: true })
+    expect(result.valid).toBe(true)
+    expect(result.findings.map(f => f.code)).toEqual(['short_chassis'])
+  })
+})